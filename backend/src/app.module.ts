@@ -4,9 +4,13 @@ import { join } from 'path/posix';
 import { AuthModule } from './modules/auth.module';
 import { RoomModule } from './modules/room.module';
 import { RoomMembershipModule } from './modules/room-membership.module';
+import { RoomInviteModule } from './modules/room-invite.module';
+import { ChannelModule } from './modules/channel.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { UserModule } from './modules/user.module';
 import { MessageModule } from './modules/message.module';
+import { AttachmentModule } from './modules/attachment.module';
+import { AvatarModule } from './modules/avatar.module';
 import { ConfigModule } from '@nestjs/config';
 import { ThrottlerModule } from '@nestjs/throttler';
 
@@ -33,7 +37,11 @@ import { ThrottlerModule } from '@nestjs/throttler';
     UserModule,
     RoomModule,
     RoomMembershipModule,
+    RoomInviteModule,
+    ChannelModule,
     MessageModule,
+    AttachmentModule,
+    AvatarModule,
     AuthModule,
     ThrottlerModule.forRoot({
       throttlers: [
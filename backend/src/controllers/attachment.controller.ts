@@ -0,0 +1,129 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Header,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Request,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { plainToClass } from 'class-transformer';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import {
+  RequireRoomPermission,
+  RoomPermissionGuard,
+} from 'src/guards/room-permission.guard';
+import { RoomPermission } from '../services/room-permission.service';
+import { AttachmentService } from '../services/attachment.service';
+import { AttachmentResponseDto } from '../dto/attachment/attachment-response.dto';
+import { UploadAttachmentDto } from '../dto/attachment/upload-attachment.dto';
+
+// Multer keeps uploads in memory, so anything larger is refused before the
+// configured ATTACHMENT_MAX_SIZE_MB is checked
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+@Controller('attachments')
+@UseGuards(JwtAuthGuard)
+@ApiTags('attachments')
+export class AttachmentController {
+  constructor(private readonly attachmentService: AttachmentService) {}
+
+  @Post()
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.SEND_MESSAGES, 'query.roomId')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({
+    summary: 'Upload a file to attach to the next message in a room',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'File uploaded successfully',
+    type: AttachmentResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 413, description: 'File too large' })
+  async upload(
+    @Query() uploadAttachmentDto: UploadAttachmentDto,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Request() req: { user: { id: string } },
+  ) {
+    // Check if a file was sent
+    if (!file) {
+      throw new BadRequestException('A file is required');
+    }
+
+    const attachment = await this.attachmentService.upload(
+      req.user.id,
+      uploadAttachmentDto.roomId,
+      file,
+    );
+    return plainToClass(AttachmentResponseDto, attachment);
+  }
+
+  @Get(':id')
+  @Header('Cache-Control', 'private, max-age=31536000, immutable')
+  @Header('X-Content-Type-Options', 'nosniff')
+  @ApiOperation({ summary: 'Download an attachment' })
+  @ApiResponse({ status: 200, description: 'The file' })
+  @ApiResponse({ status: 404, description: 'Attachment not found' })
+  async download(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const attachment = await this.attachmentService.findOne(id, req.user.id);
+    const stream = await this.attachmentService.openFile(
+      attachment,
+      'original',
+    );
+
+    // Only images are shown inline, everything else is saved
+    const disposition = attachment.hasThumbnail ? 'inline' : 'attachment';
+    return new StreamableFile(stream, {
+      type: attachment.contentType,
+      length: attachment.size,
+      disposition: `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+    });
+  }
+
+  @Get(':id/thumbnail')
+  @Header('Cache-Control', 'private, max-age=31536000, immutable')
+  @Header('X-Content-Type-Options', 'nosniff')
+  @ApiOperation({ summary: 'Get the preview of an image attachment' })
+  @ApiResponse({ status: 200, description: 'The thumbnail as WebP' })
+  @ApiResponse({ status: 404, description: 'Attachment not found' })
+  async thumbnail(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const attachment = await this.attachmentService.findOne(id, req.user.id);
+    const stream = await this.attachmentService.openFile(
+      attachment,
+      'thumbnail',
+    );
+
+    return new StreamableFile(stream, { type: 'image/webp' });
+  }
+}
@@ -1,54 +1,256 @@
-import { Body, Controller, Post, Request, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
 import { AuthService } from '../services/auth.service';
+import { SessionService } from '../services/session.service';
 import { LoginDto } from '../dto/auth/login.dto';
 import { RegisterDto } from '../dto/auth/register.dto';
+import { ForgotPasswordDto } from '../dto/auth/forgot-password.dto';
+import { ResetPasswordDto } from '../dto/auth/reset-password.dto';
+import { VerifyEmailDto } from '../dto/auth/verify-email.dto';
+import { RefreshTokenDto } from '../dto/auth/refresh-token.dto';
+import { MfaVerifyDto } from '../dto/auth/mfa-verify.dto';
+import { MfaLoginDto } from '../dto/auth/mfa-login.dto';
+import { ConfirmPasswordDto } from '../dto/auth/confirm-password.dto';
+import { SessionResponseDto } from '../dto/session/session-response.dto';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import { plainToClass } from 'class-transformer';
 
 @Controller('auth')
 @ApiTags('auth')
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private sessionService: SessionService,
+  ) {}
 
   @Post('register')
   @ApiOperation({ summary: 'Register a new user' })
   @ApiResponse({ status: 201, description: 'User registered successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
-  register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto);
+  register(
+    @Body() registerDto: RegisterDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.register(registerDto, { userAgent, ipAddress });
   }
 
   @Post('login')
   @ApiOperation({ summary: 'Login with email and password' })
   @ApiResponse({ status: 200, description: 'Login successful' })
   @ApiResponse({ status: 400, description: 'Bad request' })
-  login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  login(
+    @Body() loginDto: LoginDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.login(loginDto, { userAgent, ipAddress });
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Exchange a refresh token for new tokens' })
+  @ApiResponse({ status: 200, description: 'Tokens rotated successfully' })
+  @ApiResponse({ status: 401, description: 'Invalid refresh token' })
+  refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.refresh(refreshTokenDto.refreshToken);
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke the refresh token of this login' })
+  @ApiResponse({ status: 204, description: 'Logged out successfully' })
+  async logout(@Body() refreshTokenDto: RefreshTokenDto) {
+    await this.authService.logout(refreshTokenDto.refreshToken);
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'List the devices the user is logged in on' })
+  @ApiResponse({ status: 200, description: 'Sessions retrieved successfully' })
+  async findSessions(
+    @Request() req: { user: { id: string; sessionId?: string } },
+  ) {
+    const sessions = await this.sessionService.findAllActive(req.user.id);
+    return sessions.map((session) =>
+      plainToClass(SessionResponseDto, {
+        ...session,
+        current: session.id === req.user.sessionId,
+      }),
+    );
+  }
+
+  @Delete('sessions')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Sign out every session except this one' })
+  @ApiResponse({ status: 204, description: 'Other sessions revoked' })
+  async revokeOtherSessions(
+    @Request() req: { user: { id: string; sessionId?: string } },
+  ) {
+    await this.sessionService.revokeAll(req.user.id, req.user.sessionId);
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Sign out a single session' })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    await this.sessionService.revoke(req.user.id, id);
+  }
+
+  @Post('email/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm an email address with a verification token',
+  })
+  @ApiResponse({ status: 200, description: 'Email verified successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or expired verification token',
+  })
+  verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.authService.verifyEmail(verifyEmailDto.token);
+  }
+
+  @Post('email/resend')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(JwtAuthGuard, ThrottlerGuard)
+  @Throttle({ default: { limit: 3, ttl: 15 * 60 * 1000 } })
+  @ApiOperation({ summary: 'Send another email verification link' })
+  @ApiResponse({ status: 202, description: 'Verification email sent' })
+  @ApiResponse({ status: 400, description: 'Email already verified' })
+  async resendEmailVerification(@Request() req: { user: { id: string } }) {
+    await this.authService.resendEmailVerification(req.user.id);
+  }
+
+  @Post('password/forgot')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 15 * 60 * 1000 } })
+  @ApiOperation({ summary: 'Email a password reset link' })
+  @ApiResponse({
+    status: 202,
+    description: 'A reset link is sent if the email belongs to an account',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.authService.requestPasswordReset(forgotPasswordDto.email);
+  }
+
+  @Post('password/reset')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Choose a new password with a reset token' })
+  @ApiResponse({ status: 204, description: 'Password reset successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired reset token' })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    await this.authService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.newPassword,
+    );
+  }
+
+  @Get('mfa')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Get the MFA status of the user' })
+  @ApiResponse({ status: 200, description: 'MFA status retrieved' })
+  getMfaStatus(@Request() req: { user: { id: string } }) {
+    return this.authService.getMfaStatus(req.user.id);
   }
 
   @Post('mfa/setup')
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Set up MFA for a user' })
-  setupMfa(@Request() req: { user: { userId: string } }) {
-    return this.authService.setupMfa(req.user.userId);
+  @ApiResponse({ status: 400, description: 'MFA is already enabled' })
+  setupMfa(@Request() req: { user: { id: string } }) {
+    return this.authService.setupMfa(req.user.id);
   }
 
   @Post('mfa/verify')
   @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Verify and enable MFA for a user' })
+  @ApiResponse({
+    status: 200,
+    description: 'MFA enabled, recovery codes are returned once',
+  })
   verifyMfa(
-    @Request() req: { user: { userId: string } },
-    @Body() body: { token: string },
+    @Request() req: { user: { id: string } },
+    @Body() mfaVerifyDto: MfaVerifyDto,
   ) {
     return this.authService.verifyMfaAndEnableForUser(
-      req.user.userId,
-      body.token,
+      req.user.id,
+      mfaVerifyDto.token,
+    );
+  }
+
+  @Post('mfa/recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replace all MFA recovery codes' })
+  @ApiResponse({ status: 200, description: 'New recovery codes generated' })
+  @ApiResponse({ status: 400, description: 'Password is incorrect' })
+  regenerateRecoveryCodes(
+    @Request() req: { user: { id: string } },
+    @Body() confirmPasswordDto: ConfirmPasswordDto,
+  ) {
+    return this.authService.regenerateRecoveryCodes(
+      req.user.id,
+      confirmPasswordDto.password,
     );
   }
 
+  @Post('mfa/disable')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Turn off MFA for a user' })
+  @ApiResponse({ status: 204, description: 'MFA disabled' })
+  @ApiResponse({ status: 400, description: 'Password is incorrect' })
+  async disableMfa(
+    @Request() req: { user: { id: string } },
+    @Body() confirmPasswordDto: ConfirmPasswordDto,
+  ) {
+    await this.authService.disableMfa(req.user.id, confirmPasswordDto.password);
+  }
+
   @Post('mfa/login')
-  @ApiOperation({ summary: 'Complete login with MFA token' })
-  verifyMfaLogin(@Body() body: { tempToken: string; token: string }) {
-    return this.authService.verifyMfaToken(body.tempToken, body.token);
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 10, ttl: 5 * 60 * 1000 } })
+  @ApiOperation({
+    summary: 'Complete login with an MFA token or a recovery code',
+  })
+  @ApiResponse({ status: 200, description: 'Login successful' })
+  @ApiResponse({ status: 401, description: 'Invalid MFA token' })
+  verifyMfaLogin(
+    @Body() mfaLoginDto: MfaLoginDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.verifyMfaToken(
+      mfaLoginDto.tempToken,
+      mfaLoginDto.token,
+      { userAgent, ipAddress },
+    );
   }
 }
@@ -0,0 +1,117 @@
+import {
+  BadRequestException,
+  ClassSerializerInterceptor,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Put,
+  Query,
+  Request,
+  Res,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import { AvatarService } from '../services/avatar.service';
+import { FindAvatarDto } from '../dto/avatar/find-avatar.dto';
+
+// Multer keeps uploads in memory, so anything larger is refused before the
+// configured AVATAR_MAX_SIZE_MB is checked
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+const DEFAULT_AVATAR_SIZE = 64;
+const MAX_AVATAR_SIZE = 1024;
+
+// Avatars are public so they can be used as image sources directly
+@Controller('users')
+@UseInterceptors(ClassSerializerInterceptor)
+@ApiTags('users')
+export class AvatarController {
+  constructor(private readonly avatarService: AvatarService) {}
+
+  @Put('me/avatar')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({ summary: "Upload the current user's avatar" })
+  @ApiResponse({ status: 200, description: 'Avatar updated successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 413, description: 'File too large' })
+  upload(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Request() req: { user: { id: string } },
+  ) {
+    // Check if a file was sent
+    if (!file) {
+      throw new BadRequestException('A file is required');
+    }
+
+    return this.avatarService.upload(req.user.id, file);
+  }
+
+  @Delete('me/avatar')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: "Remove the current user's avatar, going back to the identicon",
+  })
+  @ApiResponse({ status: 200, description: 'Avatar removed successfully' })
+  remove(@Request() req: { user: { id: string } }) {
+    return this.avatarService.remove(req.user.id);
+  }
+
+  @Get(':id/avatar')
+  @ApiOperation({
+    summary: "Get a user's avatar, or a generated identicon without one",
+  })
+  @ApiResponse({ status: 200, description: 'The avatar as WebP or SVG' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() findAvatarDto: FindAvatarDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const size = Math.min(
+      Number(findAvatarDto.size ?? DEFAULT_AVATAR_SIZE) || DEFAULT_AVATAR_SIZE,
+      MAX_AVATAR_SIZE,
+    );
+    const image = await this.avatarService.findImage(id, size);
+
+    // Versioned URLs never change, unversioned ones follow uploads quickly
+    res.setHeader(
+      'Cache-Control',
+      findAvatarDto.v
+        ? 'public, max-age=31536000, immutable'
+        : 'public, max-age=300',
+    );
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+
+    if (image.type === 'identicon') {
+      return new StreamableFile(Buffer.from(image.svg), {
+        type: 'image/svg+xml',
+      });
+    }
+
+    return new StreamableFile(image.stream, { type: 'image/webp' });
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ChannelService } from '../services/channel.service';
+import { CreateChannelDto } from '../dto/channel/create-channel.dto';
+import { UpdateChannelDto } from '../dto/channel/update-channel.dto';
+import { ChannelResponseDto } from '../dto/channel/channel-response.dto';
+import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import {
+  RequireRoomPermission,
+  RoomPermissionGuard,
+} from 'src/guards/room-permission.guard';
+import { RoomPermission } from '../services/room-permission.service';
+import { plainToClass } from 'class-transformer';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+@Controller()
+@UseGuards(JwtAuthGuard)
+@ApiTags('channels')
+export class ChannelController {
+  constructor(private readonly channelService: ChannelService) {}
+
+  @Post('rooms/:roomId/channels')
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.MANAGE_CHANNELS, 'params.roomId')
+  @ApiOperation({ summary: 'Create a channel in a room' })
+  @ApiResponse({ status: 201, description: 'Channel created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - cannot manage channels',
+  })
+  async create(
+    @Param('roomId', ParseUUIDPipe) roomId: string,
+    @Request() req: { user: { id: string } },
+    @Body() createChannelDto: CreateChannelDto,
+  ) {
+    const channel = await this.channelService.create(
+      roomId,
+      req.user.id,
+      createChannelDto,
+    );
+    return plainToClass(ChannelResponseDto, channel);
+  }
+
+  @Get('rooms/:roomId/channels')
+  @ApiOperation({ summary: 'Get all channels in a room' })
+  @ApiResponse({ status: 200, description: 'Channels retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async findAllByRoom(
+    @Param('roomId', ParseUUIDPipe) roomId: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const channels = await this.channelService.findAllByRoom(
+      roomId,
+      req.user.id,
+    );
+    return channels.map((channel) => plainToClass(ChannelResponseDto, channel));
+  }
+
+  @Get('channels/:id')
+  @ApiOperation({ summary: 'Get a channel by ID' })
+  @ApiResponse({ status: 200, description: 'Channel retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const channel = await this.channelService.findOne(id, req.user.id);
+    return plainToClass(ChannelResponseDto, channel);
+  }
+
+  @Patch('channels/:id')
+  @ApiOperation({ summary: 'Rename, reorder or change privacy of a channel' })
+  @ApiResponse({ status: 200, description: 'Channel updated successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - cannot manage channels',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateChannelDto: UpdateChannelDto,
+    @Request() req: { user: { id: string } },
+  ) {
+    const channel = await this.channelService.update(
+      id,
+      req.user.id,
+      updateChannelDto,
+    );
+    return plainToClass(ChannelResponseDto, channel);
+  }
+
+  @Delete('channels/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a channel and its messages' })
+  @ApiResponse({ status: 204, description: 'Channel deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - cannot manage channels',
+  })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    await this.channelService.remove(id, req.user.id);
+  }
+
+  @Post('channels/:id/members/:memberId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Add a member to a private channel' })
+  @ApiResponse({ status: 204, description: 'Member added successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async addMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('memberId', ParseUUIDPipe) memberId: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    await this.channelService.addMember(id, req.user.id, memberId);
+  }
+
+  @Delete('channels/:id/members/:memberId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a member from a private channel' })
+  @ApiResponse({ status: 204, description: 'Member removed successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('memberId', ParseUUIDPipe) memberId: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    await this.channelService.removeMember(id, req.user.id, memberId);
+  }
+}
@@ -14,10 +14,20 @@ import {
   ParseUUIDPipe,
 } from '@nestjs/common';
 import { MessageService } from '../services/message.service';
+import { MessageGateway } from '../gateways/message.gateway';
 import { CreateMessageDto } from '../dto/message/create-message.dto';
 import { UpdateMessageDto } from '../dto/message/update-message.dto';
+import { SearchMessagesDto } from '../dto/message/search-messages.dto';
+import { FindMessagesDto } from '../dto/message/find-messages.dto';
 import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import {
+  RequireRoomPermission,
+  RoomPermissionGuard,
+} from 'src/guards/room-permission.guard';
+import { RoomPermission } from '../services/room-permission.service';
 import { MessageResponseDto } from '../dto/message/message-response.dto';
+import { MessagePageResponseDto } from '../dto/message/message-page-response.dto';
+import { MessageVersionResponseDto } from '../dto/message/message-version-response.dto';
 import { plainToClass } from 'class-transformer';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 
@@ -25,9 +35,14 @@ import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 @UseGuards(JwtAuthGuard)
 @ApiTags('messages')
 export class MessageController {
-  constructor(private readonly messageService: MessageService) {}
+  constructor(
+    private readonly messageService: MessageService,
+    private readonly messageGateway: MessageGateway,
+  ) {}
 
   @Post()
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.SEND_MESSAGES, 'body.roomId')
   @ApiOperation({ summary: 'Create a new message' })
   @ApiResponse({ status: 201, description: 'Message created successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
@@ -43,28 +58,94 @@ export class MessageController {
   }
 
   @Get('room/:roomId')
-  @ApiOperation({ summary: 'Get all messages in a room' })
-  @ApiResponse({ status: 200, description: 'Messages retrieved successfully' })
+  @ApiOperation({ summary: 'Get a page of messages in a room channel' })
+  @ApiResponse({
+    status: 200,
+    description: 'Messages retrieved successfully',
+    type: MessagePageResponseDto,
+  })
   @ApiResponse({ status: 400, description: 'Bad request' })
-  async findAllByRoom(
+  async findPage(
     @Param('roomId', ParseUUIDPipe) roomId: string,
     @Request() req: { user: { id: string } },
-    @Query('limit') limit?: number,
-    @Query('before') before?: string,
+    @Query() findMessagesDto: FindMessagesDto,
   ) {
-    const options = {
-      limit: limit ? parseInt(limit.toString(), 10) : undefined,
-      before: before ? new Date(before) : undefined,
-    };
+    const { channelId, before, after, around } = findMessagesDto;
+
+    const page = await this.messageService.findPage(roomId, req.user.id, {
+      channelId,
+      limit: findMessagesDto.limit
+        ? parseInt(findMessagesDto.limit, 10)
+        : undefined,
+      before,
+      after,
+      around,
+    });
+    return plainToClass(MessagePageResponseDto, page);
+  }
 
-    const messages = await this.messageService.findAllByRoom(
+  @Get('search')
+  @ApiOperation({ summary: 'Full-text search across accessible messages' })
+  @ApiResponse({ status: 200, description: 'Matching messages, best first' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async search(
+    @Query() searchMessagesDto: SearchMessagesDto,
+    @Request() req: { user: { id: string } },
+  ) {
+    const { q, roomId, authorId, from, to, hasThread, mentionsMe } =
+      searchMessagesDto;
+    const limit = searchMessagesDto.limit
+      ? Math.min(parseInt(searchMessagesDto.limit, 10), 50)
+      : undefined;
+
+    const messages = await this.messageService.search(req.user.id, {
+      query: q,
       roomId,
-      req.user.id,
-      options,
-    );
+      authorId,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      hasThread: hasThread === 'true',
+      mentionsMe: mentionsMe === 'true',
+      limit,
+      offset: searchMessagesDto.offset
+        ? parseInt(searchMessagesDto.offset, 10)
+        : undefined,
+    });
     return messages.map((message) => plainToClass(MessageResponseDto, message));
   }
 
+  @Get(':id/replies')
+  @ApiOperation({ summary: 'Get all thread replies to a message' })
+  @ApiResponse({ status: 200, description: 'Replies retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async findReplies(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const replies = await this.messageService.findReplies(id, req.user.id);
+    return replies.map((reply) => plainToClass(MessageResponseDto, reply));
+  }
+
+  @Get(':id/history')
+  @ApiOperation({ summary: 'Get every version of an edited message' })
+  @ApiResponse({
+    status: 200,
+    description: 'Versions of the message, oldest first',
+    type: [MessageVersionResponseDto],
+  })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async findHistory(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const versions = await this.messageService.findHistory(id, req.user.id);
+    return versions.map((version) =>
+      plainToClass(MessageVersionResponseDto, version),
+    );
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get a message by ID' })
   @ApiResponse({ status: 200, description: 'Message retrieved successfully' })
@@ -81,6 +162,10 @@ export class MessageController {
   @ApiOperation({ summary: 'Update a message by ID' })
   @ApiResponse({ status: 200, description: 'Message updated successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({
+    status: 403,
+    description: 'Not the author, or the edit window has passed',
+  })
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateMessageDto: UpdateMessageDto,
@@ -96,13 +181,45 @@ export class MessageController {
 
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
-  @ApiOperation({ summary: 'Delete a message by ID' })
+  @ApiOperation({ summary: 'Delete a message by ID, leaving a tombstone' })
   @ApiResponse({ status: 204, description: 'Message deleted successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
   async remove(
     @Param('id', ParseUUIDPipe) id: string,
     @Request() req: { user: { id: string } },
   ) {
-    await this.messageService.remove(id, req.user.id);
+    const tombstone = await this.messageService.remove(id, req.user.id);
+    this.messageGateway.broadcastMessageChange('messageDeleted', tombstone);
+  }
+
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a deleted message' })
+  @ApiResponse({ status: 200, description: 'Message restored successfully' })
+  @ApiResponse({ status: 400, description: 'The message was not deleted' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async restore(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const message = await this.messageService.restore(id, req.user.id);
+    this.messageGateway.broadcastMessageChange('messageRestored', message);
+    return plainToClass(MessageResponseDto, message);
+  }
+
+  @Delete(':id/purge')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Permanently remove a deleted message and its thread',
+  })
+  @ApiResponse({ status: 204, description: 'Message purged successfully' })
+  @ApiResponse({ status: 400, description: 'The message was not deleted' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async purge(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const purged = await this.messageService.purge(id, req.user.id);
+    this.messageGateway.broadcastPurge(purged);
   }
 }
@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { PinService } from '../services/pin.service';
+import { MessageResponseDto } from '../dto/message/message-response.dto';
+import { MessageGateway } from '../gateways/message.gateway';
+import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import {
+  RequireRoomPermission,
+  RoomPermissionGuard,
+} from 'src/guards/room-permission.guard';
+import { RoomPermission } from '../services/room-permission.service';
+import { plainToClass } from 'class-transformer';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+@Controller('rooms/:id/pins')
+@UseGuards(JwtAuthGuard)
+@ApiTags('pins')
+export class PinController {
+  constructor(
+    private readonly pinService: PinService,
+    private readonly messageGateway: MessageGateway,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the pinned messages of a room' })
+  @ApiResponse({
+    status: 200,
+    description: 'Pinned messages, latest pin first',
+    type: [MessageResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async findAll(
+    @Param('id', ParseUUIDPipe) roomId: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const messages = await this.pinService.findAll(roomId, req.user.id);
+    return messages.map((message) => plainToClass(MessageResponseDto, message));
+  }
+
+  @Put(':messageId')
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.PIN_MESSAGES)
+  @ApiOperation({ summary: 'Pin a message to its room' })
+  @ApiResponse({ status: 200, description: 'Message pinned successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async pin(
+    @Param('id', ParseUUIDPipe) roomId: string,
+    @Param('messageId', ParseUUIDPipe) messageId: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const message = await this.pinService.pin(roomId, messageId, req.user.id);
+
+    // Pinning an already pinned message changes nothing to broadcast
+    if (message.eventSeq !== undefined) {
+      this.messageGateway.broadcastMessageChange('messagePinned', message);
+    }
+
+    return plainToClass(MessageResponseDto, message);
+  }
+
+  @Delete(':messageId')
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.PIN_MESSAGES)
+  @ApiOperation({ summary: 'Unpin a message' })
+  @ApiResponse({ status: 200, description: 'Message unpinned successfully' })
+  @ApiResponse({ status: 404, description: 'Message not pinned' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async unpin(
+    @Param('id', ParseUUIDPipe) roomId: string,
+    @Param('messageId', ParseUUIDPipe) messageId: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const message = await this.pinService.unpin(roomId, messageId, req.user.id);
+    this.messageGateway.broadcastMessageChange('messageUnpinned', message);
+    return plainToClass(MessageResponseDto, message);
+  }
+}
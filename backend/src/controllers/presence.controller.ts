@@ -0,0 +1,69 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Put,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { plainToClass } from 'class-transformer';
+import { PresenceService } from '../services/presence.service';
+import { SetStatusDto } from '../dto/presence/set-status.dto';
+import { PresenceResponseDto } from '../dto/presence/presence-response.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+
+@Controller('presence')
+@UseGuards(JwtAuthGuard)
+@ApiTags('presence')
+export class PresenceController {
+  constructor(private readonly presenceService: PresenceService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get the presence of the user and everyone sharing a room',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Presence retrieved successfully',
+    type: [PresenceResponseDto],
+  })
+  async findAll(@Request() req: { user: { id: string } }) {
+    const presences = await this.presenceService.findForContacts(req.user.id);
+    return presences.map((presence) =>
+      plainToClass(PresenceResponseDto, presence),
+    );
+  }
+
+  @Put('status')
+  @ApiOperation({ summary: 'Set a custom status' })
+  @ApiResponse({
+    status: 200,
+    description: 'Status set successfully',
+    type: PresenceResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async setStatus(
+    @Body() setStatusDto: SetStatusDto,
+    @Request() req: { user: { id: string } },
+  ) {
+    const presence = await this.presenceService.setStatus(
+      req.user.id,
+      setStatusDto,
+    );
+    return plainToClass(PresenceResponseDto, presence);
+  }
+
+  @Delete('status')
+  @ApiOperation({ summary: 'Clear the custom status' })
+  @ApiResponse({
+    status: 200,
+    description: 'Status cleared successfully',
+    type: PresenceResponseDto,
+  })
+  async clearStatus(@Request() req: { user: { id: string } }) {
+    const presence = await this.presenceService.clearStatus(req.user.id);
+    return plainToClass(PresenceResponseDto, presence);
+  }
+}
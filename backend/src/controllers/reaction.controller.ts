@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ReactionService } from '../services/reaction.service';
+import { CreateReactionDto } from '../dto/reaction/create-reaction.dto';
+import { MessageResponseDto } from '../dto/message/message-response.dto';
+import { MessageGateway } from '../gateways/message.gateway';
+import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import { plainToClass } from 'class-transformer';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+@Controller('messages/:messageId/reactions')
+@UseGuards(JwtAuthGuard)
+@ApiTags('reactions')
+export class ReactionController {
+  constructor(
+    private readonly reactionService: ReactionService,
+    private readonly messageGateway: MessageGateway,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: 'React to a message with an emoji' })
+  @ApiResponse({ status: 201, description: 'Reaction added successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async add(
+    @Param('messageId', ParseUUIDPipe) messageId: string,
+    @Request() req: { user: { id: string } },
+    @Body() createReactionDto: CreateReactionDto,
+  ) {
+    const { message, added } = await this.reactionService.add(
+      messageId,
+      req.user.id,
+      createReactionDto.emoji,
+    );
+
+    if (added) {
+      this.messageGateway.broadcastReaction(
+        'reactionAdded',
+        message,
+        req.user.id,
+        createReactionDto.emoji,
+      );
+    }
+
+    return plainToClass(MessageResponseDto, message);
+  }
+
+  @Delete(':emoji')
+  @ApiOperation({ summary: 'Remove your emoji reaction from a message' })
+  @ApiResponse({ status: 200, description: 'Reaction removed successfully' })
+  @ApiResponse({ status: 404, description: 'Reaction not found' })
+  async remove(
+    @Param('messageId', ParseUUIDPipe) messageId: string,
+    @Param('emoji') emoji: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const message = await this.reactionService.remove(
+      messageId,
+      req.user.id,
+      emoji,
+    );
+
+    this.messageGateway.broadcastReaction(
+      'reactionRemoved',
+      message,
+      req.user.id,
+      emoji,
+    );
+
+    return plainToClass(MessageResponseDto, message);
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { RoomInviteService } from '../services/room-invite.service';
+import { CreateRoomInviteDto } from '../dto/room-invite/create-room-invite.dto';
+import { RoomInviteResponseDto } from '../dto/room-invite/room-invite-response.dto';
+import { RoomResponseDto } from '../dto/room/room-response.dto';
+import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import {
+  RequireRoomPermission,
+  RoomPermissionGuard,
+} from 'src/guards/room-permission.guard';
+import { RoomPermission } from '../services/room-permission.service';
+import { plainToClass } from 'class-transformer';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+@Controller()
+@ApiTags('invites')
+export class RoomInviteController {
+  constructor(private readonly roomInviteService: RoomInviteService) {}
+
+  @Post('rooms/:id/invites')
+  @UseGuards(JwtAuthGuard, RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.INVITE_MEMBERS)
+  @ApiOperation({ summary: 'Create an invite link for a room' })
+  @ApiResponse({ status: 201, description: 'Invite created successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - cannot invite' })
+  async create(
+    @Param('id', ParseUUIDPipe) roomId: string,
+    @Request() req: { user: { id: string } },
+    @Body() createRoomInviteDto: CreateRoomInviteDto,
+  ) {
+    const invite = await this.roomInviteService.create(
+      roomId,
+      req.user.id,
+      createRoomInviteDto,
+    );
+    return plainToClass(RoomInviteResponseDto, invite);
+  }
+
+  @Get('rooms/:id/invites')
+  @UseGuards(JwtAuthGuard, RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.INVITE_MEMBERS)
+  @ApiOperation({ summary: 'Get all active invites for a room' })
+  @ApiResponse({ status: 200, description: 'Invites retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - cannot invite' })
+  async findAllByRoom(@Param('id', ParseUUIDPipe) roomId: string) {
+    const invites = await this.roomInviteService.findAllByRoom(roomId);
+    return invites.map((invite) => plainToClass(RoomInviteResponseDto, invite));
+  }
+
+  @Delete('rooms/:id/invites/:inviteId')
+  @UseGuards(JwtAuthGuard, RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.INVITE_MEMBERS)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke an invite' })
+  @ApiResponse({ status: 204, description: 'Invite revoked successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - cannot invite' })
+  async revoke(
+    @Param('id', ParseUUIDPipe) roomId: string,
+    @Param('inviteId', ParseUUIDPipe) inviteId: string,
+  ) {
+    await this.roomInviteService.revoke(roomId, inviteId);
+  }
+
+  @Get('invites/:code')
+  @ApiOperation({ summary: 'Preview the room behind an invite' })
+  @ApiResponse({ status: 200, description: 'Invite retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Invite not found' })
+  @ApiResponse({ status: 410, description: 'Invite expired or revoked' })
+  async preview(@Param('code') code: string) {
+    const invite = await this.roomInviteService.preview(code);
+    return plainToClass(RoomInviteResponseDto, invite);
+  }
+
+  @Post('invites/:code/accept')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Join a room using an invite' })
+  @ApiResponse({ status: 201, description: 'Joined room successfully' })
+  @ApiResponse({ status: 404, description: 'Invite not found' })
+  @ApiResponse({ status: 410, description: 'Invite expired or revoked' })
+  async accept(
+    @Param('code') code: string,
+    @Request() req: { user: { id: string } },
+  ) {
+    const room = await this.roomInviteService.accept(code, req.user.id);
+    return plainToClass(RoomResponseDto, room);
+  }
+}
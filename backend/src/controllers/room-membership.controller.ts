@@ -13,6 +13,11 @@ import {
 import { RoomMembershipService } from '../services/room-membership.service';
 import { CreateRoomMembershipDto } from '../dto/room-membership/create-room-membership.dto';
 import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import {
+  RequireRoomPermission,
+  RoomPermissionGuard,
+} from 'src/guards/room-permission.guard';
+import { RoomPermission } from '../services/room-permission.service';
 import { RoomMembershipResponseDto } from '../dto/room-membership/room-membership-response.dto';
 import { plainToClass } from 'class-transformer';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
@@ -24,6 +29,8 @@ export class RoomMembershipController {
   constructor(private readonly roomMembershipService: RoomMembershipService) {}
 
   @Post()
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.INVITE_MEMBERS, 'body.roomId')
   @ApiOperation({ summary: 'Create a new room membership' })
   @ApiResponse({
     status: 201,
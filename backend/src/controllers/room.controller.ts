@@ -12,10 +12,21 @@ import {
   Request,
 } from '@nestjs/common';
 import { RoomService } from '../services/room.service';
+import { ReadMarkerService } from '../services/read-marker.service';
 import { CreateRoomDto } from '../dto/room/create-room.dto';
 import { UpdateRoomDto } from '../dto/room/update-room.dto';
+import { OpenDirectMessageDto } from '../dto/room/open-direct-message.dto';
+import { MarkReadDto } from '../dto/room/mark-read.dto';
+import { UnreadCountsResponseDto } from '../dto/room/unread-counts-response.dto';
+import { UpdateMemberRoleDto } from '../dto/room-membership/update-member-role.dto';
 import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import {
+  RequireRoomPermission,
+  RoomPermissionGuard,
+} from 'src/guards/room-permission.guard';
+import { RoomPermission } from '../services/room-permission.service';
 import { RoomResponseDto } from '../dto/room/room-response.dto';
+import { RoomMembershipResponseDto } from '../dto/room-membership/room-membership-response.dto';
 import { plainToClass } from 'class-transformer';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 
@@ -23,7 +34,10 @@ import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 @UseGuards(JwtAuthGuard)
 @ApiTags('rooms')
 export class RoomController {
-  constructor(private readonly roomService: RoomService) {}
+  constructor(
+    private readonly roomService: RoomService,
+    private readonly readMarkerService: ReadMarkerService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create a new room' })
@@ -36,6 +50,28 @@ export class RoomController {
     const room = await this.roomService.create(req.user.id, createRoomDto);
     return plainToClass(RoomResponseDto, room);
   }
+
+  @Post('direct')
+  @ApiOperation({
+    summary: 'Open a direct message conversation with one or more users',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Existing or newly created conversation returned',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async openDirectMessage(
+    @Request() req: { user: { id: string } },
+    @Body() openDirectMessageDto: OpenDirectMessageDto,
+  ): Promise<RoomResponseDto> {
+    const room = await this.roomService.openDirectMessage(
+      req.user.id,
+      openDirectMessageDto,
+    );
+    return plainToClass(RoomResponseDto, room);
+  }
+
   @Get()
   @ApiOperation({ summary: 'Get all rooms' })
   @ApiResponse({ status: 200, description: 'Rooms retrieved successfully' })
@@ -57,42 +93,63 @@ export class RoomController {
     return plainToClass(RoomResponseDto, room);
   }
 
+  @Post(':id/read')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a room read up to a message' })
+  @ApiResponse({
+    status: 200,
+    description: 'Read marker updated',
+    type: UnreadCountsResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Room or message not found' })
+  async markRead(
+    @Param('id') id: string,
+    @Body() markReadDto: MarkReadDto,
+    @Request() req: { user: { id: string } },
+  ) {
+    const counts = await this.readMarkerService.markRead(
+      req.user.id,
+      id,
+      markReadDto.messageId,
+    );
+    return plainToClass(UnreadCountsResponseDto, counts);
+  }
+
   @Patch(':id')
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.RENAME_ROOM)
   @ApiOperation({ summary: 'Update a room by ID' })
   @ApiResponse({ status: 200, description: 'Room updated successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
-  async update(
-    @Param('id') id: string,
-    @Body() updateRoomDto: UpdateRoomDto,
-    @Request() req: { user: { id: string } },
-  ) {
-    const room = await this.roomService.update(id, req.user.id, updateRoomDto);
+  async update(@Param('id') id: string, @Body() updateRoomDto: UpdateRoomDto) {
+    const room = await this.roomService.update(id, updateRoomDto);
     return plainToClass(RoomResponseDto, room);
   }
 
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.DELETE_ROOM)
   @ApiOperation({ summary: 'Delete a room by ID' })
   @ApiResponse({ status: 204, description: 'Room deleted successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
-  async remove(
-    @Param('id') id: string,
-    @Request() req: { user: { id: string } },
-  ) {
-    await this.roomService.remove(id, req.user.id);
+  async remove(@Param('id') id: string) {
+    await this.roomService.remove(id);
   }
 
   @Post(':id/members/:memberId')
   @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.INVITE_MEMBERS)
   @ApiOperation({ summary: 'Add a member to a room' })
   @ApiResponse({ status: 204, description: 'Member added successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
   async addMember(
     @Param('id') roomId: string,
     @Param('memberId') memberId: string,
-    @Request() req: { user: { id: string } },
   ) {
-    await this.roomService.addMember(roomId, req.user.id, memberId);
+    await this.roomService.addMember(roomId, memberId);
   }
 
   @Delete(':id/members/:memberId')
@@ -107,4 +164,48 @@ export class RoomController {
   ) {
     await this.roomService.removeMember(roomId, req.user.id, memberId);
   }
+
+  @Patch(':id/members/:memberId/role')
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.MANAGE_ROLES)
+  @ApiOperation({ summary: 'Change the role of a room member' })
+  @ApiResponse({ status: 200, description: 'Role updated successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async updateMemberRole(
+    @Param('id') roomId: string,
+    @Param('memberId') memberId: string,
+    @Body() updateMemberRoleDto: UpdateMemberRoleDto,
+    @Request() req: { user: { id: string } },
+  ) {
+    const membership = await this.roomService.updateMemberRole(
+      roomId,
+      req.user.id,
+      memberId,
+      updateMemberRoleDto.role,
+    );
+    return plainToClass(RoomMembershipResponseDto, membership);
+  }
+
+  @Post(':id/archive')
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.ARCHIVE_ROOM)
+  @ApiOperation({ summary: 'Archive a room, making it read-only' })
+  @ApiResponse({ status: 201, description: 'Room archived successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async archive(@Param('id') id: string) {
+    const room = await this.roomService.setArchived(id, true);
+    return plainToClass(RoomResponseDto, room);
+  }
+
+  @Post(':id/unarchive')
+  @UseGuards(RoomPermissionGuard)
+  @RequireRoomPermission(RoomPermission.ARCHIVE_ROOM)
+  @ApiOperation({ summary: 'Unarchive a room' })
+  @ApiResponse({ status: 201, description: 'Room unarchived successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async unarchive(@Param('id') id: string) {
+    const room = await this.roomService.setArchived(id, false);
+    return plainToClass(RoomResponseDto, room);
+  }
 }
@@ -0,0 +1,50 @@
+import { Exclude, Expose } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+@Exclude()
+export class AttachmentResponseDto {
+  @Expose()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the attachment',
+  })
+  id: string;
+
+  @Expose()
+  @ApiProperty({
+    example: 'screenshot.png',
+    description: 'Name of the uploaded file',
+  })
+  fileName: string;
+
+  @Expose()
+  @ApiProperty({ example: 'image/png', description: 'MIME type of the file' })
+  contentType: string;
+
+  @Expose()
+  @ApiProperty({ example: 52341, description: 'Size of the file in bytes' })
+  size: number;
+
+  @Expose()
+  @ApiProperty({
+    example: 1280,
+    description: 'Width of an image in pixels',
+    nullable: true,
+  })
+  width: number | null;
+
+  @Expose()
+  @ApiProperty({
+    example: 720,
+    description: 'Height of an image in pixels',
+    nullable: true,
+  })
+  height: number | null;
+
+  @Expose()
+  @ApiProperty({
+    example: true,
+    description: 'Whether GET /attachments/:id/thumbnail has a preview',
+  })
+  hasThumbnail: boolean;
+}
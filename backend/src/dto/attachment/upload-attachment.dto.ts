@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsUUID } from 'class-validator';
+
+// Passed in the query, the multipart body is only read after the room check
+export class UploadAttachmentDto {
+  @IsUUID()
+  @IsNotEmpty()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the room the file will be posted in',
+  })
+  roomId: string;
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class ConfirmPasswordDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Password is required' })
+  @ApiProperty({
+    example: 'P@ssw0rd123!',
+    description: 'Current password, re-entered to confirm the change',
+  })
+  password: string;
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class MfaLoginDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Login token is required' })
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'Temporary token returned by login',
+  })
+  tempToken: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  @ApiProperty({
+    example: '123456',
+    description: 'Code from the authenticator app or a recovery code',
+  })
+  token: string;
+}
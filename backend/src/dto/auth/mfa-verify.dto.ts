@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class MfaVerifyDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  @ApiProperty({
+    example: '123456',
+    description: 'Code from the authenticator app',
+  })
+  token: string;
+}
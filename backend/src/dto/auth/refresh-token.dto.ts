@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Refresh token is required' })
+  @ApiProperty({
+    example: 'kT9pX2c1vJ0m8bZkR4yT7wLgQe5nHs3aUd6fWi8oPl0',
+    description: 'Refresh token from login or the previous refresh',
+  })
+  refreshToken: string;
+}
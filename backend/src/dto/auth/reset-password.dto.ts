@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Matches, MinLength } from 'class-validator';
+
+export class ResetPasswordDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Reset token is required' })
+  @ApiProperty({
+    example: 'q9X2c1vJ0m8bZkR4yT7wLg',
+    description: 'Token from the password reset email',
+  })
+  token: string;
+
+  @IsNotEmpty({ message: 'Password is required' })
+  @MinLength(10, {
+    message: 'Password must be at least 10 characters long',
+  })
+  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, {
+    message:
+      'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character',
+  })
+  @ApiProperty({
+    example: 'P@ssw0rd123!',
+    description:
+      'New password (min 10 chars, must include uppercase, lowercase, number, and special character)',
+  })
+  newPassword: string;
+}
@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNumberString, IsOptional, IsString } from 'class-validator';
+
+// Query parameters arrive as strings, the controller converts them
+export class FindAvatarDto {
+  @IsNumberString()
+  @IsOptional()
+  @ApiProperty({
+    example: '64',
+    description: 'Width and height in pixels, defaults to 64',
+    required: false,
+  })
+  size?: string;
+
+  @IsString()
+  @IsOptional()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description:
+      "The user's avatar field, versioned URLs change with every upload and are cached for good",
+    required: false,
+  })
+  v?: string;
+}
@@ -0,0 +1,52 @@
+import { Exclude, Expose } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+@Exclude()
+export class ChannelResponseDto {
+  @Expose()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the channel',
+  })
+  id: string;
+
+  @Expose()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the room',
+  })
+  roomId: string;
+
+  @Expose()
+  @ApiProperty({ example: 'general', description: 'Name of the channel' })
+  name: string;
+
+  @Expose()
+  @ApiProperty({
+    example: false,
+    description: 'Whether the channel is only visible to its members',
+  })
+  isPrivate: boolean;
+
+  @Expose()
+  @ApiProperty({
+    example: true,
+    description: 'Whether this is the default channel of the room',
+  })
+  isDefault: boolean;
+
+  @Expose()
+  @ApiProperty({ example: 0, description: 'Position in the channel list' })
+  position: number;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T12:00:00Z',
+    description: 'Timestamp when the channel was created',
+  })
+  createdAt: Date;
+
+  constructor(partial: Partial<ChannelResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateChannelDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(80, { message: 'Channel name must be at most 80 characters' })
+  @Matches(/^[a-z0-9][a-z0-9_-]*$/, {
+    message:
+      'Channel name can only contain lowercase letters, numbers, underscores, and hyphens',
+  })
+  @ApiProperty({ example: 'deploys', description: 'Name of the channel' })
+  name: string;
+
+  @IsBoolean()
+  @IsOptional()
+  @ApiProperty({
+    example: false,
+    description: 'Whether the channel is only visible to its members',
+  })
+  isPrivate: boolean = false;
+}
@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class UpdateChannelDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(80, { message: 'Channel name must be at most 80 characters' })
+  @Matches(/^[a-z0-9][a-z0-9_-]*$/, {
+    message:
+      'Channel name can only contain lowercase letters, numbers, underscores, and hyphens',
+  })
+  @ApiProperty({ example: 'deploys', description: 'Name of the channel' })
+  name?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  @ApiProperty({
+    example: false,
+    description: 'Whether the channel is only visible to its members',
+  })
+  isPrivate?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  @ApiProperty({
+    example: true,
+    description: 'Make this the default channel of the room',
+  })
+  isDefault?: boolean;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  @ApiProperty({ example: 1, description: 'Position in the channel list' })
+  position?: number;
+}
@@ -1,15 +1,25 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString, IsUUID, MaxLength } from 'class-validator';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
 
 export class CreateMessageDto {
+  // Whether there is content or attachments is checked by MessageService
   @IsString()
-  @IsNotEmpty()
+  @IsOptional()
   @MaxLength(2000, { message: 'Content must be less than 2000 characters' })
   @ApiProperty({
     example: 'Hello, world!',
-    description: 'Content of the message',
+    description: 'Content of the message, optional when files are attached',
+    required: false,
   })
-  content: string;
+  content?: string;
 
   @IsUUID()
   @IsNotEmpty()
@@ -18,4 +28,43 @@ export class CreateMessageDto {
     description: 'ID of the room',
   })
   roomId: string;
+
+  @IsUUID()
+  @IsOptional()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: "ID of the channel, defaults to the room's default channel",
+    required: false,
+  })
+  channelId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the parent message when replying in a thread',
+    required: false,
+  })
+  parentMessageId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description:
+      'Generated by the client, sending again with the same ID returns the message saved the first time',
+    required: false,
+  })
+  clientMessageId?: string;
+
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  @ApiProperty({
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description: 'IDs of files uploaded to the room beforehand',
+    required: false,
+  })
+  attachmentIds?: string[];
 }
@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNumberString,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+// Query parameters arrive as strings, the controller converts them
+export class FindMessagesDto {
+  @IsUUID()
+  @IsOptional()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: "Channel to list, defaults to the room's default channel",
+    required: false,
+  })
+  channelId?: string;
+
+  @IsNumberString()
+  @IsOptional()
+  @ApiProperty({
+    example: '50',
+    description: 'Page size, at most 100',
+    required: false,
+  })
+  limit?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  @ApiProperty({
+    example: 'MTIzZTQ1NjctZTg5Yi0xMmQzLWE0NTYtNDI2NjE0MTc0MDAw',
+    description: 'olderCursor of a previous page, lists the messages before it',
+    required: false,
+  })
+  before?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  @ApiProperty({
+    example: 'MTIzZTQ1NjctZTg5Yi0xMmQzLWE0NTYtNDI2NjE0MTc0MDAw',
+    description: 'newerCursor of a previous page, lists the messages after it',
+    required: false,
+  })
+  after?: string;
+
+  @IsUUID()
+  @IsOptional()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of a message to center the page on',
+    required: false,
+  })
+  around?: string;
+}
@@ -0,0 +1,37 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { MessageResponseDto } from './message-response.dto';
+
+@Exclude()
+export class MessagePageResponseDto {
+  @Expose()
+  @Type(() => MessageResponseDto)
+  @ApiProperty({
+    type: [MessageResponseDto],
+    description: 'Top-level messages of the page, oldest first',
+  })
+  messages: MessageResponseDto[];
+
+  @Expose()
+  @ApiProperty({
+    example: 'MTIzZTQ1NjctZTg5Yi0xMmQzLWE0NTYtNDI2NjE0MTc0MDAw',
+    description: 'Cursor for the previous page, null at the start',
+    nullable: true,
+  })
+  olderCursor: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: null,
+    description: 'Cursor for the next page, null at the latest message',
+    nullable: true,
+  })
+  newerCursor: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: 42,
+    description: 'Sequence number of the latest message event in the room',
+  })
+  eventSeq: number;
+}
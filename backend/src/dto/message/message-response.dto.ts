@@ -1,6 +1,8 @@
 import { Exclude, Expose, Type } from 'class-transformer';
 import { UserResponseDto } from '../user/user-response.dto';
 import { RoomResponseDto } from '../room/room-response.dto';
+import { ReactionSummaryDto } from '../reaction/reaction-summary.dto';
+import { AttachmentResponseDto } from '../attachment/attachment-response.dto';
 import { ApiProperty } from '@nestjs/swagger';
 
 @Exclude()
@@ -19,6 +21,14 @@ export class MessageResponseDto {
   })
   content: string;
 
+  @Expose()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID the sending client gave the message',
+    nullable: true,
+  })
+  clientMessageId: string | null;
+
   @Expose()
   @ApiProperty({
     example: '123e4567-e89b-12d3-a456-426614174000',
@@ -33,6 +43,79 @@ export class MessageResponseDto {
   })
   roomId: string;
 
+  @Expose()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the channel',
+  })
+  channelId: string;
+
+  @Expose()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the parent message if this is a thread reply',
+    nullable: true,
+  })
+  parentMessageId: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description:
+      'IDs of the users the message mentions, by name or through @here and @room',
+    type: [String],
+  })
+  mentionedUserIds: string[];
+
+  @Expose()
+  @ApiProperty({
+    example: false,
+    description: 'Whether the message mentions @here',
+  })
+  mentionsHere: boolean;
+
+  @Expose()
+  @ApiProperty({
+    example: false,
+    description: 'Whether the message mentions @room',
+  })
+  mentionsRoom: boolean;
+
+  @Expose()
+  @ApiProperty({
+    example: 3,
+    description: 'Number of thread replies (top-level messages only)',
+    required: false,
+  })
+  replyCount?: number;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T12:00:00Z',
+    description: 'Timestamp of the latest thread reply',
+    required: false,
+    nullable: true,
+  })
+  lastReplyAt?: Date | null;
+
+  @Expose()
+  @Type(() => ReactionSummaryDto)
+  @ApiProperty({
+    type: [ReactionSummaryDto],
+    description: 'Reactions grouped by emoji',
+    required: false,
+  })
+  reactions?: ReactionSummaryDto[];
+
+  @Expose()
+  @Type(() => AttachmentResponseDto)
+  @ApiProperty({
+    type: [AttachmentResponseDto],
+    description: 'Files sent with the message',
+    required: false,
+  })
+  attachments?: AttachmentResponseDto[];
+
   @Expose()
   @Type(() => UserResponseDto)
   @ApiProperty({
@@ -49,6 +132,47 @@ export class MessageResponseDto {
   })
   room?: RoomResponseDto;
 
+  @Expose()
+  @ApiProperty({
+    example: null,
+    description: 'Timestamp when the message was pinned to its room',
+    nullable: true,
+  })
+  pinnedAt: Date | null;
+
+  @Expose()
+  @ApiProperty({
+    example: null,
+    description: 'ID of the user who pinned the message',
+    nullable: true,
+  })
+  pinnedById: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: null,
+    description:
+      'Timestamp when the message was deleted, its content is then left out',
+    nullable: true,
+  })
+  deletedAt: Date | null;
+
+  @Expose()
+  @ApiProperty({
+    example: null,
+    description: 'ID of the user who deleted the message',
+    nullable: true,
+  })
+  deletedById: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T12:05:00Z',
+    description: 'Timestamp when the author last edited the content',
+    nullable: true,
+  })
+  editedAt: Date | null;
+
   @Expose()
   @ApiProperty({
     example: '2024-05-21T12:00:00Z',
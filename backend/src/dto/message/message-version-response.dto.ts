@@ -0,0 +1,27 @@
+import { Exclude, Expose } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+@Exclude()
+export class MessageVersionResponseDto {
+  @Expose()
+  @ApiProperty({
+    example: 'Hello, world!',
+    description: 'Content of the message in this version',
+  })
+  content: string;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T12:00:00Z',
+    description:
+      'Timestamp when the message was sent or edited to this version',
+  })
+  createdAt: Date;
+
+  @Expose()
+  @ApiProperty({
+    example: false,
+    description: 'Whether this is the content the message has now',
+  })
+  current: boolean;
+}
@@ -0,0 +1,92 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBooleanString,
+  IsDateString,
+  IsNotEmpty,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+// Query parameters arrive as strings, the controller converts them
+export class SearchMessagesDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200, { message: 'Search query must be at most 200 characters' })
+  @ApiProperty({
+    example: 'release date',
+    description:
+      'Words to search for, supports "quoted phrases" and -exclusions',
+  })
+  q: string;
+
+  @IsUUID()
+  @IsOptional()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Only search this room',
+    required: false,
+  })
+  roomId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Only messages sent by this user',
+    required: false,
+  })
+  authorId?: string;
+
+  @IsDateString()
+  @IsOptional()
+  @ApiProperty({
+    example: '2024-05-01T00:00:00Z',
+    description: 'Only messages sent at or after this time',
+    required: false,
+  })
+  from?: string;
+
+  @IsDateString()
+  @IsOptional()
+  @ApiProperty({
+    example: '2024-05-31T23:59:59Z',
+    description: 'Only messages sent at or before this time',
+    required: false,
+  })
+  to?: string;
+
+  @IsBooleanString()
+  @IsOptional()
+  @ApiProperty({
+    example: 'true',
+    description: 'Only messages that started a thread',
+    required: false,
+  })
+  hasThread?: string;
+
+  @IsBooleanString()
+  @IsOptional()
+  @ApiProperty({
+    example: 'true',
+    description: 'Only messages that mention the current user',
+    required: false,
+  })
+  mentionsMe?: string;
+
+  @IsNumberString()
+  @IsOptional()
+  @ApiProperty({ example: '20', description: 'Page size', required: false })
+  limit?: string;
+
+  @IsNumberString()
+  @IsOptional()
+  @ApiProperty({
+    example: '0',
+    description: 'Number of results to skip',
+    required: false,
+  })
+  offset?: string;
+}
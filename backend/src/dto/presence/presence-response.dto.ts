@@ -0,0 +1,57 @@
+import { Exclude, Expose } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { PresenceStatus } from '../../entities/user.entity';
+
+@Exclude()
+export class PresenceResponseDto {
+  @Expose()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the user',
+  })
+  userId: string;
+
+  @Expose()
+  @ApiProperty({
+    enum: PresenceStatus,
+    example: PresenceStatus.ONLINE,
+    description: 'Whether the user is online, away or offline',
+  })
+  presence: PresenceStatus;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T12:30:00Z',
+    description: 'When the user was last connected',
+    nullable: true,
+  })
+  lastSeenAt: Date | null;
+
+  @Expose()
+  @ApiProperty({
+    example: 'In a meeting',
+    description: 'Custom status text',
+    nullable: true,
+  })
+  statusText: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: '📅',
+    description: 'Emoji shown next to the status',
+    nullable: true,
+  })
+  statusEmoji: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T17:00:00Z',
+    description: 'When the custom status clears itself',
+    nullable: true,
+  })
+  statusExpiresAt: Date | null;
+
+  constructor(partial: Partial<PresenceResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class SetStatusDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  @ApiProperty({
+    example: 'In a meeting',
+    description: 'Custom status text',
+    required: false,
+  })
+  text?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(16)
+  @ApiProperty({
+    example: '📅',
+    description: 'Emoji shown next to the status',
+    required: false,
+  })
+  emoji?: string;
+
+  @IsDateString()
+  @IsOptional()
+  @ApiProperty({
+    example: '2024-05-21T17:00:00Z',
+    description: 'When the status clears itself, omit to keep it until cleared',
+    required: false,
+  })
+  expiresAt?: string;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Matches, MaxLength } from 'class-validator';
+
+// One or more emoji, including skin tones, ZWJ sequences, flags and keycaps
+const EMOJI_PATTERN =
+  /^(?=.*[\p{Extended_Pictographic}\p{Regional_Indicator}\u20e3])[\p{Extended_Pictographic}\p{Emoji_Component}]+$/u;
+
+export class CreateReactionDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32, { message: 'Emoji must be at most 32 characters' })
+  @Matches(EMOJI_PATTERN, { message: 'Reactions can only contain emoji' })
+  @ApiProperty({ example: '👍', description: 'Emoji to react with' })
+  emoji: string;
+}
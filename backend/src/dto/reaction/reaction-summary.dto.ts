@@ -0,0 +1,24 @@
+import { Exclude, Expose } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+@Exclude()
+export class ReactionSummaryDto {
+  @Expose()
+  @ApiProperty({ example: '👍', description: 'Emoji of the reaction' })
+  emoji: string;
+
+  @Expose()
+  @ApiProperty({ example: 2, description: 'Number of users who reacted' })
+  count: number;
+
+  @Expose()
+  @ApiProperty({
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description: 'IDs of the users who reacted',
+  })
+  userIds: string[];
+
+  constructor(partial: Partial<ReactionSummaryDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class CreateRoomInviteDto {
+  @IsInt()
+  @Min(1)
+  @Max(720, { message: 'Invites can last at most 30 days' })
+  @IsOptional()
+  @ApiProperty({
+    example: 24,
+    description: 'Hours until the invite expires, omit for no expiry',
+    required: false,
+  })
+  expiresInHours?: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  @ApiProperty({
+    example: 10,
+    description: 'How many times the invite can be used, omit for no limit',
+    required: false,
+  })
+  maxUses?: number;
+}
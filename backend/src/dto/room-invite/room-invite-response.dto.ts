@@ -0,0 +1,71 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+import { RoomResponseDto } from '../room/room-response.dto';
+import { ApiProperty } from '@nestjs/swagger';
+
+@Exclude()
+export class RoomInviteResponseDto {
+  @Expose()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the invite',
+  })
+  id: string;
+
+  @Expose()
+  @ApiProperty({
+    example: 'q8ZtW1xK3mPa9Lr2',
+    description: 'Code used in the invite link',
+  })
+  code: string;
+
+  @Expose()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the room',
+  })
+  roomId: string;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-22T12:00:00Z',
+    description: 'Timestamp when the invite expires',
+    nullable: true,
+  })
+  expiresAt: Date | null;
+
+  @Expose()
+  @ApiProperty({
+    example: 10,
+    description: 'Maximum number of uses',
+    nullable: true,
+  })
+  maxUses: number | null;
+
+  @Expose()
+  @ApiProperty({ example: 2, description: 'Number of times used' })
+  useCount: number;
+
+  @Expose()
+  @ApiProperty({
+    example: null,
+    description: 'Timestamp when the invite was revoked',
+    nullable: true,
+  })
+  revokedAt: Date | null;
+
+  @Expose()
+  @Type(() => RoomResponseDto)
+  @ApiProperty({ type: RoomResponseDto })
+  room?: RoomResponseDto;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T12:00:00Z',
+    description: 'Timestamp when the invite was created',
+  })
+  createdAt: Date;
+
+  constructor(partial: Partial<RoomInviteResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -2,6 +2,7 @@ import { Exclude, Expose, Type } from 'class-transformer';
 import { UserResponseDto } from '../user/user-response.dto';
 import { RoomResponseDto } from '../room/room-response.dto';
 import { ApiProperty } from '@nestjs/swagger';
+import { RoomRole } from '../../entities/room-membership.entity';
 
 @Exclude()
 export class RoomMembershipResponseDto {
@@ -26,6 +27,14 @@ export class RoomMembershipResponseDto {
   })
   roomId: string;
 
+  @Expose()
+  @ApiProperty({
+    enum: RoomRole,
+    example: RoomRole.MEMBER,
+    description: 'Role of the member in the room',
+  })
+  role: RoomRole;
+
   @Expose()
   @Type(() => UserResponseDto)
   @ApiProperty({ type: UserResponseDto })
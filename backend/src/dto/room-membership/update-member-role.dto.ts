@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { RoomRole } from '../../entities/room-membership.entity';
+
+export class UpdateMemberRoleDto {
+  @IsEnum(RoomRole)
+  @ApiProperty({
+    enum: RoomRole,
+    example: RoomRole.MODERATOR,
+    description: 'New role of the member',
+  })
+  role: RoomRole;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class MarkReadDto {
+  @IsUUID()
+  @IsOptional()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Last message read, omit to mark everything up to now',
+    required: false,
+  })
+  messageId?: string;
+}
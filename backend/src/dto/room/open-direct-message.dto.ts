@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsUUID } from 'class-validator';
+
+export class OpenDirectMessageDto {
+  @IsArray()
+  @ArrayNotEmpty({ message: 'At least one user is required' })
+  @ArrayMaxSize(8, {
+    message: 'Group direct messages can include at most 8 other users',
+  })
+  @IsUUID('all', { each: true })
+  @ApiProperty({
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description: 'IDs of the users to message, not including yourself',
+  })
+  userIds: string[];
+}
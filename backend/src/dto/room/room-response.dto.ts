@@ -1,6 +1,7 @@
 import { Exclude, Expose, Type } from 'class-transformer';
 import { UserResponseDto } from '../user/user-response.dto';
 import { ApiProperty } from '@nestjs/swagger';
+import { RoomRole } from '../../entities/room-membership.entity';
 
 @Exclude()
 export class RoomResponseDto {
@@ -25,6 +26,31 @@ export class RoomResponseDto {
   })
   isPrivate: boolean;
 
+  @Expose()
+  @ApiProperty({
+    example: false,
+    description: 'Whether the room is a direct message conversation',
+  })
+  isDirect: boolean;
+
+  @Expose()
+  @ApiProperty({
+    example: null,
+    description: 'Timestamp when the room was archived',
+    nullable: true,
+  })
+  archivedAt: Date | null;
+
+  @Expose()
+  @ApiProperty({
+    enum: RoomRole,
+    example: RoomRole.MEMBER,
+    description: 'Role of the current user in the room',
+    required: false,
+    nullable: true,
+  })
+  role?: RoomRole | null;
+
   @Expose()
   @ApiProperty({
     example: '2024-05-21T12:00:00Z',
@@ -58,6 +84,40 @@ export class RoomResponseDto {
   })
   memberCount?: number;
 
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T12:00:00Z',
+    description: 'Time of the last message the current user has read',
+    required: false,
+    nullable: true,
+  })
+  lastReadAt?: Date | null;
+
+  @Expose()
+  @ApiProperty({
+    example: 3,
+    description: 'Number of messages the current user has not read',
+    required: false,
+  })
+  unreadCount?: number;
+
+  @Expose()
+  @ApiProperty({
+    example: 1,
+    description: 'Number of unread messages mentioning the current user',
+    required: false,
+  })
+  mentionCount?: number;
+
+  @Expose()
+  @Type(() => UserResponseDto)
+  @ApiProperty({
+    type: [UserResponseDto],
+    description: 'Participants of a direct message conversation',
+    required: false,
+  })
+  participants?: UserResponseDto[];
+
   constructor(partial: Partial<RoomResponseDto>) {
     Object.assign(this, partial);
   }
@@ -0,0 +1,35 @@
+import { Exclude, Expose } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+@Exclude()
+export class UnreadCountsResponseDto {
+  @Expose()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the room',
+  })
+  roomId: string;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T12:00:00Z',
+    description: 'Time of the last message the user has read',
+    nullable: true,
+  })
+  lastReadAt: Date | null;
+
+  @Expose()
+  @ApiProperty({ example: 3, description: 'Number of unread messages' })
+  unreadCount: number;
+
+  @Expose()
+  @ApiProperty({
+    example: 1,
+    description: 'Number of unread messages mentioning the user',
+  })
+  mentionCount: number;
+
+  constructor(partial: Partial<UnreadCountsResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,53 @@
+import { Exclude, Expose } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+@Exclude()
+export class SessionResponseDto {
+  @Expose()
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the session',
+  })
+  id: string;
+
+  @Expose()
+  @ApiProperty({
+    example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) ...',
+    description: 'User agent of the device that logged in',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: '203.0.113.7',
+    description: 'IP address the login came from',
+    nullable: true,
+  })
+  ipAddress: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T12:00:00Z',
+    description: 'Timestamp when the session was created',
+  })
+  createdAt: Date;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T12:30:00Z',
+    description: 'Timestamp when the session was last used',
+  })
+  lastSeenAt: Date;
+
+  @Expose()
+  @ApiProperty({
+    example: true,
+    description: 'Whether this is the session making the request',
+  })
+  current: boolean;
+
+  constructor(partial: Partial<SessionResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
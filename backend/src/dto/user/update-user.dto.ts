@@ -16,12 +16,4 @@ export class UpdateUserDto {
   @IsOptional()
   @ApiProperty({ example: 'john@example.com', description: 'Email' })
   email?: string;
-
-  @IsString()
-  @IsOptional()
-  @ApiProperty({
-    example: 'https://example.com/avatar.jpg',
-    description: 'Avatar URL',
-  })
-  avatar?: string;
 }
@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { Exclude, Expose } from 'class-transformer';
+import { PresenceStatus } from '../../entities/user.entity';
 
 @Exclude()
 export class UserResponseDto {
@@ -21,15 +22,33 @@ export class UserResponseDto {
 
   @Expose()
   @ApiProperty({
-    example: 'https://example.com/avatar.jpg',
-    description: 'Avatar URL',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description:
+      'Version of the uploaded avatar, served at /users/{id}/avatar?v={avatar}. Null while the generated identicon is used',
+    nullable: true,
   })
-  avatar: string;
+  avatar: string | null;
 
   @Expose()
   @ApiProperty({ example: true, description: 'Online status' })
   isOnline: boolean;
 
+  @Expose()
+  @ApiProperty({
+    enum: PresenceStatus,
+    example: PresenceStatus.ONLINE,
+    description: 'Whether the user is online, away or offline',
+  })
+  presence: PresenceStatus;
+
+  @Expose()
+  @ApiProperty({
+    example: '2024-05-21T12:30:00Z',
+    description: 'When the user was last connected',
+    nullable: true,
+  })
+  lastSeenAt: Date | null;
+
   @Expose()
   @ApiProperty({ example: '2024-05-21T12:00:00Z', description: 'Created at' })
   createdAt: Date;
@@ -0,0 +1,64 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Message } from './message.entity';
+import { Room } from './room.entity';
+import { User } from './user.entity';
+
+// A file uploaded to a room, the file itself is kept by the storage driver.
+// Uploads are linked to their message when it is sent, unlinked ones are
+// cleaned up after a while
+@Entity('attachment')
+export class Attachment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'room_id', nullable: false })
+  roomId: string;
+
+  @Column({ name: 'uploader_id', nullable: false })
+  uploaderId: string;
+
+  @Column({ name: 'message_id', type: 'uuid', nullable: true })
+  messageId: string | null;
+
+  @Column({ name: 'file_name', length: 255, nullable: false })
+  fileName: string;
+
+  @Column({ name: 'content_type', length: 100, nullable: false })
+  contentType: string;
+
+  @Column({ name: 'size', type: 'int', nullable: false })
+  size: number;
+
+  // Only set for images
+  @Column({ name: 'width', type: 'int', nullable: true })
+  width: number | null;
+
+  @Column({ name: 'height', type: 'int', nullable: true })
+  height: number | null;
+
+  @Column({ name: 'has_thumbnail', default: false, nullable: false })
+  hasThumbnail: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => Room, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'room_id' })
+  room: Room;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'uploader_id' })
+  uploader: User;
+
+  // Deleting the message leaves the attachment unlinked, so it gets cleaned up
+  @ManyToOne(() => Message, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'message_id' })
+  message: Message | null;
+}
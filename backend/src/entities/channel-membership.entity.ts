@@ -0,0 +1,38 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Channel } from './channel.entity';
+import { User } from './user.entity';
+
+// Only private channels track members, public channels are open to the room
+@Entity('channel-memberships')
+@Index(['channelId', 'userId'], { unique: true })
+export class ChannelMembership {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'channel_id', nullable: false })
+  channelId: string;
+
+  @Column({ name: 'user_id', nullable: false })
+  userId: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => Channel, (channel) => channel.channelMemberships, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'channel_id' })
+  channel: Channel;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
@@ -0,0 +1,52 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Room } from './room.entity';
+import { Message } from './message.entity';
+import { ChannelMembership } from './channel-membership.entity';
+
+@Entity('channel')
+@Index(['roomId', 'name'], { unique: true })
+export class Channel {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'room_id', nullable: false })
+  roomId: string;
+
+  @Column({ name: 'name', nullable: false })
+  name: string;
+
+  @Column({ name: 'is_private', default: false, nullable: false })
+  isPrivate: boolean;
+
+  @Column({ name: 'is_default', default: false, nullable: false })
+  isDefault: boolean;
+
+  @Column({ name: 'position', default: 0, nullable: false })
+  position: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @ManyToOne(() => Room, (room) => room.channels, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'room_id' })
+  room: Room;
+
+  @OneToMany(() => Message, (message) => message.channel)
+  messages: Message[];
+
+  @OneToMany(() => ChannelMembership, (membership) => membership.channel)
+  channelMemberships: ChannelMembership[];
+}
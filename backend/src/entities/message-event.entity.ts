@@ -0,0 +1,60 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Room } from './room.entity';
+
+export enum MessageEventType {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  // Soft deletions, the message is replayed as a tombstone
+  DELETED = 'deleted',
+  RESTORED = 'restored',
+  // The message is gone for good
+  PURGED = 'purged',
+}
+
+// Log of message changes in a room, numbered per room so reconnecting
+// clients can replay what they missed. Only kept for a limited time
+@Entity('message-events')
+@Index(['roomId', 'seq'], { unique: true })
+export class MessageEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'room_id', nullable: false })
+  roomId: string;
+
+  @Column({ name: 'seq', type: 'int', nullable: false })
+  seq: number;
+
+  @Column({
+    name: 'type',
+    type: 'enum',
+    enum: MessageEventType,
+    nullable: false,
+  })
+  type: MessageEventType;
+
+  // No foreign key, deleted messages keep their events
+  @Column({ name: 'message_id', type: 'uuid', nullable: false })
+  messageId: string;
+
+  @Column({ name: 'channel_id', type: 'uuid', nullable: false })
+  channelId: string;
+
+  @Column({ name: 'parent_message_id', type: 'uuid', nullable: true })
+  parentMessageId: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => Room, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'room_id' })
+  room: Room;
+}
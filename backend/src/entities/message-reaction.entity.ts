@@ -0,0 +1,45 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Message } from './message.entity';
+
+@Entity('message-reaction')
+@Index(['messageId', 'userId', 'emoji'], { unique: true })
+export class MessageReaction {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'message_id', nullable: false })
+  messageId: string;
+
+  @Column({ name: 'user_id', nullable: false })
+  userId: string;
+
+  @Column({ name: 'emoji', length: 32, nullable: false })
+  emoji: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => Message, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'message_id' })
+  message: Message;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
+
+// Reactions aggregated per emoji, as attached to messages by MessageService
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
@@ -0,0 +1,33 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Message } from './message.entity';
+
+// A version of a message's content that an edit replaced, kept so the
+// original wording can always be looked up
+@Entity('message-revision')
+@Index(['messageId', 'createdAt'])
+export class MessageRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'message_id', nullable: false })
+  messageId: string;
+
+  @Column({ name: 'content', type: 'text', nullable: false })
+  content: string;
+
+  // When the edit that replaced this content was made
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => Message, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'message_id' })
+  message: Message;
+}
@@ -2,6 +2,7 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  Index,
   JoinColumn,
   ManyToOne,
   OneToMany,
@@ -10,8 +11,15 @@ import {
 } from 'typeorm';
 import { User } from './user.entity';
 import { Room } from './room.entity';
+import { Channel } from './channel.entity';
+import { ReactionSummary } from './message-reaction.entity';
+import { Attachment } from './attachment.entity';
 
+// Serves keyset pagination of a channel's history
 @Entity('message')
+@Index(['channelId', 'createdAt', 'id'])
+@Index(['userId', 'clientMessageId'], { unique: true })
+@Index(['roomId', 'pinnedAt'])
 export class Message {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -22,12 +30,76 @@ export class Message {
   @Column({ name: 'content', type: 'text', nullable: false })
   content: string;
 
+  // Lets clients retry a send without creating the message twice
+  @Column({ name: 'client_message_id', type: 'uuid', nullable: true })
+  clientMessageId: string | null;
+
   @Column({ name: 'parent_message_id', nullable: true })
   parentMessageId: string | null;
 
   @Column({ name: 'room_id', nullable: false })
   roomId: string;
 
+  // Everyone notified by the message's mentions when it was sent or last
+  // edited, with @here and @room expanded to the members they reached
+  @Column({
+    name: 'mentioned_user_ids',
+    type: 'uuid',
+    array: true,
+    default: () => "'{}'",
+  })
+  mentionedUserIds: string[];
+
+  @Column({ name: 'mentions_here', default: false })
+  mentionsHere: boolean;
+
+  @Column({ name: 'mentions_room', default: false })
+  mentionsRoom: boolean;
+
+  // Nullable only for messages sent before rooms had channels, those are
+  // moved into the room's default channel when it is first created
+  @Column({ name: 'channel_id', nullable: true })
+  channelId: string;
+
+  // Content without markdown, set by MessageService. Null for messages sent
+  // before formatting, whose content is plain text already
+  @Column({ name: 'plain_text', type: 'text', nullable: true, select: false })
+  plainText?: string | null;
+
+  // Maintained by Postgres from the plain text, the GIN index on it is created
+  // by MessageService because TypeORM cannot declare GIN indexes
+  @Index('IDX_message_search_vector', { synchronize: false })
+  @Column({
+    name: 'search_vector',
+    type: 'tsvector',
+    generatedType: 'STORED',
+    asExpression: "to_tsvector('english', coalesce(plain_text, content))",
+    select: false,
+    insert: false,
+    update: false,
+  })
+  searchVector?: string;
+
+  // Set when the author last changed the content, the versions it replaced
+  // are kept as MessageRevisions
+  @Column({ name: 'edited_at', type: 'timestamp', nullable: true })
+  editedAt: Date | null;
+
+  // Set while the message is pinned to its room, see PinService
+  @Column({ name: 'pinned_at', type: 'timestamp', nullable: true })
+  pinnedAt: Date | null;
+
+  @Column({ name: 'pinned_by_id', type: 'uuid', nullable: true })
+  pinnedById: string | null;
+
+  // Deleted messages stay as tombstones, so their threads survive, until
+  // they are restored or purged by MessageService
+  @Column({ name: 'deleted_at', type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
+
+  @Column({ name: 'deleted_by_id', type: 'uuid', nullable: true })
+  deletedById: string | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -43,10 +115,30 @@ export class Message {
   @JoinColumn({ name: 'room_id' })
   room: Room;
 
+  @ManyToOne(() => Channel, (channel) => channel.messages, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'channel_id' })
+  channel: Channel;
+
   @ManyToOne(() => Message, (message) => message.replies, { nullable: true })
   @JoinColumn({ name: 'parent_message_id' })
   parentMessage: Message | null;
 
   @OneToMany(() => Message, (message) => message.parentMessage)
   replies: Message[];
+
+  // Thread summary, only populated on top-level messages by MessageService
+  replyCount?: number;
+  lastReplyAt?: Date | null;
+
+  // Reactions grouped by emoji, populated by MessageService
+  reactions?: ReactionSummary[];
+
+  // Files sent with the message, populated by MessageService
+  attachments?: Attachment[];
+
+  // Sequence number of the event that produced this version, set when it is
+  // broadcast so clients know where to resume after reconnecting
+  eventSeq?: number;
 }
@@ -0,0 +1,50 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Session } from './session.entity';
+import { User } from './user.entity';
+
+@Entity('refresh-token')
+export class RefreshToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', nullable: false })
+  userId: string;
+
+  // Every token rotated from the same login shares a session
+  @Index()
+  @Column({ name: 'session_id', nullable: false })
+  sessionId: string;
+
+  // SHA-256 of the issued token, the token itself is never stored
+  @Column({ name: 'token_hash', unique: true, nullable: false })
+  tokenHash: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: false })
+  expiresAt: Date;
+
+  // Set once the token has been exchanged for a new one
+  @Column({ name: 'used_at', type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ManyToOne(() => Session, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'session_id' })
+  session: Session;
+}
@@ -0,0 +1,52 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Room } from './room.entity';
+import { User } from './user.entity';
+
+@Entity('room-invite')
+export class RoomInvite {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'code', unique: true, nullable: false })
+  code: string;
+
+  @Column({ name: 'room_id', nullable: false })
+  roomId: string;
+
+  @Column({ name: 'created_by_id', nullable: false })
+  createdById: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ name: 'max_uses', type: 'int', nullable: true })
+  maxUses: number | null;
+
+  @Column({ name: 'use_count', default: 0 })
+  useCount: number;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @ManyToOne(() => Room, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'room_id' })
+  room: Room;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy: User;
+}
@@ -2,6 +2,7 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  Index,
   JoinColumn,
   ManyToOne,
   PrimaryGeneratedColumn,
@@ -10,17 +11,35 @@ import {
 import { User } from './user.entity';
 import { Room } from './room.entity';
 
+export enum RoomRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MODERATOR = 'moderator',
+  MEMBER = 'member',
+  GUEST = 'guest',
+}
+
 @Entity('room-memberships')
+@Index(['roomId', 'userId'], { unique: true })
 export class RoomMembership {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ name: 'room_id', unique: true, nullable: false })
+  @Column({ name: 'room_id', nullable: false })
   roomId: string;
 
   @Column({ name: 'user_id', nullable: false })
   userId: string;
 
+  @Column({
+    name: 'role',
+    type: 'enum',
+    enum: RoomRole,
+    default: RoomRole.MEMBER,
+    nullable: false,
+  })
+  role: RoomRole;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
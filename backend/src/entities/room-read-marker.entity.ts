@@ -0,0 +1,42 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Room } from './room.entity';
+import { User } from './user.entity';
+
+// How far a user has read in a room, messages after it count as unread
+@Entity('room-read-markers')
+@Index(['roomId', 'userId'], { unique: true })
+export class RoomReadMarker {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'room_id', nullable: false })
+  roomId: string;
+
+  @Column({ name: 'user_id', nullable: false })
+  userId: string;
+
+  @Column({ name: 'last_read_at', type: 'timestamp', nullable: false })
+  lastReadAt: Date;
+
+  @Column({ name: 'last_read_message_id', type: 'uuid', nullable: true })
+  lastReadMessageId: string | null;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @ManyToOne(() => Room, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'room_id' })
+  room: Room;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
@@ -6,8 +6,10 @@ import {
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
-import { RoomMembership } from './room-membership.entity';
+import { RoomMembership, RoomRole } from './room-membership.entity';
 import { Message } from './message.entity';
+import { User } from './user.entity';
+import { Channel } from './channel.entity';
 
 @Entity('room')
 export class Room {
@@ -23,6 +25,17 @@ export class Room {
   @Column({ name: 'is_private', default: true, nullable: false })
   isPrivate: boolean;
 
+  @Column({ name: 'is_direct', default: false, nullable: false })
+  isDirect: boolean;
+
+  // Archived rooms stay readable but nobody can post in them
+  @Column({ name: 'archived_at', type: 'timestamp', nullable: true })
+  archivedAt: Date | null;
+
+  // Sequence number of the latest message event in the room, see MessageEvent
+  @Column({ name: 'event_seq', type: 'int', default: 0, nullable: false })
+  eventSeq: number;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -37,4 +50,20 @@ export class Room {
     onDelete: 'CASCADE',
   })
   messages: Message[];
+
+  @OneToMany(() => Channel, (channel) => channel.room)
+  channels: Channel[];
+
+  // Members of a direct message conversation, populated by RoomService
+  participants?: User[];
+
+  memberCount?: number;
+
+  // Role of the user viewing the room, populated by RoomService
+  role?: RoomRole | null;
+
+  // Read state of the user viewing the room, populated by ReadMarkerService
+  lastReadAt?: Date | null;
+  unreadCount?: number;
+  mentionCount?: number;
 }
@@ -11,6 +11,12 @@ import { Message } from './message.entity';
 import { Room } from './room.entity';
 import { Exclude } from 'class-transformer';
 
+export enum PresenceStatus {
+  ONLINE = 'online',
+  AWAY = 'away',
+  OFFLINE = 'offline',
+}
+
 @Entity('user')
 export class User {
   @PrimaryGeneratedColumn('uuid')
@@ -26,25 +32,44 @@ export class User {
   @Exclude({ toPlainOnly: true })
   password: string;
 
+  @Column({ name: 'email_verified', default: false })
+  emailVerified: boolean;
+
   @Column({ name: 'display_name', nullable: true })
   displayName: string;
 
-  @Column({ nullable: true })
-  avatar: string;
+  // Version of the uploaded avatar, null while the generated identicon is used
+  @Column({ type: 'varchar', nullable: true })
+  avatar: string | null;
 
   @Column({ default: false })
   isOnline: boolean;
 
+  @Column({
+    type: 'enum',
+    enum: PresenceStatus,
+    default: PresenceStatus.OFFLINE,
+  })
+  presence: PresenceStatus;
+
+  @Column({ name: 'last_seen_at', type: 'timestamp', nullable: true })
+  lastSeenAt: Date | null;
+
+  @Column({ name: 'status_text', type: 'varchar', length: 100, nullable: true })
+  statusText: string | null;
+
+  @Column({ name: 'status_emoji', type: 'varchar', length: 16, nullable: true })
+  statusEmoji: string | null;
+
+  @Column({ name: 'status_expires_at', type: 'timestamp', nullable: true })
+  statusExpiresAt: Date | null;
+
   @Column({ default: false })
   mfaEnabled: boolean;
 
-  @Column()
+  @Column({ type: 'varchar', nullable: true })
   @Exclude({ toPlainOnly: true })
-  mfaSecret: string;
-
-  @Column()
-  @Exclude({ toPlainOnly: true })
-  refreshToken: string;
+  mfaSecret: string | null;
 
   @Column({ default: 0 })
   failedLoginAttempts: number;
@@ -66,4 +91,7 @@ export class User {
 
   @OneToMany(() => Room, (room) => room.ownerId)
   ownedRooms: Room[];
+
+  // Not a column, the session of the access token that authenticated the request
+  sessionId?: string;
 }
@@ -6,15 +6,28 @@ import {
   ConnectedSocket,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { UseGuards } from '@nestjs/common';
-import { MessageService } from '../services/message.service';
+import { Logger, UseGuards } from '@nestjs/common';
+import { MessageService, PurgedMessage } from '../services/message.service';
+import { SessionService } from '../services/session.service';
+import { PresenceService } from '../services/presence.service';
+import { TypingScope, TypingService } from '../services/typing.service';
+import { ReadMarkerService } from '../services/read-marker.service';
+import { MentionService } from '../services/mention.service';
 import { CreateMessageDto } from '../dto/message/create-message.dto';
 import { UpdateMessageDto } from '../dto/message/update-message.dto';
+import { Message } from '../entities/message.entity';
 import { JwtService } from '@nestjs/jwt';
 import { WsJwtGuard } from '../guards/ws-jwt.guard';
+import { RoomService } from '../services/room.service';
+import { ChannelService } from '../services/channel.service';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { toPlainText } from '../shared/markdown';
+
+// Unread and mention notifications carry the start of the message without markup
+const UNREAD_PREVIEW_LENGTH = 140;
 
 @WebSocketGateway({
   cors: {
@@ -23,19 +36,99 @@ import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 })
 @ApiTags('messages')
 export class MessageGateway
-  implements OnGatewayConnection, OnGatewayDisconnect
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
 {
+  private readonly logger = new Logger(MessageGateway.name);
+
   @WebSocketServer()
   server: Server;
 
-  // Map to track connected members in each room
-  private roomMembers: Map<string, Set<string>> = new Map();
-
   constructor(
     private readonly messageService: MessageService,
     private readonly jwtService: JwtService,
+    private readonly sessionService: SessionService,
+    private readonly presenceService: PresenceService,
+    private readonly typingService: TypingService,
+    private readonly readMarkerService: ReadMarkerService,
+    private readonly mentionService: MentionService,
+    private readonly roomService: RoomService,
+    private readonly channelService: ChannelService,
   ) {}
 
+  afterInit() {
+    // Revoking a session also ends its live connections
+    this.sessionService.revoked.subscribe((sessionIds) => {
+      sessionIds.forEach((sessionId) => {
+        this.server.in(`session:${sessionId}`).disconnectSockets(true);
+      });
+    });
+
+    // Presence goes to the user's own devices and everyone sharing a room
+    this.presenceService.changed.subscribe(({ presence, recipientIds }) => {
+      this.server
+        .to(recipientIds.map((userId) => `user:${userId}`))
+        .emit('presenceChanged', presence);
+    });
+
+    // Keeps unread counts in step across the user's devices
+    this.readMarkerService.read.subscribe(({ userId, counts }) => {
+      this.server.to(`user:${userId}`).emit('roomRead', counts);
+    });
+
+    // Mentions reach every device of the mentioned users, thread replies too
+    this.mentionService.mentioned.subscribe(({ message, userIds }) => {
+      this.server
+        .to(userIds.map((userId) => `user:${userId}`))
+        .emit('mentioned', {
+          roomId: message.roomId,
+          channelId: message.channelId,
+          messageId: message.id,
+          parentMessageId: message.parentMessageId ?? null,
+          authorId: message.userId,
+          authorUsername: message.user?.username ?? null,
+          preview: toPlainText(message.content).slice(0, UNREAD_PREVIEW_LENGTH),
+        });
+    });
+
+    // Everyone viewing the channel except the typist's own devices
+    this.typingService.changed.subscribe((change) => {
+      this.server
+        .to(`channel:${change.channelId}`)
+        .except(`user:${change.userId}`)
+        .emit('userTyping', {
+          userId: change.userId,
+          roomId: change.roomId,
+          channelId: change.channelId,
+          parentMessageId: change.parentMessageId ?? null,
+          typing: change.typing,
+        });
+    });
+
+    // Removed members stop receiving messages at once, not on their next join
+    this.roomService.memberRemoved.subscribe(({ roomId, userId }) => {
+      this.channelService
+        .findIdsByRoom(roomId)
+        .then((channelIds) => {
+          this.server
+            .in(`user:${userId}`)
+            .socketsLeave([
+              `room:${roomId}`,
+              ...channelIds.map((channelId) => `channel:${channelId}`),
+            ]);
+        })
+        .catch((error: unknown) => {
+          this.logger.error(
+            'Failed to remove sockets from the room',
+            error instanceof Error ? error.stack : String(error),
+          );
+        });
+    });
+
+    this.channelService.memberRemoved.subscribe(({ channelId, userId }) => {
+      this.server.in(`user:${userId}`).socketsLeave(`channel:${channelId}`);
+    });
+  }
+
   @ApiOperation({ summary: 'Handle WebSocket connection' })
   @ApiResponse({ status: 200, description: 'Connection successful' })
   @ApiResponse({ status: 400, description: 'Bad request' })
@@ -49,11 +142,34 @@ export class MessageGateway
       }
 
       // Validate token
-      const payload: { sub: string } = await this.jwtService.verify(token);
+      const payload: { sub: string; sid?: string } =
+        await this.jwtService.verify(token);
+
+      // Only access tokens carry a session, and it must not have been revoked
+      if (
+        !payload.sid ||
+        !(await this.sessionService.findActive(payload.sid, payload.sub))
+      ) {
+        client.disconnect();
+        return;
+      }
+
       client.data = { user: payload };
 
       // Join user to their user-specific room for private messages
       await client.join(`user:${payload.sub}`);
+
+      // Lets a revoked session's sockets be found and disconnected
+      await client.join(`session:${payload.sid}`);
+
+      // The client may have gone while the session was being checked
+      if (client.connected) {
+        await this.presenceService.connect(
+          payload.sub,
+          client.id,
+          client.handshake.auth.idle === true,
+        );
+      }
     } catch (err: unknown) {
       if (err instanceof Error) {
         console.error('Connection error:', err.message);
@@ -62,27 +178,14 @@ export class MessageGateway
     }
   }
 
-  handleDisconnect(client: Socket) {
+  async handleDisconnect(client: Socket) {
     try {
       // Get user ID from client data
-      const userId = (client.data as { user: { sub: string } })?.user?.sub;
+      const userId = (client.data as { user?: { sub: string } })?.user?.sub;
 
       if (userId) {
-        // Remove user from all rooms they were in
-        this.roomMembers.forEach((members, roomId) => {
-          if (members.has(userId)) {
-            members.delete(userId);
-            // Emit updated member list to all clients in the room
-            this.server
-              .to(`room:${roomId}`)
-              .emit('roomMembers', Array.from(members));
-            // Notify other users that this user left the room
-            this.server.to(`room:${roomId}`).emit('userLeft', {
-              userId,
-              roomId,
-            });
-          }
-        });
+        this.typingService.stopAllForSocket(client.id);
+        await this.presenceService.disconnect(userId, client.id);
       }
     } catch (error) {
       console.error('Disconnect error:', error);
@@ -90,40 +193,90 @@ export class MessageGateway
   }
 
   @UseGuards(WsJwtGuard)
-  @SubscribeMessage('joinRoom')
-  @ApiOperation({ summary: 'Join a room' })
-  @ApiResponse({ status: 200, description: 'Joined room successfully' })
+  @SubscribeMessage('setIdle')
+  @ApiOperation({ summary: 'Report whether the client has gone idle' })
+  @ApiResponse({ status: 200, description: 'Idle state recorded' })
+  async handleSetIdle(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() idle: boolean,
+  ) {
+    const userId = (client.data as { user: { sub: string } }).user.sub;
+    await this.presenceService.setIdle(userId, client.id, idle === true);
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('typingStart')
+  @ApiOperation({ summary: 'Announce that the user is typing' })
+  @ApiResponse({ status: 200, description: 'Typing recorded' })
   @ApiResponse({ status: 400, description: 'Bad request' })
-  async handleJoinRoom(
+  handleTypingStart(
     @ConnectedSocket() client: Socket,
-    @MessageBody() roomId: string,
+    @MessageBody() scope: TypingScope,
   ) {
-    // Add user to room channel
-    await client.join(`room:${roomId}`);
+    // Joining a channel checks access, so only its viewers may type there
+    if (!scope?.channelId || !client.rooms.has(`channel:${scope.channelId}`)) {
+      return { success: false, error: 'Not viewing this channel' };
+    }
 
     const userId = (client.data as { user: { sub: string } }).user.sub;
+    this.typingService.start(userId, client.id, scope);
+    return { success: true };
+  }
 
-    // Add user to room members tracking
-    if (!this.roomMembers.has(roomId)) {
-      this.roomMembers.set(roomId, new Set());
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('typingStop')
+  @ApiOperation({ summary: 'Announce that the user stopped typing' })
+  @ApiResponse({ status: 200, description: 'Typing cleared' })
+  handleTypingStop(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() scope: TypingScope,
+  ) {
+    if (!scope?.channelId) {
+      return { success: false, error: 'Not viewing this channel' };
     }
-    this.roomMembers.get(roomId)?.add(userId);
 
-    // Fetch existing messages for this room
-    const messages = await this.messageService.findAllByRoom(roomId, userId);
+    const userId = (client.data as { user: { sub: string } }).user.sub;
+    this.typingService.stop(userId, scope);
+    return { success: true };
+  }
 
-    // Emit message history to the client who just joined
-    client.emit('messageHistory', messages);
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('markRead')
+  @ApiOperation({ summary: 'Mark a room read up to a message' })
+  @ApiResponse({ status: 200, description: 'Read marker updated' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async handleMarkRead(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: { roomId: string; messageId?: string },
+  ) {
+    try {
+      const userId = (client.data as { user: { sub: string } }).user.sub;
+      const counts = await this.readMarkerService.markRead(
+        userId,
+        payload.roomId,
+        payload.messageId,
+      );
 
-    // Emit current room members to the client who just joined
-    const currentMembers = Array.from(this.roomMembers.get(roomId) || []);
-    this.server.to(`room:${roomId}`).emit('roomMembers', currentMembers);
+      return { success: true, counts };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return { success: false, error: 'An unknown error occurred' };
+    }
+  }
 
-    // Notify other users that this user joined the room
-    this.server.to(`room:${roomId}`).emit('userJoined', {
-      userId,
-      roomId,
-    });
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('joinRoom')
+  @ApiOperation({ summary: 'Join a room' })
+  @ApiResponse({ status: 200, description: 'Joined room successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async handleJoinRoom(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() roomId: string,
+  ) {
+    // Add user to room channel
+    await client.join(`room:${roomId}`);
   }
 
   @UseGuards(WsJwtGuard)
@@ -136,22 +289,149 @@ export class MessageGateway
     @MessageBody() roomId: string,
   ) {
     await client.leave(`room:${roomId}`);
-    const userId = (client.data as { user: { sub: string } }).user.sub;
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('joinChannel')
+  @ApiOperation({ summary: 'Join a channel of a room' })
+  @ApiResponse({ status: 200, description: 'Joined channel successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async handleJoinChannel(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: { roomId: string; channelId: string; aroundMessageId?: string },
+  ) {
+    try {
+      const userId = (client.data as { user: { sub: string } }).user.sub;
+
+      // Fetching the history also checks that the user can read the channel.
+      // Only the latest page is sent, or the one around a linked message
+      const page = await this.messageService.findPage(payload.roomId, userId, {
+        channelId: payload.channelId,
+        around: payload.aroundMessageId,
+      });
+
+      await client.join(`channel:${payload.channelId}`);
+
+      // Emit message history to the client who just joined
+      client.emit('messageHistory', {
+        roomId: payload.roomId,
+        channelId: payload.channelId,
+        ...page,
+      });
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return { success: false, error: 'An unknown error occurred' };
+    }
+  }
 
-    // Remove user from room members tracking
-    if (this.roomMembers.has(roomId)) {
-      this.roomMembers.get(roomId)?.delete(userId);
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('loadOlder')
+  @ApiOperation({ summary: 'Load the page of messages before a cursor' })
+  @ApiResponse({ status: 200, description: 'Messages loaded successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async handleLoadOlder(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: { roomId: string; channelId: string; cursor: string },
+  ) {
+    try {
+      const userId = (client.data as { user: { sub: string } }).user.sub;
+      const page = await this.messageService.findPage(payload.roomId, userId, {
+        channelId: payload.channelId,
+        before: payload.cursor,
+      });
 
-      // Emit updated member list to all clients in the room
-      const currentMembers = Array.from(this.roomMembers.get(roomId) || []);
-      this.server.to(`room:${roomId}`).emit('roomMembers', currentMembers);
+      return { success: true, ...page };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return { success: false, error: 'An unknown error occurred' };
     }
+  }
 
-    // Notify other users that this user left the room
-    this.server.to(`room:${roomId}`).emit('userLeft', {
-      userId,
-      roomId,
-    });
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('loadNewer')
+  @ApiOperation({ summary: 'Load the page of messages after a cursor' })
+  @ApiResponse({ status: 200, description: 'Messages loaded successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async handleLoadNewer(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: { roomId: string; channelId: string; cursor: string },
+  ) {
+    try {
+      const userId = (client.data as { user: { sub: string } }).user.sub;
+      const page = await this.messageService.findPage(payload.roomId, userId, {
+        channelId: payload.channelId,
+        after: payload.cursor,
+      });
+
+      return { success: true, ...page };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return { success: false, error: 'An unknown error occurred' };
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('resubscribe')
+  @ApiOperation({
+    summary: 'Rejoin a channel after reconnecting and replay missed changes',
+  })
+  @ApiResponse({ status: 200, description: 'Changes replayed successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async handleResubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: { roomId: string; channelId: string; sinceSeq: number },
+  ) {
+    try {
+      const userId = (client.data as { user: { sub: string } }).user.sub;
+
+      // Check if the user can read the channel before joining it
+      await this.messageService.findReadableChannel(
+        payload.roomId,
+        userId,
+        payload.channelId,
+      );
+
+      // Join before reading so nothing sent while the changes are read is missed
+      await client.join(`room:${payload.roomId}`);
+      await client.join(`channel:${payload.channelId}`);
+
+      const changes = await this.messageService.findChanges(
+        payload.roomId,
+        userId,
+        { channelId: payload.channelId, sinceSeq: payload.sinceSeq },
+      );
+
+      return { success: true, ...changes };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return { success: false, error: 'An unknown error occurred' };
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('leaveChannel')
+  @ApiOperation({ summary: 'Leave a channel of a room' })
+  @ApiResponse({ status: 200, description: 'Left channel successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async handleLeaveChannel(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() channelId: string,
+  ) {
+    await client.leave(`channel:${channelId}`);
   }
 
   @UseGuards(WsJwtGuard)
@@ -165,16 +445,41 @@ export class MessageGateway
   ) {
     try {
       const userId = (client.data as { user: { sub: string } }).user.sub;
+
+      // Permissions are checked by the service, so a refusal reaches the ack
+      // instead of leaving the send to time out
+
       const message = await this.messageService.create(
         userId,
         createMessageDto,
       );
 
-      // Broadcast the message to all clients in the room
+      // A retried send was broadcast the first time, only the sender needs it
+      if (message.eventSeq === undefined) {
+        return { success: true, message };
+      }
+
+      // Sending ends the typing indicator without waiting for it to expire
+      this.typingService.stop(userId, {
+        roomId: message.roomId,
+        channelId: message.channelId,
+        parentMessageId: message.parentMessageId,
+      });
+
+      // Broadcast the message to all clients in the channel
       // The message object already includes the user relation from the service
+      // Thread replies go out as their own event so clients can keep them
+      // out of the main channel and update the parent's reply count
       this.server
-        .to(`room:${createMessageDto.roomId}`)
-        .emit('newMessage', message);
+        .to(`channel:${message.channelId}`)
+        .emit(message.parentMessageId ? 'threadReply' : 'newMessage', message);
+
+      this.notifyUnread(message).catch((error: unknown) => {
+        this.logger.error(
+          'Failed to notify unread message',
+          error instanceof Error ? error.stack : String(error),
+        );
+      });
 
       return { success: true, message };
     } catch (error) {
@@ -206,9 +511,9 @@ export class MessageGateway
         updateMessageDto,
       );
 
-      // Broadcast the updated message to all clients in the room
+      // Broadcast the updated message to all clients in the channel
       this.server
-        .to(`room:${updatedMessage.roomId}`)
+        .to(`channel:${updatedMessage.channelId}`)
         .emit('messageUpdated', updatedMessage);
 
       return { success: true, message: updatedMessage };
@@ -236,19 +541,11 @@ export class MessageGateway
     try {
       const userId = (client.data as { user: { sub: string } }).user.sub;
 
-      // Get the message first to know which room to notify
-      const message = await this.messageService.findOne(messageId, userId);
-      const roomId = message.roomId;
-
-      // Delete the message
-      await this.messageService.remove(messageId, userId);
+      // Delete the message, leaving a tombstone in its place
+      const tombstone = await this.messageService.remove(messageId, userId);
+      this.broadcastMessageChange('messageDeleted', tombstone);
 
-      // Notify all clients in the room about the deletion
-      this.server
-        .to(`room:${roomId}`)
-        .emit('messageDeleted', { id: messageId, roomId });
-
-      return { success: true };
+      return { success: true, message: tombstone };
     } catch (error) {
       if (error instanceof Error) {
         return { success: false, error: error.message };
@@ -257,33 +554,54 @@ export class MessageGateway
     }
   }
 
-  @UseGuards(WsJwtGuard)
-  @SubscribeMessage('getRoomMembers')
-  @ApiOperation({ summary: 'Get current members in a room' })
-  @ApiResponse({
-    status: 200,
-    description: 'Room members retrieved successfully',
-  })
-  @ApiResponse({ status: 400, description: 'Bad request' })
-  handleGetRoomMembers(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() roomId: string,
+  // Lets everyone following the room bump its unread count, wherever they are
+  private async notifyUnread(message: Message) {
+    const recipients =
+      await this.readMarkerService.findUnreadRecipients(message);
+
+    recipients.forEach(({ userId, mentioned }) => {
+      this.server.to(`user:${userId}`).emit('unreadMessage', {
+        roomId: message.roomId,
+        channelId: message.channelId,
+        messageId: message.id,
+        parentMessageId: message.parentMessageId,
+        mentioned,
+        preview: toPlainText(message.content).slice(0, UNREAD_PREVIEW_LENGTH),
+      });
+    });
+  }
+
+  // Deletions, restores and pins carry the whole message, so clients replace
+  // it in place like any other update
+  broadcastMessageChange(
+    event:
+      | 'messageDeleted'
+      | 'messageRestored'
+      | 'messagePinned'
+      | 'messageUnpinned',
+    message: Message,
   ) {
-    try {
-      // Get current members for the room
-      const members = this.roomMembers.has(roomId)
-        ? Array.from(this.roomMembers.get(roomId) || [])
-        : [];
+    this.server.to(`channel:${message.channelId}`).emit(event, message);
+  }
 
-      // Send members list to the requesting client
-      client.emit('roomMembers', members);
+  broadcastPurge(purged: PurgedMessage) {
+    this.server.to(`channel:${purged.channelId}`).emit('messagePurged', purged);
+  }
 
-      return { success: true, members };
-    } catch (error) {
-      if (error instanceof Error) {
-        return { success: false, error: error.message };
-      }
-      return { success: false, error: 'An unknown error occurred' };
-    }
+  // Reactions are added over REST, this relays them to everyone viewing the channel
+  broadcastReaction(
+    event: 'reactionAdded' | 'reactionRemoved',
+    message: Message,
+    userId: string,
+    emoji: string,
+  ) {
+    this.server.to(`channel:${message.channelId}`).emit(event, {
+      messageId: message.id,
+      parentMessageId: message.parentMessageId,
+      roomId: message.roomId,
+      channelId: message.channelId,
+      userId,
+      emoji,
+    });
   }
 }
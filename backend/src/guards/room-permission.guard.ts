@@ -0,0 +1,84 @@
+import {
+  BadRequestException,
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  SetMetadata,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { isUUID } from 'class-validator';
+import {
+  RoomPermission,
+  RoomPermissionService,
+} from 'src/services/room-permission.service';
+
+export const ROOM_PERMISSION_KEY = 'roomPermission';
+
+interface RoomPermissionMetadata {
+  permission: RoomPermission;
+  roomIdFrom: string;
+}
+
+// roomIdFrom is 'params.<name>', 'query.<name>' or 'body.<name>'. Multipart
+// bodies are only parsed after guards run, so uploads pass the room in the
+// query. Gateway handlers check permissions themselves so that errors reach
+// the client's ack
+export const RequireRoomPermission = (
+  permission: RoomPermission,
+  roomIdFrom = 'params.id',
+) =>
+  SetMetadata(ROOM_PERMISSION_KEY, {
+    permission,
+    roomIdFrom,
+  } as RoomPermissionMetadata);
+
+@Injectable()
+export class RoomPermissionGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly roomPermissionService: RoomPermissionService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const metadata = this.reflector.get<RoomPermissionMetadata | undefined>(
+      ROOM_PERMISSION_KEY,
+      context.getHandler(),
+    );
+
+    if (!metadata) {
+      return true;
+    }
+
+    const [source, key] = metadata.roomIdFrom.split('.');
+    const request = context.switchToHttp().getRequest<{
+      user?: { id: string };
+      params: Record<string, string>;
+      query: Record<string, unknown>;
+      body?: Record<string, unknown>;
+    }>();
+    const userId = request.user?.id;
+    const roomId =
+      source === 'params'
+        ? request.params[key]
+        : source === 'query'
+          ? request.query[key]
+          : request.body?.[key];
+
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    if (typeof roomId !== 'string' || !isUUID(roomId)) {
+      throw new BadRequestException('A valid room ID is required');
+    }
+
+    await this.roomPermissionService.assertPermission(
+      roomId,
+      userId,
+      metadata.permission,
+    );
+
+    return true;
+  }
+}
@@ -2,10 +2,14 @@ import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { WsException } from '@nestjs/websockets';
 import { User } from 'src/entities/user.entity';
+import { SessionService } from 'src/services/session.service';
 
 @Injectable()
 export class WsJwtGuard implements CanActivate {
-  constructor(private readonly jwtService: JwtService) {}
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly sessionService: SessionService,
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     try {
@@ -36,7 +40,17 @@ export class WsJwtGuard implements CanActivate {
       }
 
       // Verify JWT token
-      const payload = await this.jwtService.verifyAsync<User>(token);
+      const payload = await this.jwtService.verifyAsync<
+        User & { sub: string; sid?: string }
+      >(token);
+
+      // Only access tokens carry a session, and it must not have been revoked
+      if (
+        !payload.sid ||
+        !(await this.sessionService.findActive(payload.sid, payload.sub))
+      ) {
+        throw new WsException('Unauthorized - Session has expired');
+      }
 
       // Attach decoded user to socket data for future use
       client.data = {
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Attachment } from '../entities/attachment.entity';
+import { AttachmentService } from '../services/attachment.service';
+import { AttachmentController } from '../controllers/attachment.controller';
+import { MessageModule } from './message.module';
+import { RoomPermissionModule } from './room-permission.module';
+import { StorageModule } from './storage.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Attachment]),
+    MessageModule,
+    RoomPermissionModule,
+    StorageModule,
+  ],
+  controllers: [AttachmentController],
+  providers: [AttachmentService],
+})
+export class AttachmentModule {}
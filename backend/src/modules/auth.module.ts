@@ -7,11 +7,26 @@ import { JwtStrategy } from '../strategies/jwt.strategy';
 import { AuthController } from '../controllers/auth.controller';
 import { AuthService } from '../services/auth.service';
 import { User } from 'src/entities/user.entity';
+import { PasswordResetToken } from 'src/entities/password-reset-token.entity';
+import { RefreshToken } from 'src/entities/refresh-token.entity';
+import { MfaChallenge } from 'src/entities/mfa-challenge.entity';
+import { MfaRecoveryCode } from 'src/entities/mfa-recovery-code.entity';
+import { MfaService } from '../services/mfa.service';
+import { MailModule } from './mail.module';
+import { SessionModule } from './session.module';
 
 @Module({
   imports: [
     ConfigModule,
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([
+      User,
+      PasswordResetToken,
+      RefreshToken,
+      MfaChallenge,
+      MfaRecoveryCode,
+    ]),
+    MailModule,
+    SessionModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -19,13 +34,13 @@ import { User } from 'src/entities/user.entity';
       useFactory: (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET'),
         signOptions: {
-          expiresIn: configService.get<string>('JWT_EXPIRATION') || '1d',
+          expiresIn: configService.get<string>('JWT_EXPIRATION') || '15m',
         },
       }),
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
+  providers: [AuthService, MfaService, JwtStrategy],
   exports: [JwtStrategy, PassportModule, AuthService],
 })
 export class AuthModule {}
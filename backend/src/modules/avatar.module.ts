@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { User } from '../entities/user.entity';
+import { AvatarService } from '../services/avatar.service';
+import { AvatarController } from '../controllers/avatar.controller';
+import { StorageModule } from './storage.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([User]), StorageModule],
+  controllers: [AvatarController],
+  providers: [AvatarService],
+})
+export class AvatarModule {}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Channel } from '../entities/channel.entity';
+import { ChannelMembership } from '../entities/channel-membership.entity';
+import { Room } from '../entities/room.entity';
+import { RoomMembership } from '../entities/room-membership.entity';
+import { Message } from '../entities/message.entity';
+import { ChannelService } from '../services/channel.service';
+import { ChannelController } from '../controllers/channel.controller';
+import { RoomPermissionModule } from './room-permission.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Channel,
+      ChannelMembership,
+      Room,
+      RoomMembership,
+      Message,
+    ]),
+    RoomPermissionModule,
+  ],
+  controllers: [ChannelController],
+  providers: [ChannelService],
+  exports: [ChannelService],
+})
+export class ChannelModule {}
@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailService } from '../services/mail.service';
+import { MAIL_TRANSPORT } from '../services/mail/mail-transport';
+import { SmtpMailTransport } from '../services/mail/smtp-mail.transport';
+import {
+  ConsoleMailTransport,
+  FileMailTransport,
+} from '../services/mail/file-mail.transport';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      // MAIL_TRANSPORT picks the delivery method: smtp, file or console
+      useFactory: (configService: ConfigService) => {
+        switch (configService.get<string>('MAIL_TRANSPORT')) {
+          case 'smtp':
+            return new SmtpMailTransport({
+              host: configService.get<string>('SMTP_HOST') || 'localhost',
+              port: Number(configService.get<string>('SMTP_PORT') || 587),
+              secure: configService.get<string>('SMTP_SECURE') === 'true',
+              user: configService.get<string>('SMTP_USER'),
+              password: configService.get<string>('SMTP_PASSWORD'),
+            });
+          case 'file':
+            return new FileMailTransport(
+              configService.get<string>('MAIL_OUTBOX_DIR') || 'mail-outbox',
+            );
+          default:
+            return new ConsoleMailTransport();
+        }
+      },
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -5,26 +5,69 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { Message } from '../entities/message.entity';
 import { Room } from '../entities/room.entity';
 import { RoomMembership } from '../entities/room-membership.entity';
+import { User } from '../entities/user.entity';
+import { MessageReaction } from '../entities/message-reaction.entity';
+import { MessageEvent } from '../entities/message-event.entity';
+import { MessageRevision } from '../entities/message-revision.entity';
+import { Attachment } from '../entities/attachment.entity';
+import { ChannelMembership } from '../entities/channel-membership.entity';
 import { MessageService } from '../services/message.service';
+import { ReactionService } from '../services/reaction.service';
+import { TypingService } from '../services/typing.service';
+import { MessageEventService } from '../services/message-event.service';
+import { MentionService } from '../services/mention.service';
+import { PinService } from '../services/pin.service';
 import { MessageController } from '../controllers/message.controller';
+import { ReactionController } from '../controllers/reaction.controller';
+import { PinController } from '../controllers/pin.controller';
 import { MessageGateway } from '../gateways/message.gateway';
+import { ChannelModule } from './channel.module';
+import { RoomModule } from './room.module';
+import { RoomPermissionModule } from './room-permission.module';
+import { SessionModule } from './session.module';
+import { PresenceModule } from './presence.module';
+import { ReadMarkerModule } from './read-marker.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Message, Room, RoomMembership]),
+    TypeOrmModule.forFeature([
+      Message,
+      Room,
+      RoomMembership,
+      MessageReaction,
+      MessageEvent,
+      MessageRevision,
+      Attachment,
+      ChannelMembership,
+      User,
+    ]),
+    RoomPermissionModule,
+    ChannelModule,
+    RoomModule,
+    SessionModule,
+    PresenceModule,
+    ReadMarkerModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
       useFactory: (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET'),
         signOptions: {
-          expiresIn: configService.get<string>('JWT_EXPIRATION') || '1d',
+          expiresIn: configService.get<string>('JWT_EXPIRATION') || '15m',
         },
       }),
     }),
   ],
-  controllers: [MessageController],
-  providers: [MessageService, MessageGateway],
+  controllers: [MessageController, ReactionController, PinController],
+  providers: [
+    MessageService,
+    MessageEventService,
+    MentionService,
+    PinService,
+    ReactionService,
+    TypingService,
+    MessageGateway,
+  ],
   exports: [MessageService],
 })
 export class MessageModule {}
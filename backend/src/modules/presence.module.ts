@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { User } from '../entities/user.entity';
+import { RoomMembership } from '../entities/room-membership.entity';
+import { PresenceService } from '../services/presence.service';
+import { PresenceController } from '../controllers/presence.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([User, RoomMembership])],
+  controllers: [PresenceController],
+  providers: [PresenceService],
+  exports: [PresenceService],
+})
+export class PresenceModule {}
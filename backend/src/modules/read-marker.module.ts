@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RoomReadMarker } from '../entities/room-read-marker.entity';
+import { Message } from '../entities/message.entity';
+import { Room } from '../entities/room.entity';
+import { RoomMembership } from '../entities/room-membership.entity';
+import { Channel } from '../entities/channel.entity';
+import { ChannelMembership } from '../entities/channel-membership.entity';
+import { ReadMarkerService } from '../services/read-marker.service';
+import { RoomPermissionModule } from './room-permission.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      RoomReadMarker,
+      Message,
+      Room,
+      RoomMembership,
+      Channel,
+      ChannelMembership,
+    ]),
+    RoomPermissionModule,
+  ],
+  providers: [ReadMarkerService],
+  exports: [ReadMarkerService],
+})
+export class ReadMarkerModule {}
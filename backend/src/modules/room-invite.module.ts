@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RoomInvite } from '../entities/room-invite.entity';
+import { Room } from '../entities/room.entity';
+import { RoomMembership } from '../entities/room-membership.entity';
+import { RoomInviteService } from '../services/room-invite.service';
+import { RoomInviteController } from '../controllers/room-invite.controller';
+import { RoomPermissionModule } from './room-permission.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([RoomInvite, Room, RoomMembership]),
+    RoomPermissionModule,
+  ],
+  controllers: [RoomInviteController],
+  providers: [RoomInviteService],
+  exports: [RoomInviteService],
+})
+export class RoomInviteModule {}
@@ -4,9 +4,13 @@ import { RoomMembership } from '../entities/room-membership.entity';
 import { Room } from '../entities/room.entity';
 import { RoomMembershipService } from '../services/room-membership.service';
 import { RoomMembershipController } from '../controllers/room-membership.controller';
+import { RoomPermissionModule } from './room-permission.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([RoomMembership, Room])],
+  imports: [
+    TypeOrmModule.forFeature([RoomMembership, Room]),
+    RoomPermissionModule,
+  ],
   controllers: [RoomMembershipController],
   providers: [RoomMembershipService],
   exports: [RoomMembershipService],
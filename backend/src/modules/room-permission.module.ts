@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Room } from '../entities/room.entity';
+import { RoomMembership } from '../entities/room-membership.entity';
+import { RoomPermissionService } from '../services/room-permission.service';
+import { RoomPermissionGuard } from '../guards/room-permission.guard';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Room, RoomMembership])],
+  providers: [RoomPermissionService, RoomPermissionGuard],
+  exports: [RoomPermissionService, RoomPermissionGuard],
+})
+export class RoomPermissionModule {}
@@ -2,11 +2,18 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Room } from '../entities/room.entity';
 import { RoomMembership } from '../entities/room-membership.entity';
+import { User } from '../entities/user.entity';
 import { RoomService } from '../services/room.service';
 import { RoomController } from '../controllers/room.controller';
+import { RoomPermissionModule } from './room-permission.module';
+import { ReadMarkerModule } from './read-marker.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Room, RoomMembership])],
+  imports: [
+    TypeOrmModule.forFeature([Room, RoomMembership, User]),
+    RoomPermissionModule,
+    ReadMarkerModule,
+  ],
   controllers: [RoomController],
   providers: [RoomService],
   exports: [RoomService],
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Session } from '../entities/session.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { SessionService } from '../services/session.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Session, RefreshToken])],
+  providers: [SessionService],
+  exports: [SessionService],
+})
+export class SessionModule {}
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { STORAGE } from '../services/storage/storage';
+import { LocalDiskStorage } from '../services/storage/local-disk.storage';
+import { S3Storage } from '../services/storage/s3.storage';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: STORAGE,
+      inject: [ConfigService],
+      // STORAGE_DRIVER picks where uploads are kept: local or s3
+      useFactory: (configService: ConfigService) => {
+        switch (configService.get<string>('STORAGE_DRIVER')) {
+          case 's3':
+            return new S3Storage({
+              bucket: configService.get<string>('S3_BUCKET') || 'raven',
+              region: configService.get<string>('S3_REGION') || 'us-east-1',
+              endpoint: configService.get<string>('S3_ENDPOINT') || undefined,
+              forcePathStyle:
+                configService.get<string>('S3_FORCE_PATH_STYLE') === 'true',
+              accessKeyId: configService.get<string>('S3_ACCESS_KEY_ID'),
+              secretAccessKey: configService.get<string>(
+                'S3_SECRET_ACCESS_KEY',
+              ),
+            });
+          default:
+            return new LocalDiskStorage(
+              configService.get<string>('STORAGE_DIR') || 'storage',
+            );
+        }
+      },
+    },
+  ],
+  exports: [STORAGE],
+})
+export class StorageModule {}
@@ -0,0 +1,219 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import { Readable } from 'stream';
+import * as sharp from 'sharp';
+import { Attachment } from '../entities/attachment.entity';
+import { MessageService } from './message.service';
+import { STORAGE, Storage } from './storage/storage';
+
+// Files that can be attached, SVG is left out because it can carry scripts
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const FILE_TYPES = [
+  'application/pdf',
+  'application/zip',
+  'application/json',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+];
+
+const DEFAULT_MAX_SIZE_MB = 10;
+
+// Thumbnails fit in a square of this size
+const THUMBNAIL_SIZE = 400;
+
+// Uploads that never made it into a message are deleted after this
+const UNSENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export type AttachmentVariant = 'original' | 'thumbnail';
+
+@Injectable()
+export class AttachmentService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AttachmentService.name);
+
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(Attachment)
+    private attachmentRepository: Repository<Attachment>,
+    @Inject(STORAGE)
+    private storage: Storage,
+    private messageService: MessageService,
+    private configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    this.sweepTimer = setInterval(() => {
+      this.deleteUnsent().catch((error: unknown) => {
+        this.logger.error(
+          'Failed to delete unsent attachments',
+          error instanceof Error ? error.stack : String(error),
+        );
+      });
+    }, SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  // Permission to post in the room is checked by RoomPermissionGuard
+  async upload(
+    userId: string,
+    roomId: string,
+    file: Express.Multer.File,
+  ): Promise<Attachment> {
+    // Check if the file is of an accepted type and size
+    const isImage = IMAGE_TYPES.includes(file.mimetype);
+    if (!isImage && !FILE_TYPES.includes(file.mimetype)) {
+      throw new BadRequestException(
+        `Files of type ${file.mimetype || 'unknown'} cannot be attached`,
+      );
+    }
+
+    if (file.size > this.maxSizeBytes()) {
+      throw new PayloadTooLargeException(
+        `Files must be at most ${this.maxSizeBytes() / (1024 * 1024)} MB`,
+      );
+    }
+
+    const attachment = this.attachmentRepository.create({
+      roomId,
+      uploaderId: userId,
+      fileName: file.originalname.slice(0, 255),
+      contentType: file.mimetype,
+      size: file.size,
+      width: null,
+      height: null,
+      hasThumbnail: false,
+    });
+
+    let thumbnail: Buffer | null = null;
+    if (isImage) {
+      try {
+        const metadata = await sharp(file.buffer).metadata();
+        attachment.width = metadata.width ?? null;
+        attachment.height = metadata.height ?? null;
+
+        // Rotated by their EXIF orientation, animations keep the first frame
+        thumbnail = await sharp(file.buffer)
+          .rotate()
+          .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+            fit: 'inside',
+            withoutEnlargement: true,
+          })
+          .webp()
+          .toBuffer();
+      } catch {
+        throw new BadRequestException('The image could not be read');
+      }
+    }
+
+    attachment.hasThumbnail = !!thumbnail;
+    await this.attachmentRepository.save(attachment);
+
+    await this.storage.put(
+      this.storageKey(attachment, 'original'),
+      file.buffer,
+      file.mimetype,
+    );
+    if (thumbnail) {
+      await this.storage.put(
+        this.storageKey(attachment, 'thumbnail'),
+        thumbnail,
+        'image/webp',
+      );
+    }
+
+    return attachment;
+  }
+
+  async findOne(id: string, userId: string): Promise<Attachment> {
+    const attachment = await this.attachmentRepository.findOne({
+      where: { id },
+    });
+
+    if (!attachment) {
+      throw new NotFoundException(`Attachment with ID ${id} not found`);
+    }
+
+    // Uploads that have not been sent yet are only visible to the uploader
+    if (!attachment.messageId) {
+      if (attachment.uploaderId !== userId) {
+        throw new NotFoundException(`Attachment with ID ${id} not found`);
+      }
+      return attachment;
+    }
+
+    // Sent attachments can be seen by whoever can see their message, and are
+    // hidden along with it when it is deleted
+    const message = await this.messageService.findOne(
+      attachment.messageId,
+      userId,
+    );
+    if (message.deletedAt) {
+      throw new NotFoundException(`Attachment with ID ${id} not found`);
+    }
+
+    return attachment;
+  }
+
+  async openFile(
+    attachment: Attachment,
+    variant: AttachmentVariant,
+  ): Promise<Readable> {
+    // Check if the attachment has the requested file
+    if (variant === 'thumbnail' && !attachment.hasThumbnail) {
+      throw new NotFoundException('This attachment has no thumbnail');
+    }
+
+    const stream = await this.storage.get(this.storageKey(attachment, variant));
+
+    if (!stream) {
+      throw new NotFoundException('The file of this attachment is missing');
+    }
+
+    return stream;
+  }
+
+  private async deleteUnsent() {
+    const attachments = await this.attachmentRepository.find({
+      where: {
+        messageId: IsNull(),
+        createdAt: LessThan(new Date(Date.now() - UNSENT_RETENTION_MS)),
+      },
+    });
+
+    for (const attachment of attachments) {
+      await this.storage.delete(this.storageKey(attachment, 'original'));
+      if (attachment.hasThumbnail) {
+        await this.storage.delete(this.storageKey(attachment, 'thumbnail'));
+      }
+      await this.attachmentRepository.remove(attachment);
+    }
+  }
+
+  private storageKey(attachment: Attachment, variant: AttachmentVariant) {
+    return `attachments/${attachment.id}/${variant}`;
+  }
+
+  private maxSizeBytes(): number {
+    const maxSizeMb = Number(
+      this.configService.get<string>('ATTACHMENT_MAX_SIZE_MB') ||
+        DEFAULT_MAX_SIZE_MB,
+    );
+    return maxSizeMb * 1024 * 1024;
+  }
+}
@@ -1,27 +1,70 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Repository } from 'typeorm';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
 
 import { LoginDto } from '../dto/auth/login.dto';
 import { RegisterDto } from '../dto/auth/register.dto';
+import { PasswordResetToken } from '../entities/password-reset-token.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { MfaChallenge } from '../entities/mfa-challenge.entity';
+import { MfaRecoveryCode } from '../entities/mfa-recovery-code.entity';
 import { User } from '../entities/user.entity';
+import { MailService } from './mail.service';
 import { MfaService } from './mfa.service';
+import { SessionClient, SessionService } from './session.service';
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     @InjectRepository(User)
     private userRepository: Repository<User>,
+    @InjectRepository(PasswordResetToken)
+    private passwordResetTokenRepository: Repository<PasswordResetToken>,
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+    @InjectRepository(MfaRecoveryCode)
+    private recoveryCodeRepository: Repository<MfaRecoveryCode>,
+    @InjectRepository(MfaChallenge)
+    private mfaChallengeRepository: Repository<MfaChallenge>,
     private jwtService: JwtService,
     private mfaService: MfaService,
+    private mailService: MailService,
+    private sessionService: SessionService,
+    private configService: ConfigService,
   ) {}
 
-  async register(registerDto: RegisterDto): Promise<{
-    token: string;
-    user: { id: string; email: string; username: string };
-  }> {
+  async register(
+    registerDto: RegisterDto,
+    client: SessionClient,
+  ): Promise<
+    AuthTokens & {
+      user: {
+        id: string;
+        email: string;
+        username: string;
+        emailVerified: boolean;
+      };
+    }
+  > {
     const { email, password, username } = registerDto;
 
     // Check if user already exists
@@ -44,25 +87,33 @@ export class AuthService {
 
     await this.userRepository.save(newUser);
 
-    // Generate token
-    const token = this.jwtService.sign({
-      sub: newUser.id,
-      email: newUser.email,
-    });
+    await this.sendEmailVerification(newUser);
+
+    const tokens = await this.startSession(newUser, client);
 
     return {
-      token,
+      ...tokens,
       user: {
         id: newUser.id,
         email: newUser.email,
         username: newUser.username,
+        emailVerified: newUser.emailVerified,
       },
     };
   }
 
-  async login(loginDto: LoginDto): Promise<{
+  async login(
+    loginDto: LoginDto,
+    client: SessionClient,
+  ): Promise<{
     token?: string;
-    user?: { id: string; email: string; username: string };
+    refreshToken?: string;
+    user?: {
+      id: string;
+      email: string;
+      username: string;
+      emailVerified: boolean;
+    };
     requiresMfa?: boolean;
     tempToken?: string;
   }> {
@@ -100,10 +151,17 @@ export class AuthService {
     await this.userRepository.save(user);
 
     if (user.mfaEnabled) {
-      // Generate a temporary token that only allows MFA verification
+      // The temporary token only allows MFA verification, and is tied to a
+      // stored challenge so it can finish one login at most
+      const challenge = await this.mfaChallengeRepository.save(
+        this.mfaChallengeRepository.create({
+          userId: user.id,
+          expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+        }),
+      );
       const tempToken = this.jwtService.sign(
         { sub: user.id, email: user.email, requiresMfa: true },
-        { expiresIn: '5m' },
+        { expiresIn: '5m', jwtid: challenge.id },
       );
 
       return {
@@ -112,18 +170,15 @@ export class AuthService {
       };
     }
 
-    // Generate token
-    const token = this.jwtService.sign({
-      sub: user.id.toString(),
-      email: user.email,
-    });
+    const tokens = await this.startSession(user, client);
 
     return {
-      token,
+      ...tokens,
       user: {
         id: user.id.toString(),
         email: user.email,
         username: user.username,
+        emailVerified: user.emailVerified,
       },
     };
   }
@@ -136,12 +191,154 @@ export class AuthService {
     return user;
   }
 
-  async setupMfa(userId: string): Promise<{ qrCodeUrl: string }> {
-    const user = await this.userRepository.findOne({ where: { id: userId } });
+  async sendEmailVerification(user: User): Promise<void> {
+    // Signed with its own secret so the link can never be used as an access token
+    const token = this.jwtService.sign(
+      { sub: user.id, email: user.email },
+      { secret: this.emailVerificationSecret(), expiresIn: '24h' },
+    );
+
+    try {
+      await this.mailService.sendEmailVerification(user, token);
+    } catch (error) {
+      // Registration still succeeds, the user can ask for another link
+      this.logger.error(
+        `Could not send verification email to user ${user.id}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  async resendEmailVerification(userId: string): Promise<void> {
+    const user = await this.validateUser(userId);
+
+    if (user.emailVerified) {
+      throw new BadRequestException('Your email address is already verified');
+    }
+
+    await this.sendEmailVerification(user);
+  }
+
+  async verifyEmail(token: string): Promise<{ emailVerified: boolean }> {
+    let payload: { sub: string; email: string };
+    try {
+      payload = this.jwtService.verify(token, {
+        secret: this.emailVerificationSecret(),
+      });
+    } catch {
+      throw new BadRequestException(
+        'This verification link is invalid or has expired',
+      );
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: payload.sub },
+    });
+
+    // The link only confirms the address it was sent to
+    if (!user || user.email !== payload.email) {
+      throw new BadRequestException(
+        'This verification link is invalid or has expired',
+      );
+    }
+
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      await this.userRepository.save(user);
+    }
+
+    return { emailVerified: true };
+  }
+
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { email } });
 
+    // Respond the same way whether or not the email is registered
     if (!user) {
-      throw new UnauthorizedException('User not found');
+      return;
+    }
+
+    // Only the most recently emailed link stays valid
+    await this.passwordResetTokenRepository.update(
+      { userId: user.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    const token = randomBytes(32).toString('base64url');
+    const ttlMinutes = Number(
+      this.configService.get<string>('PASSWORD_RESET_TTL_MINUTES') || 60,
+    );
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    await this.passwordResetTokenRepository.save(
+      this.passwordResetTokenRepository.create({
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt,
+      }),
+    );
+
+    try {
+      await this.mailService.sendPasswordReset(user, token, expiresAt);
+    } catch (error) {
+      // A delivery failure must not reveal that the account exists
+      this.logger.error(
+        `Could not send password reset email to user ${user.id}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const resetToken = await this.passwordResetTokenRepository.findOne({
+      where: { tokenHash: hashToken(token) },
+      relations: ['user'],
+    });
+
+    // Check if the token exists, is unused and has not expired
+    if (
+      !resetToken ||
+      resetToken.usedAt ||
+      resetToken.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new BadRequestException(
+        'This reset link is invalid or has expired',
+      );
+    }
+
+    // Claim the token in a single update so concurrent requests cannot both use it
+    const { affected } = await this.passwordResetTokenRepository.update(
+      { id: resetToken.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!affected) {
+      throw new BadRequestException(
+        'This reset link is invalid or has expired',
+      );
     }
+
+    const user = resetToken.user;
+    user.password = await bcrypt.hash(newPassword, 10);
+
+    // Resetting the password also lifts a lockout from failed logins
+    user.failedLoginAttempts = 0;
+    user.lockedUntil = null;
+    await this.userRepository.save(user);
+
+    // Sign out every device that knew the old password
+    await this.sessionService.revokeAll(user.id);
+  }
+
+  async setupMfa(userId: string): Promise<{ qrCodeUrl: string }> {
+    const user = await this.validateUser(userId);
+
+    // Replacing the secret of an active setup would lock the user out
+    if (user.mfaEnabled) {
+      throw new BadRequestException(
+        'Disable two-factor authentication before setting it up again',
+      );
+    }
+
     const { otpAuthUrl, base32 } = this.mfaService.generateSecret(
       user.username,
     );
@@ -159,94 +356,279 @@ export class AuthService {
   async verifyMfaAndEnableForUser(
     userId: string,
     token: string,
-  ): Promise<boolean> {
-    const user = await this.userRepository.findOne({ where: { id: userId } });
-    if (!user) {
-      throw new UnauthorizedException('User not found');
+  ): Promise<{ success: boolean; recoveryCodes?: string[] }> {
+    const user = await this.validateUser(userId);
+
+    if (!user.mfaSecret) {
+      throw new BadRequestException('Set up two-factor authentication first');
     }
+
+    if (user.mfaEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
     const isValid = this.mfaService.verifyToken(token, user.mfaSecret);
 
-    if (isValid) {
-      user.mfaEnabled = true;
-      await this.userRepository.save(user);
+    if (!isValid) {
+      return { success: false };
     }
 
-    return isValid;
+    user.mfaEnabled = true;
+    await this.userRepository.save(user);
+
+    // Recovery codes are only ever shown in this response
+    const recoveryCodes = await this.replaceRecoveryCodes(user.id);
+
+    return { success: true, recoveryCodes };
   }
 
-  async verifyMfaToken(
+  async getMfaStatus(
+    userId: string,
+  ): Promise<{ enabled: boolean; recoveryCodesRemaining: number }> {
+    const user = await this.validateUser(userId);
+
+    const recoveryCodesRemaining = user.mfaEnabled
+      ? await this.recoveryCodeRepository.count({
+          where: { userId, usedAt: IsNull() },
+        })
+      : 0;
+
+    return { enabled: user.mfaEnabled, recoveryCodesRemaining };
+  }
+
+  async regenerateRecoveryCodes(
     userId: string,
+    password: string,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.validateUser(userId);
+    await this.assertPassword(user, password);
+
+    if (!user.mfaEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    const recoveryCodes = await this.replaceRecoveryCodes(user.id);
+
+    return { recoveryCodes };
+  }
+
+  async disableMfa(userId: string, password: string): Promise<void> {
+    const user = await this.validateUser(userId);
+    await this.assertPassword(user, password);
+
+    user.mfaEnabled = false;
+    user.mfaSecret = null;
+    await this.userRepository.save(user);
+
+    await this.recoveryCodeRepository.delete({ userId: user.id });
+  }
+
+  async verifyMfaToken(
+    tempToken: string,
     token: string,
-  ): Promise<{
-    token: string;
-    user: { id: string; email: string; username: string };
-  }> {
-    const user = await this.userRepository.findOne({ where: { id: userId } });
-    if (!user) {
+    client: SessionClient,
+  ): Promise<
+    AuthTokens & {
+      user: {
+        id: string;
+        email: string;
+        username: string;
+        emailVerified: boolean;
+      };
+    }
+  > {
+    let payload: { sub: string; requiresMfa?: boolean; jti?: string };
+    try {
+      payload = this.jwtService.verify(tempToken);
+    } catch {
+      throw new UnauthorizedException('Your login has expired, start again');
+    }
+
+    // Only the temporary token handed out by login can finish an MFA login
+    if (!payload.requiresMfa || !payload.jti) {
+      throw new UnauthorizedException('Invalid MFA token');
+    }
+
+    const challenge = await this.mfaChallengeRepository.findOne({
+      where: { id: payload.jti, userId: payload.sub },
+    });
+
+    // Check if the challenge exists, is unused and has not expired
+    if (
+      !challenge ||
+      challenge.usedAt ||
+      challenge.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new UnauthorizedException('Your login has expired, start again');
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: payload.sub },
+    });
+    if (!user || !user.mfaEnabled || !user.mfaSecret) {
       throw new UnauthorizedException('User not found');
     }
-    const isValid = this.mfaService.verifyToken(token, user.mfaSecret);
+
+    // Six digits is a TOTP code, anything else is tried as a recovery code
+    const isValid = this.mfaService.isTotpToken(token)
+      ? this.mfaService.verifyToken(token.trim(), user.mfaSecret)
+      : await this.useRecoveryCode(user.id, token);
 
     if (!isValid) {
       throw new UnauthorizedException('Invalid MFA token');
     }
 
-    // Generate the full access token
-    const accessToken = this.jwtService.sign({
-      sub: user.id.toString(),
-      email: user.email,
-    });
+    // Claim the challenge in a single update so the temporary token cannot be replayed
+    const { affected } = await this.mfaChallengeRepository.update(
+      { id: challenge.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!affected) {
+      throw new UnauthorizedException('Your login has expired, start again');
+    }
+
+    const tokens = await this.startSession(user, client);
 
     return {
-      token: accessToken,
+      ...tokens,
       user: {
         id: user.id.toString(),
         email: user.email,
         username: user.username,
+        emailVerified: user.emailVerified,
       },
     };
   }
 
-  async generateTokens(user: User) {
-    const accessToken = this.jwtService.sign(
-      { sub: user.id, email: user.email },
-      { expiresIn: '15m' },
-    );
+  // Every login starts a session that the issued tokens belong to
+  async startSession(user: User, client: SessionClient): Promise<AuthTokens> {
+    const session = await this.sessionService.create(user.id, client);
+    return this.generateTokens(user, session.id);
+  }
+
+  // Issues a short-lived access token and a refresh token for the session
+  async generateTokens(user: User, sessionId: string): Promise<AuthTokens> {
+    const token = this.jwtService.sign({
+      sub: user.id,
+      email: user.email,
+      sid: sessionId,
+    });
 
-    const refreshToken = this.jwtService.sign(
-      { sub: user.id },
-      { expiresIn: '7d' },
+    const refreshToken = randomBytes(32).toString('base64url');
+    const ttlDays = Number(
+      this.configService.get<string>('REFRESH_TOKEN_TTL_DAYS') || 30,
     );
 
-    // Store hashed refresh token
-    user.refreshToken = await bcrypt.hash(refreshToken, 10);
-    await this.userRepository.save(user);
+    await this.refreshTokenRepository.save(
+      this.refreshTokenRepository.create({
+        userId: user.id,
+        sessionId,
+        tokenHash: hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+      }),
+    );
 
-    return {
-      accessToken,
-      refreshToken,
-    };
+    return { token, refreshToken };
   }
 
-  async refreshAccessToken(refreshToken: string) {
-    try {
-      const decoded: { sub: string } = this.jwtService.verify(refreshToken);
-      const user = await this.userRepository.findOne({
-        where: { id: decoded.sub },
-      });
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const storedToken = await this.refreshTokenRepository.findOne({
+      where: { tokenHash: hashToken(refreshToken) },
+      relations: ['user'],
+    });
 
-      if (!user || !(await bcrypt.compare(refreshToken, user.refreshToken))) {
-        throw new UnauthorizedException('Invalid refresh token');
-      }
+    // Check if the token exists, is still live and has not expired
+    if (
+      !storedToken ||
+      storedToken.revokedAt ||
+      storedToken.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
 
-      const accessToken = this.jwtService.sign(
-        { sub: user.id, email: user.email },
-        { expiresIn: '15m' },
-      );
+    // Claim the token in a single update so it can only be rotated once
+    const { affected } = await this.refreshTokenRepository.update(
+      { id: storedToken.id, usedAt: IsNull(), revokedAt: IsNull() },
+      { usedAt: new Date() },
+    );
 
-      return { accessToken };
-    } catch {
+    // A rotated token coming back means it was copied, so end the whole session
+    if (!affected) {
+      await this.sessionService.revokeSessions([storedToken.sessionId]);
       throw new UnauthorizedException('Invalid refresh token');
     }
+
+    return this.generateTokens(storedToken.user, storedToken.sessionId);
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    const storedToken = await this.refreshTokenRepository.findOne({
+      where: { tokenHash: hashToken(refreshToken) },
+    });
+
+    if (storedToken) {
+      await this.sessionService.revokeSessions([storedToken.sessionId]);
+    }
+  }
+
+  private emailVerificationSecret(): string {
+    return (
+      this.configService.get<string>('EMAIL_VERIFICATION_SECRET') ||
+      `${this.configService.get<string>('JWT_SECRET')}:email-verification`
+    );
+  }
+
+  private async assertPassword(user: User, password: string): Promise<void> {
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+
+    if (!isPasswordValid) {
+      throw new BadRequestException('Password is incorrect');
+    }
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = this.mfaService.generateRecoveryCodes();
+
+    await this.recoveryCodeRepository.delete({ userId });
+    await this.recoveryCodeRepository.save(
+      await Promise.all(
+        recoveryCodes.map(async (code) =>
+          this.recoveryCodeRepository.create({
+            userId,
+            codeHash: await bcrypt.hash(
+              this.mfaService.normalizeRecoveryCode(code),
+              10,
+            ),
+          }),
+        ),
+      ),
+    );
+
+    return recoveryCodes;
+  }
+
+  // Marks a matching unused recovery code as used, each code works only once
+  private async useRecoveryCode(
+    userId: string,
+    code: string,
+  ): Promise<boolean> {
+    const normalized = this.mfaService.normalizeRecoveryCode(code);
+    const recoveryCodes = await this.recoveryCodeRepository.find({
+      where: { userId, usedAt: IsNull() },
+    });
+
+    for (const recoveryCode of recoveryCodes) {
+      if (await bcrypt.compare(normalized, recoveryCode.codeHash)) {
+        const { affected } = await this.recoveryCodeRepository.update(
+          { id: recoveryCode.id, usedAt: IsNull() },
+          { usedAt: new Date() },
+        );
+        return !!affected;
+      }
+    }
+
+    return false;
   }
 }
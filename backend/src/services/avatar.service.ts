@@ -0,0 +1,179 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import * as sharp from 'sharp';
+import { User } from '../entities/user.entity';
+import { STORAGE, Storage } from './storage/storage';
+
+const AVATAR_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Every upload is cropped to a square and stored in each of these sizes
+const AVATAR_SIZES = [32, 64, 128, 256];
+
+const DEFAULT_MAX_SIZE_MB = 5;
+
+// Identicons are a mirrored grid of this many cells per side
+const IDENTICON_GRID = 5;
+
+export type AvatarImage =
+  | { type: 'upload'; stream: Readable }
+  | { type: 'identicon'; svg: string };
+
+@Injectable()
+export class AvatarService {
+  constructor(
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @Inject(STORAGE)
+    private storage: Storage,
+    private configService: ConfigService,
+  ) {}
+
+  async upload(userId: string, file: Express.Multer.File): Promise<User> {
+    // Check if the file is an image of an accepted type and size
+    if (!AVATAR_TYPES.includes(file.mimetype)) {
+      throw new BadRequestException('Avatars must be PNG, JPEG, GIF or WebP');
+    }
+
+    if (file.size > this.maxSizeBytes()) {
+      throw new PayloadTooLargeException(
+        `Avatars must be at most ${this.maxSizeBytes() / (1024 * 1024)} MB`,
+      );
+    }
+
+    const user = await this.findUser(userId);
+
+    // Each upload gets a new version, so its URLs can be cached forever
+    const version = randomUUID();
+    let images: Buffer[];
+    try {
+      images = await Promise.all(
+        AVATAR_SIZES.map((size) =>
+          sharp(file.buffer)
+            .rotate()
+            .resize(size, size, { fit: 'cover', position: 'attention' })
+            .webp()
+            .toBuffer(),
+        ),
+      );
+    } catch {
+      throw new BadRequestException('The image could not be read');
+    }
+
+    for (const [index, size] of AVATAR_SIZES.entries()) {
+      await this.storage.put(
+        this.storageKey(userId, version, size),
+        images[index],
+        'image/webp',
+      );
+    }
+
+    const previousVersion = user.avatar;
+    await this.userRepository.update(userId, { avatar: version });
+    if (previousVersion) {
+      await this.deleteFiles(userId, previousVersion);
+    }
+
+    return this.findUser(userId);
+  }
+
+  async remove(userId: string): Promise<User> {
+    const user = await this.findUser(userId);
+
+    if (user.avatar) {
+      await this.userRepository.update(userId, { avatar: null });
+      await this.deleteFiles(userId, user.avatar);
+    }
+
+    return this.findUser(userId);
+  }
+
+  // The uploaded avatar in the smallest size that is at least as large as
+  // asked for, or the identicon for users without one
+  async findImage(userId: string, size: number): Promise<AvatarImage> {
+    const user = await this.findUser(userId);
+
+    if (user.avatar) {
+      const storedSize =
+        AVATAR_SIZES.find((candidate) => candidate >= size) ??
+        AVATAR_SIZES[AVATAR_SIZES.length - 1];
+      const stream = await this.storage.get(
+        this.storageKey(userId, user.avatar, storedSize),
+      );
+
+      if (stream) {
+        return { type: 'upload', stream };
+      }
+    }
+
+    return { type: 'identicon', svg: this.identicon(userId) };
+  }
+
+  // A symmetric pattern and a colour derived from the user ID, so it never
+  // changes and needs nothing stored
+  private identicon(userId: string): string {
+    const hash = createHash('sha256').update(userId).digest();
+    const hue = Math.round((hash.readUInt16BE(0) / 0xffff) * 360);
+    const colour = `hsl(${hue}, 55%, 50%)`;
+
+    const half = Math.ceil(IDENTICON_GRID / 2);
+    const cells: string[] = [];
+    for (let row = 0; row < IDENTICON_GRID; row++) {
+      for (let column = 0; column < half; column++) {
+        if (hash[2 + row * half + column] % 2 === 0) continue;
+
+        const mirrored = IDENTICON_GRID - 1 - column;
+        for (const x of new Set([column, mirrored])) {
+          cells.push(
+            `<rect x="${x + 1}" y="${row + 1}" width="1" height="1"/>`,
+          );
+        }
+      }
+    }
+
+    const viewBox = IDENTICON_GRID + 2;
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${viewBox} ${viewBox}" shape-rendering="crispEdges">` +
+      `<rect width="${viewBox}" height="${viewBox}" fill="#f0f0f0"/>` +
+      `<g fill="${colour}">${cells.join('')}</g>` +
+      `</svg>`
+    );
+  }
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    return user;
+  }
+
+  private async deleteFiles(userId: string, version: string) {
+    for (const size of AVATAR_SIZES) {
+      await this.storage.delete(this.storageKey(userId, version, size));
+    }
+  }
+
+  private storageKey(userId: string, version: string, size: number) {
+    return `avatars/${userId}/${version}/${size}.webp`;
+  }
+
+  private maxSizeBytes(): number {
+    const maxSizeMb = Number(
+      this.configService.get<string>('AVATAR_MAX_SIZE_MB') ||
+        DEFAULT_MAX_SIZE_MB,
+    );
+    return maxSizeMb * 1024 * 1024;
+  }
+}
@@ -0,0 +1,391 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { Subject } from 'rxjs';
+import { Channel } from '../entities/channel.entity';
+import { ChannelMembership } from '../entities/channel-membership.entity';
+import { Room } from '../entities/room.entity';
+import { RoomMembership } from '../entities/room-membership.entity';
+import { Message } from '../entities/message.entity';
+import { CreateChannelDto } from '../dto/channel/create-channel.dto';
+import { UpdateChannelDto } from '../dto/channel/update-channel.dto';
+import {
+  RoomPermission,
+  RoomPermissionService,
+} from './room-permission.service';
+
+const DEFAULT_CHANNEL_NAME = 'general';
+
+@Injectable()
+export class ChannelService {
+  // Emits after a member loses access to a private channel, so their sockets
+  // can stop receiving its messages
+  readonly memberRemoved = new Subject<{ channelId: string; userId: string }>();
+
+  constructor(
+    @InjectRepository(Channel)
+    private channelRepository: Repository<Channel>,
+    @InjectRepository(ChannelMembership)
+    private channelMembershipRepository: Repository<ChannelMembership>,
+    @InjectRepository(Room)
+    private roomRepository: Repository<Room>,
+    @InjectRepository(RoomMembership)
+    private roomMembershipRepository: Repository<RoomMembership>,
+    @InjectRepository(Message)
+    private messageRepository: Repository<Message>,
+    private roomPermissionService: RoomPermissionService,
+  ) {}
+
+  async create(
+    roomId: string,
+    userId: string,
+    createChannelDto: CreateChannelDto,
+  ): Promise<Channel> {
+    // Permission to manage channels is checked by RoomPermissionGuard
+    const room = await this.findRoom(roomId);
+
+    if (room.isDirect) {
+      throw new BadRequestException(
+        'Direct message conversations cannot have channels',
+      );
+    }
+
+    await this.ensureDefaultChannel(roomId);
+    await this.assertNameAvailable(roomId, createChannelDto.name);
+
+    const position = await this.channelRepository.count({
+      where: { roomId },
+    });
+
+    const channel = this.channelRepository.create({
+      ...createChannelDto,
+      roomId,
+      position,
+    });
+
+    await this.channelRepository.save(channel);
+
+    // The creator always belongs to their own private channel
+    if (channel.isPrivate) {
+      await this.channelMembershipRepository.save(
+        this.channelMembershipRepository.create({
+          channelId: channel.id,
+          userId,
+        }),
+      );
+    }
+
+    return channel;
+  }
+
+  async findAllByRoom(roomId: string, userId: string): Promise<Channel[]> {
+    const room = await this.findRoom(roomId);
+    await this.assertRoomAccess(room, userId);
+    await this.ensureDefaultChannel(roomId);
+
+    const channels = await this.channelRepository.find({
+      where: { roomId },
+      relations: ['channelMemberships'],
+      order: { position: 'ASC', createdAt: 'ASC' },
+    });
+
+    const canManageChannels = await this.roomPermissionService.can(
+      room,
+      userId,
+      RoomPermission.MANAGE_CHANNELS,
+    );
+
+    // Private channels are only listed for their members and channel managers
+    return channels.filter(
+      (channel) =>
+        !channel.isPrivate ||
+        canManageChannels ||
+        channel.channelMemberships.some(
+          (membership) => membership.userId === userId,
+        ),
+    );
+  }
+
+  async findOne(id: string, userId: string): Promise<Channel> {
+    const channel = await this.channelRepository.findOne({
+      where: { id },
+      relations: ['room'],
+    });
+
+    if (!channel) {
+      throw new NotFoundException(`Channel with ID ${id} not found`);
+    }
+
+    await this.assertRoomAccess(channel.room, userId);
+
+    if (
+      channel.isPrivate &&
+      !(await this.roomPermissionService.can(
+        channel.room,
+        userId,
+        RoomPermission.MANAGE_CHANNELS,
+      ))
+    ) {
+      const membership = await this.channelMembershipRepository.findOne({
+        where: { channelId: id, userId },
+      });
+
+      if (!membership) {
+        throw new ForbiddenException('You are not a member of this channel');
+      }
+    }
+
+    return channel;
+  }
+
+  async findDefault(roomId: string): Promise<Channel> {
+    await this.findRoom(roomId);
+    return this.ensureDefaultChannel(roomId);
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    updateChannelDto: UpdateChannelDto,
+  ): Promise<Channel> {
+    const channel = await this.findManagedChannel(id, userId);
+
+    if (updateChannelDto.name && updateChannelDto.name !== channel.name) {
+      await this.assertNameAvailable(channel.roomId, updateChannelDto.name);
+    }
+
+    const becomesPrivate = updateChannelDto.isPrivate ?? channel.isPrivate;
+    const becomesDefault = updateChannelDto.isDefault ?? channel.isDefault;
+
+    // Everyone lands in the default channel, so it has to stay public
+    if (becomesPrivate && becomesDefault) {
+      throw new BadRequestException('The default channel cannot be private');
+    }
+
+    if (updateChannelDto.isDefault === false && channel.isDefault) {
+      throw new BadRequestException(
+        'Choose another default channel instead of unsetting this one',
+      );
+    }
+
+    if (updateChannelDto.isDefault && !channel.isDefault) {
+      await this.channelRepository.update(
+        { roomId: channel.roomId, isDefault: true },
+        { isDefault: false },
+      );
+    }
+
+    await this.channelRepository.update(id, updateChannelDto);
+
+    const updatedChannel = await this.channelRepository.findOne({
+      where: { id },
+    });
+
+    if (!updatedChannel) {
+      throw new NotFoundException(
+        `Channel with ID ${id} not found after update`,
+      );
+    }
+
+    return updatedChannel;
+  }
+
+  async remove(id: string, userId: string): Promise<void> {
+    const channel = await this.findManagedChannel(id, userId);
+
+    if (channel.isDefault) {
+      throw new BadRequestException('The default channel cannot be deleted');
+    }
+
+    await this.channelRepository.delete(id);
+  }
+
+  async addMember(id: string, userId: string, memberId: string): Promise<void> {
+    const channel = await this.findManagedChannel(id, userId);
+
+    if (!channel.isPrivate) {
+      throw new BadRequestException(
+        'Public channels are open to every room member',
+      );
+    }
+
+    const roomMembership = await this.roomMembershipRepository.findOne({
+      where: { roomId: channel.roomId, userId: memberId },
+    });
+
+    if (!roomMembership) {
+      throw new BadRequestException('User must be a member of the room first');
+    }
+
+    const existingMembership = await this.channelMembershipRepository.findOne({
+      where: { channelId: id, userId: memberId },
+    });
+
+    if (existingMembership) {
+      throw new ConflictException('User is already a member of this channel');
+    }
+
+    await this.channelMembershipRepository.save(
+      this.channelMembershipRepository.create({
+        channelId: id,
+        userId: memberId,
+      }),
+    );
+  }
+
+  async removeMember(
+    id: string,
+    userId: string,
+    memberId: string,
+  ): Promise<void> {
+    const channel = await this.channelRepository.findOne({
+      where: { id },
+      relations: ['room'],
+    });
+
+    if (!channel) {
+      throw new NotFoundException(`Channel with ID ${id} not found`);
+    }
+
+    // Members can leave, removing others requires managing channels
+    if (userId !== memberId) {
+      await this.roomPermissionService.assertPermission(
+        channel.room,
+        userId,
+        RoomPermission.MANAGE_CHANNELS,
+      );
+    }
+
+    await this.channelMembershipRepository.delete({
+      channelId: id,
+      userId: memberId,
+    });
+
+    // Those who manage channels still read private ones without a membership
+    if (
+      channel.isPrivate &&
+      !(await this.roomPermissionService.can(
+        channel.room,
+        memberId,
+        RoomPermission.MANAGE_CHANNELS,
+      ))
+    ) {
+      this.memberRemoved.next({ channelId: id, userId: memberId });
+    }
+  }
+
+  // Without access checks, for cleaning up after a member leaves the room
+  async findIdsByRoom(roomId: string): Promise<string[]> {
+    const channels = await this.channelRepository.find({
+      select: { id: true },
+      where: { roomId },
+    });
+
+    return channels.map((channel) => channel.id);
+  }
+
+  private async findRoom(roomId: string): Promise<Room> {
+    const room = await this.roomRepository.findOne({
+      where: { id: roomId },
+    });
+
+    if (!room) {
+      throw new NotFoundException(`Room with ID ${roomId} not found`);
+    }
+
+    return room;
+  }
+
+  private async findManagedChannel(
+    id: string,
+    userId: string,
+  ): Promise<Channel> {
+    const channel = await this.channelRepository.findOne({
+      where: { id },
+      relations: ['room'],
+    });
+
+    if (!channel) {
+      throw new NotFoundException(`Channel with ID ${id} not found`);
+    }
+
+    await this.roomPermissionService.assertPermission(
+      channel.room,
+      userId,
+      RoomPermission.MANAGE_CHANNELS,
+    );
+
+    return channel;
+  }
+
+  private async assertRoomAccess(room: Room, userId: string): Promise<void> {
+    if (!room.isPrivate) {
+      return;
+    }
+
+    const membership = await this.roomMembershipRepository.findOne({
+      where: { roomId: room.id, userId },
+    });
+
+    if (!membership && room.ownerId !== userId) {
+      throw new ForbiddenException('You do not have access to this room');
+    }
+  }
+
+  private async assertNameAvailable(roomId: string, name: string) {
+    const existingChannel = await this.channelRepository.findOne({
+      where: { roomId, name },
+    });
+
+    if (existingChannel) {
+      throw new ConflictException(`A channel named ${name} already exists`);
+    }
+  }
+
+  // Rooms created before channels existed get a default channel on first use,
+  // and their existing messages are moved into it
+  private async ensureDefaultChannel(roomId: string): Promise<Channel> {
+    const defaultChannel = await this.channelRepository.findOne({
+      where: { roomId, isDefault: true },
+    });
+
+    if (defaultChannel) {
+      return defaultChannel;
+    }
+
+    // Concurrent first loads race to create it, so a losing insert is ignored
+    // and the row is read back inside the same transaction as the backfill
+    return this.channelRepository.manager.transaction(async (manager) => {
+      await manager
+        .createQueryBuilder()
+        .insert()
+        .into(Channel)
+        .values({
+          roomId,
+          name: DEFAULT_CHANNEL_NAME,
+          isDefault: true,
+          position: 0,
+        })
+        .orIgnore()
+        .execute();
+
+      const channel = await manager.findOneOrFail(Channel, {
+        where: { roomId, isDefault: true },
+      });
+
+      await manager.update(
+        Message,
+        { roomId, channelId: IsNull() },
+        { channelId: channel.id },
+      );
+
+      return channel;
+    });
+  }
+}
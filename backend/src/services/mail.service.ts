@@ -0,0 +1,75 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from '../entities/user.entity';
+import { MAIL_TRANSPORT, MailTransport } from './mail/mail-transport';
+
+@Injectable()
+export class MailService {
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Links in emails point at the frontend, which calls back into the API
+  frontendUrl(path: string): string {
+    const baseUrl =
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:8080';
+    return `${baseUrl.replace(/\/$/, '')}${path}`;
+  }
+
+  async sendPasswordReset(
+    user: User,
+    token: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    const resetUrl = this.frontendUrl(
+      `/reset-password?token=${encodeURIComponent(token)}`,
+    );
+    const minutes = Math.round((expiresAt.getTime() - Date.now()) / 60000);
+
+    await this.transport.send({
+      from: this.from(),
+      to: user.email,
+      subject: 'Reset your Raven password',
+      text: [
+        `Hi ${user.displayName || user.username},`,
+        '',
+        'Someone asked to reset the password for your Raven account.',
+        `Open this link within ${minutes} minutes to choose a new one:`,
+        '',
+        resetUrl,
+        '',
+        'If this was not you, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  async sendEmailVerification(user: User, token: string): Promise<void> {
+    const verifyUrl = this.frontendUrl(
+      `/verify-email?token=${encodeURIComponent(token)}`,
+    );
+
+    await this.transport.send({
+      from: this.from(),
+      to: user.email,
+      subject: 'Confirm your email for Raven',
+      text: [
+        `Hi ${user.displayName || user.username},`,
+        '',
+        'Welcome to Raven! Confirm this is your email address by opening:',
+        '',
+        verifyUrl,
+        '',
+        'If you did not create an account, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  private from(): string {
+    return (
+      this.configService.get<string>('MAIL_FROM') ||
+      'Raven <no-reply@localhost>'
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from './mail-transport';
+
+const formatMessage = (message: MailMessage) =>
+  [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    '',
+    message.text,
+  ].join('\n');
+
+// Writes each message to an outbox directory for local development
+export class FileMailTransport implements MailTransport {
+  private readonly logger = new Logger(FileMailTransport.name);
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`;
+    const filePath = join(this.outboxDir, fileName);
+    await writeFile(filePath, formatMessage(message));
+
+    this.logger.log(
+      `Wrote "${message.subject}" for ${message.to} to ${filePath}`,
+    );
+  }
+}
+
+// Prints each message to the server log, the default when nothing is configured
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(`\n${formatMessage(message)}`);
+    return Promise.resolve();
+  }
+}
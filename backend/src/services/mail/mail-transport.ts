@@ -0,0 +1,14 @@
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Delivers a fully built message, MailService decides what gets sent
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,135 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Subject } from 'rxjs';
+import { Message } from '../entities/message.entity';
+import { Room } from '../entities/room.entity';
+import { Channel } from '../entities/channel.entity';
+import { User } from '../entities/user.entity';
+import { RoomMembership } from '../entities/room-membership.entity';
+import { ChannelMembership } from '../entities/channel-membership.entity';
+import { findMentions, HERE_MENTION, ROOM_MENTION } from '../shared/markdown';
+
+export interface MessageMentions {
+  mentionedUserIds: string[];
+  mentionsHere: boolean;
+  mentionsRoom: boolean;
+}
+
+@Injectable()
+export class MentionService {
+  // Emits the users a new or edited message mentions for the first time
+  readonly mentioned = new Subject<{ message: Message; userIds: string[] }>();
+
+  constructor(
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectRepository(RoomMembership)
+    private roomMembershipRepository: Repository<RoomMembership>,
+    @InjectRepository(ChannelMembership)
+    private channelMembershipRepository: Repository<ChannelMembership>,
+  ) {}
+
+  // Only users who can read the channel are mentioned, never the author.
+  // @room reaches every member, @here the members online right now.
+  async resolve(
+    room: Room,
+    channel: Channel,
+    authorId: string,
+    content: string,
+  ): Promise<MessageMentions> {
+    const names = findMentions(content);
+    const mentionsHere = names.includes(HERE_MENTION);
+    const mentionsRoom = names.includes(ROOM_MENTION);
+    const usernames = names.filter(
+      (name) => name !== HERE_MENTION && name !== ROOM_MENTION,
+    );
+
+    const userIds = new Set<string>();
+
+    if (usernames.length) {
+      const users = await this.userRepository
+        .createQueryBuilder('user')
+        .select(['user.id'])
+        .where('LOWER(user.username) IN (:...usernames)', { usernames })
+        .getMany();
+
+      // Anyone can read a public room, private ones only their members
+      const memberIds = room.isPrivate
+        ? await this.findMemberIds(
+            room,
+            users.map((user) => user.id),
+          )
+        : null;
+
+      users
+        .filter((user) => !memberIds || memberIds.has(user.id))
+        .forEach((user) => userIds.add(user.id));
+    }
+
+    if (mentionsRoom || mentionsHere) {
+      const memberships = await this.roomMembershipRepository.find({
+        where: { roomId: room.id },
+        relations: ['user'],
+      });
+
+      memberships
+        .filter((membership) => mentionsRoom || membership.user?.isOnline)
+        .forEach((membership) => userIds.add(membership.userId));
+    }
+
+    userIds.delete(authorId);
+
+    if (channel.isPrivate && userIds.size) {
+      const channelMembers = await this.channelMembershipRepository.find({
+        select: { userId: true },
+        where: { channelId: channel.id, userId: In([...userIds]) },
+      });
+      const channelMemberIds = new Set(
+        channelMembers.map((member) => member.userId),
+      );
+      userIds.forEach((userId) => {
+        if (!channelMemberIds.has(userId)) {
+          userIds.delete(userId);
+        }
+      });
+    }
+
+    return {
+      mentionedUserIds: [...userIds],
+      mentionsHere,
+      mentionsRoom,
+    };
+  }
+
+  // Edits only notify the users who were not mentioned before
+  notify(message: Message, previousUserIds: string[] = []) {
+    const previous = new Set(previousUserIds);
+    const userIds = message.mentionedUserIds.filter(
+      (userId) => !previous.has(userId),
+    );
+
+    if (userIds.length) {
+      this.mentioned.next({ message, userIds });
+    }
+  }
+
+  // The owner counts as a member even without a membership row
+  private async findMemberIds(
+    room: Room,
+    userIds: string[],
+  ): Promise<Set<string>> {
+    if (userIds.length === 0) {
+      return new Set();
+    }
+
+    const memberships = await this.roomMembershipRepository.find({
+      select: { userId: true },
+      where: { roomId: room.id, userId: In(userIds) },
+    });
+    return new Set([
+      room.ownerId,
+      ...memberships.map((membership) => membership.userId),
+    ]);
+  }
+}
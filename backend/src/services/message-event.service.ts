@@ -0,0 +1,119 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, LessThan, Repository } from 'typeorm';
+import { Message } from '../entities/message.entity';
+import {
+  MessageEvent,
+  MessageEventType,
+} from '../entities/message-event.entity';
+import { Room } from '../entities/room.entity';
+
+// Clients that were away for longer reload the history instead of replaying it
+const EVENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// How often events past their retention are deleted
+const EVENT_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Larger gaps are cheaper to close by reloading the latest page
+const MAX_REPLAYED_EVENTS = 500;
+
+@Injectable()
+export class MessageEventService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MessageEventService.name);
+
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(MessageEvent)
+    private eventRepository: Repository<MessageEvent>,
+    @InjectRepository(Room)
+    private roomRepository: Repository<Room>,
+  ) {}
+
+  onModuleInit() {
+    this.sweepTimer = setInterval(() => {
+      this.deleteExpired().catch((error: unknown) => {
+        this.logger.error(
+          'Failed to delete expired message events',
+          error instanceof Error ? error.stack : String(error),
+        );
+      });
+    }, EVENT_SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  // Returns the sequence number given to the event
+  async record(message: Message, type: MessageEventType): Promise<number> {
+    // Incrementing the counter in place hands out every number only once
+    const result = await this.roomRepository
+      .createQueryBuilder()
+      .update(Room)
+      .set({ eventSeq: () => 'event_seq + 1' })
+      .where('id = :id', { id: message.roomId })
+      .returning('event_seq')
+      .execute();
+
+    const seq = Number((result.raw as { event_seq: number }[])[0].event_seq);
+
+    await this.eventRepository.insert({
+      roomId: message.roomId,
+      seq,
+      type,
+      messageId: message.id,
+      channelId: message.channelId,
+      parentMessageId: message.parentMessageId,
+    });
+
+    return seq;
+  }
+
+  async findCurrentSeq(roomId: string): Promise<number> {
+    const room = await this.roomRepository.findOne({
+      where: { id: roomId },
+      select: ['id', 'eventSeq'],
+    });
+
+    return room?.eventSeq ?? 0;
+  }
+
+  // Events of a channel in the given range, oldest first. Null when they
+  // cannot all be replayed, because there are too many or some were deleted
+  async findBetween(
+    roomId: string,
+    channelId: string,
+    afterSeq: number,
+    untilSeq: number,
+  ): Promise<MessageEvent[] | null> {
+    // Check if the start of the range is still kept, numbers are per room
+    const oldest = await this.eventRepository.findOne({
+      where: { roomId },
+      order: { seq: 'ASC' },
+    });
+
+    if (!oldest || oldest.seq > afterSeq + 1) {
+      return null;
+    }
+
+    const events = await this.eventRepository.find({
+      where: { roomId, channelId, seq: Between(afterSeq + 1, untilSeq) },
+      order: { seq: 'ASC' },
+      take: MAX_REPLAYED_EVENTS + 1,
+    });
+
+    return events.length > MAX_REPLAYED_EVENTS ? null : events;
+  }
+
+  private async deleteExpired() {
+    await this.eventRepository.delete({
+      createdAt: LessThan(new Date(Date.now() - EVENT_RETENTION_MS)),
+    });
+  }
+}
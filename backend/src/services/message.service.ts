@@ -1,32 +1,184 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
+  OnModuleDestroy,
+  OnModuleInit,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Brackets, In, IsNull, LessThan, Repository } from 'typeorm';
+import { isUUID } from 'class-validator';
 import { Message } from '../entities/message.entity';
 import { Room } from '../entities/room.entity';
-import { RoomMembership } from '../entities/room-membership.entity';
+import { Channel } from '../entities/channel.entity';
+import { MessageEventType } from '../entities/message-event.entity';
+import { Attachment } from '../entities/attachment.entity';
+import { MessageRevision } from '../entities/message-revision.entity';
+import { toPlainText } from '../shared/markdown';
+import { MentionService } from './mention.service';
+import { User } from '../entities/user.entity';
+import {
+  MessageReaction,
+  ReactionSummary,
+} from '../entities/message-reaction.entity';
 import { CreateMessageDto } from '../dto/message/create-message.dto';
 import { UpdateMessageDto } from '../dto/message/update-message.dto';
+import { ChannelService } from './channel.service';
+import { MessageEventService } from './message-event.service';
+import {
+  RoomPermission,
+  RoomPermissionService,
+} from './room-permission.service';
+
+export interface SearchMessagesOptions {
+  query: string;
+  roomId?: string;
+  authorId?: string;
+  from?: Date;
+  to?: Date;
+  hasThread?: boolean;
+  mentionsMe?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MessagePageOptions {
+  channelId?: string;
+  limit?: number;
+  // Opaque cursors taken from a previous page
+  before?: string;
+  after?: string;
+  // ID of a message to center the page on
+  around?: string;
+}
+
+export interface MessagePage {
+  // Oldest first
+  messages: Message[];
+  // Null once the start or the end of the channel is reached
+  olderCursor: string | null;
+  newerCursor: string | null;
+  // Room event the page is up to date with, see findChanges
+  eventSeq: number;
+}
+
+// What changed in a channel since a client last saw an event of its room
+export interface MessageChanges {
+  eventSeq: number;
+  // Set when the changes cannot be replayed and the history has to be reloaded
+  reset: boolean;
+  // Current versions of new and changed top-level messages, thread parents included
+  messages: Message[];
+  deletedIds: string[];
+  // Threads whose replies changed
+  threadIds: string[];
+}
+
+// One version of a message's content, see findHistory
+export interface MessageVersion {
+  content: string;
+  // When this version was sent or written by an edit
+  createdAt: Date;
+  current: boolean;
+}
+
+// What clients need to drop a purged message, see purge
+export interface PurgedMessage {
+  id: string;
+  roomId: string;
+  channelId: string;
+  parentMessageId: string | null;
+  eventSeq: number;
+}
+
+interface MessageSlice {
+  messages: Message[];
+  hasMore: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+const MAX_ATTACHMENTS = 10;
+
+// Deleted messages can be restored for this long before they are purged
+const DEFAULT_DELETED_RETENTION_DAYS = 30;
+
+// How often deleted messages past their retention are purged
+const PURGE_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Authors can edit their messages for this long after sending, 0 lifts the limit
+const DEFAULT_EDIT_WINDOW_MINUTES = 15;
 
 @Injectable()
-export class MessageService {
+export class MessageService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MessageService.name);
+
+  private sweepTimer?: NodeJS.Timeout;
+
   constructor(
     @InjectRepository(Message)
     private messageRepository: Repository<Message>,
     @InjectRepository(Room)
     private roomRepository: Repository<Room>,
-    @InjectRepository(RoomMembership)
-    private roomMembershipRepository: Repository<RoomMembership>,
+    @InjectRepository(MessageReaction)
+    private reactionRepository: Repository<MessageReaction>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectRepository(Attachment)
+    private attachmentRepository: Repository<Attachment>,
+    @InjectRepository(MessageRevision)
+    private revisionRepository: Repository<MessageRevision>,
+    private channelService: ChannelService,
+    private roomPermissionService: RoomPermissionService,
+    private messageEventService: MessageEventService,
+    private mentionService: MentionService,
+    private configService: ConfigService,
   ) {}
 
+  async onModuleInit() {
+    await this.messageRepository.query(
+      'CREATE INDEX IF NOT EXISTS "IDX_message_search_vector" ON "message" USING GIN ("search_vector")',
+    );
+
+    this.sweepTimer = setInterval(() => {
+      this.purgeExpired().catch((error: unknown) => {
+        this.logger.error(
+          'Failed to purge deleted messages',
+          error instanceof Error ? error.stack : String(error),
+        );
+      });
+    }, PURGE_SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
   async create(
     userId: string,
     createMessageDto: CreateMessageDto,
   ): Promise<Message> {
-    const { roomId, content } = createMessageDto;
+    const { roomId, content, parentMessageId, clientMessageId } =
+      createMessageDto;
+    const attachmentIds = [...new Set(createMessageDto.attachmentIds ?? [])];
+    let { channelId } = createMessageDto;
+
+    // Retried sends get the message saved the first time, without an eventSeq
+    // as nothing changed
+    if (clientMessageId) {
+      const existing = await this.findByClientMessageId(
+        userId,
+        clientMessageId,
+      );
+
+      if (existing) {
+        return existing;
+      }
+    }
 
     // Check if the room exists
     const room = await this.roomRepository.findOne({
@@ -37,46 +189,484 @@ export class MessageService {
       throw new NotFoundException(`Room with ID ${roomId} not found`);
     }
 
-    // Check if the user is a member of the room only if the room is private
-    if (room.isPrivate) {
-      const membership = await this.roomMembershipRepository.findOne({
-        where: { roomId, userId },
+    await this.assertCanPost(room, userId);
+
+    // Unverified accounts can be restricted to private rooms and direct messages
+    if (!room.isPrivate && !room.isDirect) {
+      await this.assertEmailVerified(userId);
+    }
+
+    // Replies must point at a top-level message in the same room
+    if (parentMessageId) {
+      const parentMessage = await this.messageRepository.findOne({
+        where: { id: parentMessageId },
       });
 
-      if (!membership && room.ownerId !== userId) {
-        throw new ForbiddenException(
-          'You must be a member of the private room to send messages',
+      if (!parentMessage || parentMessage.roomId !== roomId) {
+        throw new NotFoundException(
+          `Message with ID ${parentMessageId} not found in this room`,
         );
       }
+
+      if (parentMessage.parentMessageId) {
+        throw new BadRequestException('Cannot reply to a thread reply');
+      }
+
+      if (parentMessage.deletedAt) {
+        throw new BadRequestException('Cannot reply to a deleted message');
+      }
+
+      // Replies always live in the channel of their parent
+      channelId = parentMessage.channelId ?? undefined;
     }
 
-    // Create and save the message
-    const message = this.messageRepository.create({
-      content,
-      roomId,
+    // Messages without a channel go to the room's default channel
+    const channel = channelId
+      ? await this.channelService.findOne(channelId, userId)
+      : await this.channelService.findDefault(roomId);
+
+    if (channel.roomId !== roomId) {
+      throw new NotFoundException(
+        `Channel with ID ${channel.id} not found in this room`,
+      );
+    }
+
+    // Check if there is anything to send, files alone are enough
+    if (!content?.trim() && attachmentIds.length === 0) {
+      throw new BadRequestException('A message needs content or attachments');
+    }
+
+    // Check if the attachments are the user's own unsent uploads to this room
+    const attachments = attachmentIds.length
+      ? await this.attachmentRepository.find({
+          where: {
+            id: In(attachmentIds),
+            roomId,
+            uploaderId: userId,
+            messageId: IsNull(),
+          },
+          order: { createdAt: 'ASC' },
+        })
+      : [];
+
+    if (
+      attachmentIds.length > MAX_ATTACHMENTS ||
+      attachments.length !== attachmentIds.length
+    ) {
+      throw new BadRequestException(
+        `Up to ${MAX_ATTACHMENTS} of your own unsent uploads to this room can be attached`,
+      );
+    }
+
+    const mentions = await this.mentionService.resolve(
+      room,
+      channel,
       userId,
-    });
+      content ?? '',
+    );
+
+    // Create and save the message, a concurrent retry may have saved it already
+    const result = await this.messageRepository
+      .createQueryBuilder()
+      .insert()
+      .into(Message)
+      .values({
+        content: content ?? '',
+        plainText: toPlainText(content ?? ''),
+        ...mentions,
+        roomId,
+        userId,
+        channelId: channel.id,
+        parentMessageId: parentMessageId ?? null,
+        clientMessageId: clientMessageId ?? null,
+      })
+      .orIgnore()
+      .returning('id')
+      .execute();
 
-    await this.messageRepository.save(message);
+    const [inserted] = result.raw as { id: string }[];
+
+    if (!inserted && clientMessageId) {
+      const existing = await this.findByClientMessageId(
+        userId,
+        clientMessageId,
+      );
+
+      if (existing) {
+        return existing;
+      }
+    }
 
     // Fetch the complete message with user relation
-    const savedMessage = await this.messageRepository.findOne({
-      where: { id: message.id },
-      relations: ['user'],
-    });
+    const savedMessage = inserted
+      ? await this.messageRepository.findOne({
+          where: { id: inserted.id },
+          relations: ['user'],
+        })
+      : null;
 
     if (!savedMessage) {
-      throw new NotFoundException(`Message with ID ${message.id} not found`);
+      throw new NotFoundException('Message could not be saved');
+    }
+
+    if (attachments.length) {
+      await this.attachmentRepository.update(
+        { id: In(attachmentIds), messageId: IsNull() },
+        { messageId: savedMessage.id },
+      );
     }
+    savedMessage.attachments = attachments.map((attachment) => ({
+      ...attachment,
+      messageId: savedMessage.id,
+    }));
+
+    savedMessage.eventSeq = await this.messageEventService.record(
+      savedMessage,
+      MessageEventType.CREATED,
+    );
+    this.mentionService.notify(savedMessage);
 
     return savedMessage;
   }
 
-  async findAllByRoom(
+  async findByClientMessageId(
+    userId: string,
+    clientMessageId: string,
+  ): Promise<Message | null> {
+    const message = await this.messageRepository.findOne({
+      where: { userId, clientMessageId },
+      relations: ['user'],
+    });
+
+    if (message) {
+      await this.attachAttachments([message]);
+      this.hideDeleted([message]);
+    }
+
+    return message;
+  }
+
+  async findPage(
+    roomId: string,
+    userId: string,
+    options: MessagePageOptions = {},
+  ): Promise<MessagePage> {
+    const channel = await this.findReadableChannel(
+      roomId,
+      userId,
+      options.channelId,
+    );
+
+    // Check if more than one starting point was given
+    const anchors = [options.before, options.after, options.around].filter(
+      Boolean,
+    );
+
+    if (anchors.length > 1) {
+      throw new BadRequestException(
+        'Only one of before, after and around can be set',
+      );
+    }
+
+    const limit = Math.min(
+      Math.max(options.limit || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE,
+    );
+
+    let older: MessageSlice = { messages: [], hasMore: false };
+    let newer: MessageSlice = { messages: [], hasMore: false };
+
+    if (options.around) {
+      const anchor = await this.messageRepository.findOne({
+        where: { id: options.around },
+      });
+
+      if (!anchor || anchor.channelId !== channel.id) {
+        throw new NotFoundException(
+          `Message with ID ${options.around} not found in this channel`,
+        );
+      }
+
+      // Thread replies are not part of the history, their parent is shown
+      const anchorId = anchor.parentMessageId ?? anchor.id;
+      const olderLimit = Math.floor(limit / 2);
+
+      older = await this.findSlice(channel.id, 'older', anchorId, olderLimit);
+      newer = await this.findSlice(
+        channel.id,
+        'newer',
+        anchorId,
+        limit - olderLimit,
+        true,
+      );
+    } else if (options.after) {
+      const anchorId = await this.decodeCursor(options.after, channel.id);
+      newer = await this.findSlice(channel.id, 'newer', anchorId, limit);
+      older.hasMore = true;
+    } else {
+      // Without a cursor the page ends at the latest message
+      const anchorId = options.before
+        ? await this.decodeCursor(options.before, channel.id)
+        : null;
+      older = await this.findSlice(channel.id, 'older', anchorId, limit);
+      newer.hasMore = anchorId !== null;
+    }
+
+    const messages = [...older.messages, ...newer.messages];
+    const eventSeq = await this.messageEventService.findCurrentSeq(roomId);
+
+    await this.attachThreadSummaries(messages);
+    await this.attachReactions(messages);
+    await this.attachAttachments(messages);
+    this.hideDeleted(messages);
+
+    return {
+      messages,
+      olderCursor:
+        older.hasMore && messages.length > 0
+          ? this.encodeCursor(messages[0])
+          : null,
+      newerCursor:
+        newer.hasMore && messages.length > 0
+          ? this.encodeCursor(messages[messages.length - 1])
+          : null,
+      eventSeq,
+    };
+  }
+
+  async findChanges(
     roomId: string,
     userId: string,
-    options?: { limit?: number; before?: Date },
+    options: { channelId: string; sinceSeq: number },
+  ): Promise<MessageChanges> {
+    const channel = await this.findReadableChannel(
+      roomId,
+      userId,
+      options.channelId,
+    );
+
+    // Later events reach the client live, it has already rejoined the channel
+    const eventSeq = await this.messageEventService.findCurrentSeq(roomId);
+    const changes: MessageChanges = {
+      eventSeq,
+      reset: false,
+      messages: [],
+      deletedIds: [],
+      threadIds: [],
+    };
+
+    if (options.sinceSeq === eventSeq) {
+      return changes;
+    }
+
+    const events =
+      options.sinceSeq < eventSeq
+        ? await this.messageEventService.findBetween(
+            roomId,
+            channel.id,
+            options.sinceSeq,
+            eventSeq,
+          )
+        : null;
+
+    if (!events) {
+      return { ...changes, reset: true };
+    }
+
+    // Soft-deleted messages are sent again as tombstones, only purged ones
+    // are removed
+    const deletedIds = new Set(
+      events
+        .filter((event) => event.type === MessageEventType.PURGED)
+        .map((event) => event.messageId),
+    );
+    const threadIds = new Set(
+      events
+        .filter((event) => event.parentMessageId)
+        .map((event) => event.parentMessageId as string),
+    );
+
+    // Thread parents are sent again for their reply counts
+    const changedIds = [
+      ...events
+        .filter((event) => !event.parentMessageId)
+        .map((event) => event.messageId),
+      ...threadIds,
+    ].filter((id) => !deletedIds.has(id));
+
+    const messages = changedIds.length
+      ? await this.messageRepository.find({
+          where: { id: In([...new Set(changedIds)]) },
+          relations: ['user'],
+          order: { createdAt: 'ASC' },
+        })
+      : [];
+
+    await this.attachThreadSummaries(messages);
+    await this.attachReactions(messages);
+    await this.attachAttachments(messages);
+    this.hideDeleted(messages);
+
+    return {
+      ...changes,
+      messages,
+      deletedIds: [...deletedIds],
+      threadIds: [...threadIds].filter((id) => !deletedIds.has(id)),
+    };
+  }
+
+  async search(
+    userId: string,
+    options: SearchMessagesOptions,
   ): Promise<Message[]> {
+    if (options.roomId) {
+      // Check if the room exists
+      const room = await this.roomRepository.findOne({
+        where: { id: options.roomId },
+      });
+
+      if (!room) {
+        throw new NotFoundException(`Room with ID ${options.roomId} not found`);
+      }
+
+      // Check if the user has a role in the room, private rooms need a membership
+      if (!(await this.roomPermissionService.getRole(room, userId))) {
+        throw new ForbiddenException(
+          'You must be a member of the room to search its messages',
+        );
+      }
+    }
+
+    const queryBuilder = this.messageRepository
+      .createQueryBuilder('message')
+      .innerJoinAndSelect('message.room', 'room')
+      .leftJoinAndSelect('message.user', 'user')
+      .leftJoin('message.channel', 'channel')
+      .where(
+        "message.searchVector @@ websearch_to_tsquery('english', :query)",
+        {
+          query: options.query,
+          userId,
+        },
+      )
+      .andWhere('message.deletedAt IS NULL')
+      // Same visibility rules as listing a room, applied to every room at once
+      .andWhere(
+        new Brackets((qb) =>
+          qb
+            .where('room.isPrivate = false')
+            .orWhere('room.ownerId = :userId')
+            .orWhere(
+              'EXISTS (SELECT 1 FROM "room-memberships" rm WHERE rm.room_id = room.id AND rm.user_id = :userId)',
+            ),
+        ),
+      )
+      .andWhere(
+        new Brackets((qb) =>
+          qb
+            .where('channel.id IS NULL')
+            .orWhere('channel.isPrivate = false')
+            // Roles that manage channels read private ones, see ChannelService
+            .orWhere('room.ownerId = :userId')
+            .orWhere(
+              'EXISTS (SELECT 1 FROM "room-memberships" rm WHERE rm.room_id = room.id AND rm.user_id = :userId AND rm.role IN (:...channelManagerRoles))',
+              {
+                channelManagerRoles: this.roomPermissionService.rolesWith(
+                  RoomPermission.MANAGE_CHANNELS,
+                ),
+              },
+            )
+            .orWhere(
+              'EXISTS (SELECT 1 FROM "channel-memberships" cm WHERE cm.channel_id = channel.id AND cm.user_id = :userId)',
+            ),
+        ),
+      );
+
+    if (options.roomId) {
+      queryBuilder.andWhere('message.roomId = :roomId', {
+        roomId: options.roomId,
+      });
+    }
+
+    if (options.authorId) {
+      queryBuilder.andWhere('message.userId = :authorId', {
+        authorId: options.authorId,
+      });
+    }
+
+    if (options.from) {
+      queryBuilder.andWhere('message.createdAt >= :from', {
+        from: options.from,
+      });
+    }
+
+    if (options.to) {
+      queryBuilder.andWhere('message.createdAt <= :to', { to: options.to });
+    }
+
+    if (options.hasThread) {
+      queryBuilder.andWhere(
+        'EXISTS (SELECT 1 FROM "message" reply WHERE reply.parent_message_id = message.id)',
+      );
+    }
+
+    if (options.mentionsMe) {
+      queryBuilder.andWhere(':userId = ANY(message.mentioned_user_ids)');
+    }
+
+    // Best matches first, newest first among equally good matches
+    const messages = await queryBuilder
+      .orderBy(
+        "ts_rank(message.searchVector, websearch_to_tsquery('english', :query))",
+        'DESC',
+      )
+      .addOrderBy('message.createdAt', 'DESC')
+      .limit(options.limit ?? 20)
+      .offset(options.offset ?? 0)
+      .getMany();
+
+    return this.attachAttachments(messages);
+  }
+
+  async findReplies(id: string, userId: string): Promise<Message[]> {
+    // Reuse the access checks on the parent message
+    const parentMessage = await this.findOne(id, userId);
+
+    if (parentMessage.parentMessageId) {
+      throw new BadRequestException('Thread replies do not have replies');
+    }
+
+    const replies = await this.messageRepository.find({
+      where: { parentMessageId: id },
+      relations: ['user'],
+      order: { createdAt: 'ASC' },
+    });
+
+    await this.attachReactions(replies);
+    await this.attachAttachments(replies);
+    return this.hideDeleted(replies);
+  }
+
+  // Archived rooms are read-only for every role, and guests cannot post.
+  // Checked here so REST routes, gateway handlers and reactions share one rule
+  async assertCanPost(room: Room, userId: string): Promise<void> {
+    if (room.archivedAt) {
+      throw new ForbiddenException('This room is archived');
+    }
+
+    await this.roomPermissionService.assertPermission(
+      room,
+      userId,
+      RoomPermission.SEND_MESSAGES,
+    );
+  }
+
+  // Also used by the gateway to check access before joining a channel
+  async findReadableChannel(
+    roomId: string,
+    userId: string,
+    channelId?: string,
+  ): Promise<Channel> {
     // Check if the room exists
     const room = await this.roomRepository.findOne({
       where: { id: roomId },
@@ -86,37 +676,195 @@ export class MessageService {
       throw new NotFoundException(`Room with ID ${roomId} not found`);
     }
 
-    // Check if the user is a member of the room if it's private
-    if (room.isPrivate) {
-      const membership = await this.roomMembershipRepository.findOne({
-        where: { roomId, userId },
-      });
+    // Check if the user has a role in the room, private rooms need a membership
+    if (!(await this.roomPermissionService.getRole(room, userId))) {
+      throw new ForbiddenException(
+        'You must be a member of the room to view messages',
+      );
+    }
 
-      if (!membership && room.ownerId !== userId) {
-        throw new ForbiddenException(
-          'You must be a member of the room to view messages',
-        );
-      }
+    // Without an explicit channel the room's default channel is listed
+    const channel = channelId
+      ? await this.channelService.findOne(channelId, userId)
+      : await this.channelService.findDefault(roomId);
+
+    if (channel.roomId !== roomId) {
+      throw new NotFoundException(
+        `Channel with ID ${channel.id} not found in this room`,
+      );
+    }
+
+    return channel;
+  }
+
+  // Top-level messages of a channel on one side of an anchor, oldest first.
+  // The anchor is compared as a whole row so messages sharing a timestamp
+  // are neither skipped nor repeated
+  private async findSlice(
+    channelId: string,
+    direction: 'older' | 'newer',
+    anchorId: string | null,
+    limit: number,
+    includeAnchor = false,
+  ): Promise<MessageSlice> {
+    if (limit === 0) {
+      return { messages: [], hasMore: anchorId !== null };
     }
 
-    // Build query with optional pagination
+    const order = direction === 'older' ? 'DESC' : 'ASC';
     const queryBuilder = this.messageRepository
       .createQueryBuilder('message')
-      .where('message.roomId = :roomId', { roomId })
       .leftJoinAndSelect('message.user', 'user')
-      .orderBy('message.createdAt', 'DESC');
+      .where('message.channelId = :channelId', { channelId })
+      .andWhere('message.parentMessageId IS NULL')
+      .orderBy('message.createdAt', order)
+      .addOrderBy('message.id', order)
+      // One extra row tells whether there is another page
+      .limit(limit + 1);
 
-    if (options?.before) {
-      queryBuilder.andWhere('message.createdAt < :before', {
-        before: options.before,
-      });
+    if (anchorId) {
+      const operator =
+        (direction === 'older' ? '<' : '>') + (includeAnchor ? '=' : '');
+      const anchorQuery = queryBuilder
+        .subQuery()
+        .select('anchor.createdAt')
+        .addSelect('anchor.id')
+        .from(Message, 'anchor')
+        .where('anchor.id = :anchorId')
+        .getQuery();
+
+      queryBuilder.andWhere(
+        `(message.createdAt, message.id) ${operator} ${anchorQuery}`,
+        { anchorId },
+      );
+    }
+
+    const messages = await queryBuilder.getMany();
+    const hasMore = messages.length > limit;
+    const page = messages.slice(0, limit);
+
+    return {
+      messages: direction === 'older' ? page.reverse() : page,
+      hasMore,
+    };
+  }
+
+  private encodeCursor(message: Message): string {
+    return Buffer.from(message.id).toString('base64url');
+  }
+
+  private async decodeCursor(
+    cursor: string,
+    channelId: string,
+  ): Promise<string> {
+    const id = Buffer.from(cursor, 'base64url').toString();
+
+    // Check if the cursor points at a top-level message of this channel
+    const message = isUUID(id)
+      ? await this.messageRepository.findOne({ where: { id } })
+      : null;
+
+    if (
+      !message ||
+      message.channelId !== channelId ||
+      message.parentMessageId
+    ) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return message.id;
+  }
+
+  private async attachThreadSummaries(messages: Message[]): Promise<Message[]> {
+    if (messages.length === 0) {
+      return messages;
     }
 
-    if (options?.limit) {
-      queryBuilder.take(options.limit);
+    const summaries: {
+      parentMessageId: string;
+      replyCount: string;
+      lastReplyAt: Date;
+    }[] = await this.messageRepository
+      .createQueryBuilder('reply')
+      .select('reply.parentMessageId', 'parentMessageId')
+      .addSelect('COUNT(reply.id)', 'replyCount')
+      .addSelect('MAX(reply.createdAt)', 'lastReplyAt')
+      .where('reply.parentMessageId IN (:...ids)', {
+        ids: messages.map((message) => message.id),
+      })
+      .groupBy('reply.parentMessageId')
+      .getRawMany();
+
+    const summariesById = new Map(
+      summaries.map((summary) => [summary.parentMessageId, summary]),
+    );
+
+    return messages.map((message) => {
+      const summary = summariesById.get(message.id);
+      message.replyCount = summary ? Number(summary.replyCount) : 0;
+      message.lastReplyAt = summary ? summary.lastReplyAt : null;
+      return message;
+    });
+  }
+
+  async attachAttachments(messages: Message[]): Promise<Message[]> {
+    if (messages.length === 0) {
+      return messages;
     }
 
-    return queryBuilder.getMany();
+    const attachments = await this.attachmentRepository.find({
+      where: { messageId: In(messages.map((message) => message.id)) },
+      order: { createdAt: 'ASC' },
+    });
+
+    return messages.map((message) => {
+      message.attachments = attachments.filter(
+        (attachment) => attachment.messageId === message.id,
+      );
+      return message;
+    });
+  }
+
+  async attachReactions(messages: Message[]): Promise<Message[]> {
+    if (messages.length === 0) {
+      return messages;
+    }
+
+    // Grouped per emoji, in the order each emoji was first used
+    const rows: {
+      messageId: string;
+      emoji: string;
+      count: string;
+      userIds: string[];
+    }[] = await this.reactionRepository
+      .createQueryBuilder('reaction')
+      .select('reaction.messageId', 'messageId')
+      .addSelect('reaction.emoji', 'emoji')
+      .addSelect('COUNT(reaction.id)', 'count')
+      .addSelect('ARRAY_AGG(reaction.userId)', 'userIds')
+      .where('reaction.messageId IN (:...ids)', {
+        ids: messages.map((message) => message.id),
+      })
+      .groupBy('reaction.messageId')
+      .addGroupBy('reaction.emoji')
+      .orderBy('MIN(reaction.createdAt)', 'ASC')
+      .getRawMany();
+
+    const reactionsById = new Map<string, ReactionSummary[]>();
+    rows.forEach((row) => {
+      const reactions = reactionsById.get(row.messageId) ?? [];
+      reactions.push({
+        emoji: row.emoji,
+        count: Number(row.count),
+        userIds: row.userIds,
+      });
+      reactionsById.set(row.messageId, reactions);
+    });
+
+    return messages.map((message) => {
+      message.reactions = reactionsById.get(message.id) ?? [];
+      return message;
+    });
   }
 
   async findOne(id: string, userId: string): Promise<Message> {
@@ -132,17 +880,17 @@ export class MessageService {
     // Check if the user can access the room where the message is
     const room = message.room;
 
-    if (room.isPrivate) {
-      const membership = await this.roomMembershipRepository.findOne({
-        where: { roomId: room.id, userId },
-      });
+    if (!(await this.roomPermissionService.getRole(room, userId))) {
+      throw new ForbiddenException('You do not have access to this message');
+    }
 
-      if (!membership && room.ownerId !== userId) {
-        throw new ForbiddenException('You do not have access to this message');
-      }
+    // Private channels are restricted further than their room
+    if (message.channelId) {
+      await this.channelService.findOne(message.channelId, userId);
     }
 
-    return message;
+    const [visibleMessage] = this.hideDeleted([message]);
+    return visibleMessage;
   }
 
   async update(
@@ -152,7 +900,7 @@ export class MessageService {
   ): Promise<Message> {
     const message = await this.messageRepository.findOne({
       where: { id },
-      relations: ['room'],
+      relations: ['room', 'channel'],
     });
 
     if (!message) {
@@ -164,7 +912,43 @@ export class MessageService {
       throw new ForbiddenException('You can only edit your own messages');
     }
 
-    await this.messageRepository.update(id, updateMessageDto);
+    await this.assertCanPost(message.room, userId);
+
+    if (message.deletedAt) {
+      throw new BadRequestException('Deleted messages cannot be edited');
+    }
+
+    // Check if the message is still within the edit window
+    const editWindowMinutes = this.editWindowMinutes();
+    if (
+      editWindowMinutes > 0 &&
+      Date.now() - message.createdAt.getTime() > editWindowMinutes * 60 * 1000
+    ) {
+      throw new ForbiddenException(
+        `Messages can only be edited within ${editWindowMinutes} minutes of sending`,
+      );
+    }
+
+    const mentions = await this.mentionService.resolve(
+      message.room,
+      message.channel,
+      userId,
+      updateMessageDto.content,
+    );
+
+    // The replaced content is kept, so every version can be looked up later
+    await this.messageRepository.manager.transaction(async (manager) => {
+      await manager.insert(MessageRevision, {
+        messageId: id,
+        content: message.content,
+      });
+      await manager.update(Message, id, {
+        ...updateMessageDto,
+        plainText: toPlainText(updateMessageDto.content),
+        ...mentions,
+        editedAt: new Date(),
+      });
+    });
 
     const updatedMessage = await this.messageRepository.findOne({
       where: { id },
@@ -175,25 +959,239 @@ export class MessageService {
       throw new NotFoundException(`Message with ID ${id} not found`);
     }
 
+    await this.attachAttachments([updatedMessage]);
+
+    updatedMessage.eventSeq = await this.messageEventService.record(
+      updatedMessage,
+      MessageEventType.UPDATED,
+    );
+
+    // Users already mentioned before the edit are not notified again
+    this.mentionService.notify(updatedMessage, message.mentionedUserIds);
+
     return updatedMessage;
   }
-  async remove(id: string, userId: string): Promise<void> {
+
+  // Every version of the message, oldest first and the current one last, for
+  // anyone who can read it. Deleted messages only for those who can restore them
+  async findHistory(id: string, userId: string): Promise<MessageVersion[]> {
+    // Reuse the access checks on the message, which hide deleted content
+    const visibleMessage = await this.findOne(id, userId);
+
+    if (visibleMessage.deletedAt) {
+      await this.roomPermissionService.assertPermission(
+        visibleMessage.room,
+        userId,
+        RoomPermission.DELETE_ANY_MESSAGE,
+      );
+    }
+
+    const message = await this.messageRepository.findOneOrFail({
+      where: { id },
+    });
+
+    const revisions = await this.revisionRepository.find({
+      where: { messageId: id },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+
+    // Each revision was written when the one before it was replaced
+    const versions = revisions.map((revision, index) => ({
+      content: revision.content,
+      createdAt:
+        index === 0 ? message.createdAt : revisions[index - 1].createdAt,
+      current: false,
+    }));
+
+    return [
+      ...versions,
+      {
+        content: message.content,
+        createdAt: message.editedAt ?? message.createdAt,
+        current: true,
+      },
+    ];
+  }
+
+  // Leaves a tombstone in place of the message, its thread replies stay
+  async remove(id: string, userId: string): Promise<Message> {
+    const message = await this.messageRepository.findOne({
+      where: { id },
+      relations: ['room', 'user'],
+    });
+
+    if (!message || message.deletedAt) {
+      throw new NotFoundException(`Message with ID ${id} not found`);
+    }
+
+    // Authors must still be allowed to post, anyone else must moderate the room
+    if (message.userId === userId) {
+      await this.assertCanPost(message.room, userId);
+    } else if (message.room.archivedAt) {
+      throw new ForbiddenException('This room is archived');
+    } else if (
+      !(await this.roomPermissionService.can(
+        message.room,
+        userId,
+        RoomPermission.DELETE_ANY_MESSAGE,
+      ))
+    ) {
+      throw new ForbiddenException(
+        'You can only delete your own messages unless you moderate the room',
+      );
+    }
+
+    message.deletedAt = new Date();
+    message.deletedById = userId;
+    await this.messageRepository.update(id, {
+      deletedAt: message.deletedAt,
+      deletedById: userId,
+    });
+
+    message.eventSeq = await this.messageEventService.record(
+      message,
+      MessageEventType.DELETED,
+    );
+
+    const [tombstone] = this.hideDeleted([message]);
+    return tombstone;
+  }
+
+  async restore(id: string, userId: string): Promise<Message> {
+    const message = await this.findDeleted(id, userId);
+
+    await this.messageRepository.update(id, {
+      deletedAt: null,
+      deletedById: null,
+    });
+
+    const restoredMessage = await this.messageRepository.findOneOrFail({
+      where: { id },
+      relations: ['user'],
+    });
+
+    await this.attachThreadSummaries([restoredMessage]);
+    await this.attachReactions([restoredMessage]);
+    await this.attachAttachments([restoredMessage]);
+
+    restoredMessage.eventSeq = await this.messageEventService.record(
+      message,
+      MessageEventType.RESTORED,
+    );
+
+    return restoredMessage;
+  }
+
+  // Removes a deleted message for good, along with its thread
+  async purge(id: string, userId: string): Promise<PurgedMessage> {
+    const message = await this.findDeleted(id, userId);
+    return this.purgeMessage(message);
+  }
+
+  // Purged without a live broadcast, clients still showing the tombstone
+  // drop it the next time they load the channel
+  private async purgeExpired() {
+    const retentionDays = Number(
+      this.configService.get<string>('DELETED_MESSAGE_RETENTION_DAYS') ||
+        DEFAULT_DELETED_RETENTION_DAYS,
+    );
+    const messages = await this.messageRepository.find({
+      where: {
+        deletedAt: LessThan(
+          new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000),
+        ),
+      },
+    });
+
+    for (const message of messages) {
+      await this.purgeMessage(message);
+    }
+  }
+
+  // Attachments are unlinked rather than deleted, their files are cleaned up
+  // with unsent uploads by AttachmentService. Reactions and revisions cascade.
+  private async purgeMessage(message: Message): Promise<PurgedMessage> {
+    await this.messageRepository.manager.transaction(async (manager) => {
+      await manager.delete(Message, { parentMessageId: message.id });
+      await manager.delete(Message, { id: message.id });
+    });
+
+    const eventSeq = await this.messageEventService.record(
+      message,
+      MessageEventType.PURGED,
+    );
+
+    return {
+      id: message.id,
+      roomId: message.roomId,
+      channelId: message.channelId,
+      parentMessageId: message.parentMessageId,
+      eventSeq,
+    };
+  }
+
+  // Deleted messages can only be restored or purged by moderators
+  private async findDeleted(id: string, userId: string): Promise<Message> {
     const message = await this.messageRepository.findOne({
       where: { id },
       relations: ['room'],
     });
 
+    // Check if the message exists and was deleted
     if (!message) {
       throw new NotFoundException(`Message with ID ${id} not found`);
     }
 
-    // Only the message author or room owner can delete the message
-    if (message.userId !== userId && message.room.ownerId !== userId) {
+    await this.roomPermissionService.assertPermission(
+      message.room,
+      userId,
+      RoomPermission.DELETE_ANY_MESSAGE,
+    );
+
+    if (!message.deletedAt) {
+      throw new BadRequestException('This message has not been deleted');
+    }
+
+    return message;
+  }
+
+  // Tombstones keep their place in the channel and their thread, but nothing
+  // of what was said
+  private hideDeleted(messages: Message[]): Message[] {
+    messages
+      .filter((message) => message.deletedAt)
+      .forEach((message) => {
+        message.content = '';
+        message.mentionedUserIds = [];
+        message.mentionsHere = false;
+        message.mentionsRoom = false;
+        message.reactions = [];
+        message.attachments = [];
+      });
+
+    return messages;
+  }
+
+  private editWindowMinutes(): number {
+    return Number(
+      this.configService.get<string>('MESSAGE_EDIT_WINDOW_MINUTES') ||
+        DEFAULT_EDIT_WINDOW_MINUTES,
+    );
+  }
+
+  private async assertEmailVerified(userId: string): Promise<void> {
+    if (
+      this.configService.get<string>('REQUIRE_EMAIL_VERIFICATION') !== 'true'
+    ) {
+      return;
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user?.emailVerified) {
       throw new ForbiddenException(
-        'You can only delete your own messages or messages in rooms you own',
+        'Verify your email address before posting in public rooms',
       );
     }
-
-    await this.messageRepository.remove(message);
   }
 }
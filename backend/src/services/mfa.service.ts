@@ -1,6 +1,11 @@
 import { Injectable } from '@nestjs/common';
 import * as speakeasy from 'speakeasy';
 import * as QRCode from 'qrcode';
+import { randomInt } from 'crypto';
+
+// No 0/O or 1/I so codes survive being written down
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const RECOVERY_CODE_COUNT = 10;
 
 @Injectable()
 export class MfaService {
@@ -15,7 +20,9 @@ export class MfaService {
       otpAuthUrl: secret.otpauth_url || '',
       base32: secret.base32,
     };
-  } // Verify a token against a secret
+  }
+
+  // Verify a token against a secret
   verifyToken(token: string, secret: string): boolean {
     return speakeasy.totp.verify({
       secret,
@@ -28,4 +35,24 @@ export class MfaService {
   async generateQrCode(otpAuthUrl: string): Promise<string> {
     return await QRCode.toDataURL(otpAuthUrl);
   }
+
+  // Generate one-time recovery codes formatted like "abcde-fghjk"
+  generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const chars = Array.from(
+        { length: 10 },
+        () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)],
+      ).join('');
+      return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+    });
+  }
+
+  // Recovery codes are compared without case or the separator
+  normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  isTotpToken(token: string): boolean {
+    return /^\d{6}$/.test(token.trim());
+  }
 }
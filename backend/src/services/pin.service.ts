@@ -0,0 +1,171 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { Message } from '../entities/message.entity';
+import { Room } from '../entities/room.entity';
+import { MessageEventType } from '../entities/message-event.entity';
+import { MessageService } from './message.service';
+import { MessageEventService } from './message-event.service';
+import {
+  RoomPermission,
+  RoomPermissionService,
+} from './room-permission.service';
+
+// Pins are for the few messages everyone needs to find again
+const MAX_PINS_PER_ROOM = 50;
+
+// Permission to pin is checked by RoomPermissionGuard
+@Injectable()
+export class PinService {
+  constructor(
+    @InjectRepository(Message)
+    private messageRepository: Repository<Message>,
+    @InjectRepository(Room)
+    private roomRepository: Repository<Room>,
+    private messageService: MessageService,
+    private messageEventService: MessageEventService,
+    private roomPermissionService: RoomPermissionService,
+  ) {}
+
+  // Pinned messages of the channels the user can read, latest pin first
+  async findAll(roomId: string, userId: string): Promise<Message[]> {
+    // Check if the room exists
+    const room = await this.roomRepository.findOne({ where: { id: roomId } });
+
+    if (!room) {
+      throw new NotFoundException(`Room with ID ${roomId} not found`);
+    }
+
+    // Check if the user can see the room
+    if (!(await this.roomPermissionService.getRole(room, userId))) {
+      throw new ForbiddenException(
+        'You must be a member of the room to view its pins',
+      );
+    }
+
+    const queryBuilder = this.messageRepository
+      .createQueryBuilder('message')
+      .leftJoinAndSelect('message.user', 'user')
+      .innerJoin('message.channel', 'channel')
+      .where('message.roomId = :roomId', { roomId })
+      .andWhere('message.pinnedAt IS NOT NULL')
+      .andWhere('message.deletedAt IS NULL');
+
+    // Private channels only show their pins to their members and to those
+    // who manage channels, as with reading them
+    if (
+      !(await this.roomPermissionService.can(
+        room,
+        userId,
+        RoomPermission.MANAGE_CHANNELS,
+      ))
+    ) {
+      queryBuilder.andWhere(
+        new Brackets((qb) =>
+          qb
+            .where('channel.isPrivate = false')
+            .orWhere(
+              'EXISTS (SELECT 1 FROM "channel-memberships" cm WHERE cm.channel_id = channel.id AND cm.user_id = :userId)',
+              { userId },
+            ),
+        ),
+      );
+    }
+
+    const messages = await queryBuilder
+      .orderBy('message.pinnedAt', 'DESC')
+      .getMany();
+
+    return this.messageService.attachAttachments(messages);
+  }
+
+  async pin(
+    roomId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<Message> {
+    const message = await this.findInRoom(roomId, messageId, userId);
+
+    if (message.deletedAt) {
+      throw new BadRequestException('Deleted messages cannot be pinned');
+    }
+
+    // Pinning twice is a no-op
+    if (message.pinnedAt) {
+      return message;
+    }
+
+    // Check if the room has room for another pin
+    const pinCount = await this.messageRepository
+      .createQueryBuilder('message')
+      .where('message.roomId = :roomId', { roomId })
+      .andWhere('message.pinnedAt IS NOT NULL')
+      .andWhere('message.deletedAt IS NULL')
+      .getCount();
+
+    if (pinCount >= MAX_PINS_PER_ROOM) {
+      throw new BadRequestException(
+        `A room can have at most ${MAX_PINS_PER_ROOM} pinned messages`,
+      );
+    }
+
+    message.pinnedAt = new Date();
+    message.pinnedById = userId;
+    return this.save(message);
+  }
+
+  async unpin(
+    roomId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<Message> {
+    // Deleted messages keep their pin and can still be unpinned
+    const message = await this.findInRoom(roomId, messageId, userId);
+
+    if (!message.pinnedAt) {
+      throw new NotFoundException('This message is not pinned');
+    }
+
+    message.pinnedAt = null;
+    message.pinnedById = null;
+    return this.save(message);
+  }
+
+  private async findInRoom(
+    roomId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<Message> {
+    // Reuse the access checks on the message
+    const message = await this.messageService.findOne(messageId, userId);
+
+    if (message.roomId !== roomId) {
+      throw new NotFoundException(
+        `Message with ID ${messageId} not found in this room`,
+      );
+    }
+
+    return message;
+  }
+
+  // Pins change the message, so reconnecting clients replay them like edits
+  private async save(message: Message): Promise<Message> {
+    await this.messageRepository.update(message.id, {
+      pinnedAt: message.pinnedAt,
+      pinnedById: message.pinnedById,
+    });
+
+    await this.messageService.attachAttachments([message]);
+    message.eventSeq = await this.messageEventService.record(
+      message,
+      MessageEventType.UPDATED,
+    );
+
+    return message;
+  }
+}
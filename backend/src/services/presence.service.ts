@@ -0,0 +1,234 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThanOrEqual, Not, Repository } from 'typeorm';
+import { Subject } from 'rxjs';
+import { PresenceStatus, User } from '../entities/user.entity';
+import { RoomMembership } from '../entities/room-membership.entity';
+import { SetStatusDto } from '../dto/presence/set-status.dto';
+
+// What other users see about someone's availability
+export interface UserPresence {
+  userId: string;
+  presence: PresenceStatus;
+  lastSeenAt: Date | null;
+  statusText: string | null;
+  statusEmoji: string | null;
+  statusExpiresAt: Date | null;
+}
+
+export interface PresenceChange {
+  presence: UserPresence;
+  // The user and everyone sharing a room with them
+  recipientIds: string[];
+}
+
+// How often custom statuses past their expiry are cleared
+const STATUS_SWEEP_INTERVAL_MS = 60 * 1000;
+
+@Injectable()
+export class PresenceService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PresenceService.name);
+
+  // Emits whenever a user's presence or custom status changes
+  readonly changed = new Subject<PresenceChange>();
+
+  // Open sockets per user, each flagged with whether its client reports idle
+  private connections = new Map<string, Map<string, boolean>>();
+
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectRepository(RoomMembership)
+    private membershipRepository: Repository<RoomMembership>,
+  ) {}
+
+  async onModuleInit() {
+    // No sockets survive a restart, so nobody can still be online
+    await this.userRepository.update(
+      { presence: Not(PresenceStatus.OFFLINE) },
+      {
+        presence: PresenceStatus.OFFLINE,
+        isOnline: false,
+        lastSeenAt: new Date(),
+      },
+    );
+
+    this.sweepTimer = setInterval(() => {
+      this.clearExpiredStatuses().catch((error: unknown) => {
+        this.logger.error(
+          'Failed to clear expired statuses',
+          error instanceof Error ? error.stack : String(error),
+        );
+      });
+    }, STATUS_SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  async connect(userId: string, socketId: string, idle = false) {
+    if (!this.connections.has(userId)) {
+      this.connections.set(userId, new Map());
+    }
+    this.connections.get(userId)?.set(socketId, idle);
+    await this.refresh(userId);
+  }
+
+  async disconnect(userId: string, socketId: string) {
+    const sockets = this.connections.get(userId);
+    if (!sockets?.delete(socketId)) return;
+
+    if (sockets.size === 0) {
+      this.connections.delete(userId);
+    }
+    await this.refresh(userId);
+  }
+
+  async setIdle(userId: string, socketId: string, idle: boolean) {
+    const sockets = this.connections.get(userId);
+    if (!sockets?.has(socketId)) return;
+
+    sockets.set(socketId, idle);
+    await this.refresh(userId);
+  }
+
+  // Presence of the user and everyone they share a room with
+  async findForContacts(userId: string): Promise<UserPresence[]> {
+    const contactIds = await this.findContactIds(userId);
+    const users = await this.userRepository.find({
+      where: { id: In(contactIds) },
+    });
+    return users.map((user) => this.toPresence(user));
+  }
+
+  async setStatus(
+    userId: string,
+    setStatusDto: SetStatusDto,
+  ): Promise<UserPresence> {
+    const statusText = setStatusDto.text?.trim() || null;
+    const statusEmoji = setStatusDto.emoji?.trim() || null;
+    const statusExpiresAt = setStatusDto.expiresAt
+      ? new Date(setStatusDto.expiresAt)
+      : null;
+
+    // Check if there is anything to show
+    if (!statusText && !statusEmoji) {
+      throw new BadRequestException('Status needs text or an emoji');
+    }
+
+    // Check if the status would already be expired
+    if (statusExpiresAt && statusExpiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Status expiry must be in the future');
+    }
+
+    await this.userRepository.update(userId, {
+      statusText,
+      statusEmoji,
+      statusExpiresAt,
+    });
+    return this.broadcast(userId);
+  }
+
+  async clearStatus(userId: string): Promise<UserPresence> {
+    await this.userRepository.update(userId, {
+      statusText: null,
+      statusEmoji: null,
+      statusExpiresAt: null,
+    });
+    return this.broadcast(userId);
+  }
+
+  // Online while any socket is active, away once every socket reports idle
+  private currentPresence(userId: string): PresenceStatus {
+    const sockets = this.connections.get(userId);
+    if (!sockets?.size) return PresenceStatus.OFFLINE;
+
+    const allIdle = Array.from(sockets.values()).every((idle) => idle);
+    return allIdle ? PresenceStatus.AWAY : PresenceStatus.ONLINE;
+  }
+
+  // Persists the user's presence and announces it if it changed
+  private async refresh(userId: string) {
+    const presence = this.currentPresence(userId);
+    const result = await this.userRepository.update(
+      { id: userId, presence: Not(presence) },
+      {
+        presence,
+        isOnline: presence !== PresenceStatus.OFFLINE,
+        lastSeenAt: new Date(),
+      },
+    );
+
+    if (result.affected) {
+      await this.broadcast(userId);
+    }
+  }
+
+  private async broadcast(userId: string): Promise<UserPresence> {
+    const user = await this.userRepository.findOneOrFail({
+      where: { id: userId },
+    });
+    const presence = this.toPresence(user);
+
+    this.changed.next({
+      presence,
+      recipientIds: await this.findContactIds(userId),
+    });
+
+    return presence;
+  }
+
+  private async clearExpiredStatuses() {
+    const expired = await this.userRepository.find({
+      select: { id: true },
+      where: { statusExpiresAt: LessThanOrEqual(new Date()) },
+    });
+
+    for (const { id } of expired) {
+      await this.clearStatus(id);
+    }
+  }
+
+  private async findContactIds(userId: string): Promise<string[]> {
+    const memberships = await this.membershipRepository.find({
+      select: { roomId: true },
+      where: { userId },
+    });
+    if (memberships.length === 0) return [userId];
+
+    const members = await this.membershipRepository.find({
+      select: { userId: true },
+      where: {
+        roomId: In(memberships.map((membership) => membership.roomId)),
+      },
+    });
+
+    return Array.from(
+      new Set([userId, ...members.map((member) => member.userId)]),
+    );
+  }
+
+  private toPresence(user: User): UserPresence {
+    // Expired statuses linger until the next sweep, hide them meanwhile
+    const expired =
+      !!user.statusExpiresAt && user.statusExpiresAt.getTime() <= Date.now();
+
+    return {
+      userId: user.id,
+      presence: user.presence,
+      lastSeenAt: user.lastSeenAt,
+      statusText: expired ? null : user.statusText,
+      statusEmoji: expired ? null : user.statusEmoji,
+      statusExpiresAt: expired ? null : user.statusExpiresAt,
+    };
+  }
+}
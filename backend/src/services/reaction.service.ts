@@ -0,0 +1,77 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { MessageReaction } from '../entities/message-reaction.entity';
+import { Message } from '../entities/message.entity';
+import { MessageService } from './message.service';
+
+@Injectable()
+export class ReactionService {
+  constructor(
+    @InjectRepository(MessageReaction)
+    private reactionRepository: Repository<MessageReaction>,
+    private messageService: MessageService,
+  ) {}
+
+  async add(
+    messageId: string,
+    userId: string,
+    emoji: string,
+  ): Promise<{ message: Message; added: boolean }> {
+    // Reuse the access checks on the message, reacting is posting to the room
+    const message = await this.messageService.findOne(messageId, userId);
+    await this.messageService.assertCanPost(message.room, userId);
+
+    if (message.deletedAt) {
+      throw new BadRequestException('Cannot react to a deleted message');
+    }
+
+    const existingReaction = await this.reactionRepository.findOne({
+      where: { messageId, userId, emoji },
+    });
+
+    // Reacting twice with the same emoji is a no-op
+    if (!existingReaction) {
+      await this.reactionRepository.save(
+        this.reactionRepository.create({ messageId, userId, emoji }),
+      );
+    }
+
+    const [updatedMessage] = await this.messageService.attachReactions([
+      message,
+    ]);
+
+    return { message: updatedMessage, added: !existingReaction };
+  }
+
+  async remove(
+    messageId: string,
+    userId: string,
+    emoji: string,
+  ): Promise<Message> {
+    const message = await this.messageService.findOne(messageId, userId);
+    await this.messageService.assertCanPost(message.room, userId);
+
+    const reaction = await this.reactionRepository.findOne({
+      where: { messageId, userId, emoji },
+    });
+
+    if (!reaction) {
+      throw new NotFoundException(
+        `You have not reacted with ${emoji} to this message`,
+      );
+    }
+
+    await this.reactionRepository.remove(reaction);
+
+    const [updatedMessage] = await this.messageService.attachReactions([
+      message,
+    ]);
+
+    return updatedMessage;
+  }
+}
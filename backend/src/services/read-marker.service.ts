@@ -0,0 +1,251 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, In, Repository } from 'typeorm';
+import { Subject } from 'rxjs';
+import { RoomReadMarker } from '../entities/room-read-marker.entity';
+import { Message } from '../entities/message.entity';
+import { Room } from '../entities/room.entity';
+import { RoomMembership } from '../entities/room-membership.entity';
+import { Channel } from '../entities/channel.entity';
+import { ChannelMembership } from '../entities/channel-membership.entity';
+import { RoomPermissionService } from './room-permission.service';
+
+export interface RoomUnreadCounts {
+  roomId: string;
+  lastReadAt: Date | null;
+  unreadCount: number;
+  mentionCount: number;
+}
+
+// Someone who should see a new message as unread
+export interface UnreadRecipient {
+  userId: string;
+  mentioned: boolean;
+}
+
+@Injectable()
+export class ReadMarkerService {
+  // Emits after a user marks a room read so their other devices can catch up
+  readonly read = new Subject<{ userId: string; counts: RoomUnreadCounts }>();
+
+  constructor(
+    @InjectRepository(RoomReadMarker)
+    private markerRepository: Repository<RoomReadMarker>,
+    @InjectRepository(Message)
+    private messageRepository: Repository<Message>,
+    @InjectRepository(Room)
+    private roomRepository: Repository<Room>,
+    @InjectRepository(RoomMembership)
+    private roomMembershipRepository: Repository<RoomMembership>,
+    @InjectRepository(Channel)
+    private channelRepository: Repository<Channel>,
+    @InjectRepository(ChannelMembership)
+    private channelMembershipRepository: Repository<ChannelMembership>,
+    private roomPermissionService: RoomPermissionService,
+  ) {}
+
+  // Moves the user's read pointer up to the given message, or to now
+  async markRead(
+    userId: string,
+    roomId: string,
+    messageId?: string,
+  ): Promise<RoomUnreadCounts> {
+    // Check if the room exists
+    const room = await this.roomRepository.findOne({ where: { id: roomId } });
+    if (!room) {
+      throw new NotFoundException(`Room with ID ${roomId} not found`);
+    }
+
+    // Check if the user can see the room
+    if (!(await this.roomPermissionService.getRole(room, userId))) {
+      throw new ForbiddenException(
+        'You must be a member of the room to mark it read',
+      );
+    }
+
+    let lastReadAt = new Date();
+    if (messageId) {
+      const message = await this.messageRepository.findOne({
+        where: { id: messageId, roomId },
+      });
+
+      if (!message) {
+        throw new NotFoundException(
+          `Message with ID ${messageId} not found in this room`,
+        );
+      }
+      lastReadAt = message.createdAt;
+    }
+
+    // The pointer only moves forward, reading an older message changes nothing
+    const marker = await this.markerRepository.findOne({
+      where: { roomId, userId },
+    });
+
+    if (!marker) {
+      await this.markerRepository.save(
+        this.markerRepository.create({
+          roomId,
+          userId,
+          lastReadAt,
+          lastReadMessageId: messageId ?? null,
+        }),
+      );
+    } else if (marker.lastReadAt < lastReadAt) {
+      await this.markerRepository.update(marker.id, {
+        lastReadAt,
+        lastReadMessageId: messageId ?? null,
+      });
+    }
+
+    const [counts] = await this.findUnreadCounts(userId, [roomId]);
+    this.read.next({ userId, counts });
+    return counts;
+  }
+
+  async attachUnreadCounts(rooms: Room[], userId: string): Promise<Room[]> {
+    const counts = await this.findUnreadCounts(
+      userId,
+      rooms.map((room) => room.id),
+    );
+    const countsByRoomId = new Map(
+      counts.map((count) => [count.roomId, count]),
+    );
+
+    rooms.forEach((room) => {
+      const count = countsByRoomId.get(room.id);
+      room.lastReadAt = count?.lastReadAt ?? null;
+      room.unreadCount = count?.unreadCount ?? 0;
+      room.mentionCount = count?.mentionCount ?? 0;
+    });
+
+    return rooms;
+  }
+
+  // Unread top-level messages from others since the read pointer, or since
+  // joining for members who never opened the room. Rooms the user neither
+  // joined nor opened have nothing unread.
+  async findUnreadCounts(
+    userId: string,
+    roomIds: string[],
+  ): Promise<RoomUnreadCounts[]> {
+    if (roomIds.length === 0) return [];
+
+    const markers = await this.markerRepository.find({
+      where: { userId, roomId: In(roomIds) },
+    });
+
+    const rows = await this.messageRepository
+      .createQueryBuilder('message')
+      .select('message.roomId', 'roomId')
+      // Thread replies only count when they mention the user
+      .addSelect(
+        'COUNT(*) FILTER (WHERE message.parent_message_id IS NULL)',
+        'unreadCount',
+      )
+      .addSelect(
+        `COUNT(*) FILTER (WHERE :userId = ANY(message.mentioned_user_ids))`,
+        'mentionCount',
+      )
+      .innerJoin('message.channel', 'channel')
+      .leftJoin(
+        RoomReadMarker,
+        'marker',
+        'marker.roomId = message.roomId AND marker.userId = :userId',
+      )
+      .leftJoin(
+        RoomMembership,
+        'membership',
+        'membership.roomId = message.roomId AND membership.userId = :userId',
+      )
+      .where('message.roomId IN (:...roomIds)', { roomIds })
+      .andWhere('message.userId != :userId')
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('message.parentMessageId IS NULL').orWhere(
+            ':userId = ANY(message.mentioned_user_ids)',
+          );
+        }),
+      )
+      .andWhere('message.deletedAt IS NULL')
+      .andWhere(
+        'message.createdAt > COALESCE(marker.lastReadAt, membership.createdAt)',
+      )
+      // Private channels only count for their members
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('channel.isPrivate = false').orWhere(
+            'EXISTS (SELECT 1 FROM "channel-memberships" cm WHERE cm.channel_id = channel.id AND cm.user_id = :userId)',
+          );
+        }),
+      )
+      .setParameters({ userId })
+      .groupBy('message.roomId')
+      .getRawMany<{
+        roomId: string;
+        unreadCount: string;
+        mentionCount: string;
+      }>();
+
+    const rowsByRoomId = new Map(rows.map((row) => [row.roomId, row]));
+    const markersByRoomId = new Map(
+      markers.map((marker) => [marker.roomId, marker]),
+    );
+
+    return roomIds.map((roomId) => ({
+      roomId,
+      lastReadAt: markersByRoomId.get(roomId)?.lastReadAt ?? null,
+      unreadCount: Number(rowsByRoomId.get(roomId)?.unreadCount ?? 0),
+      mentionCount: Number(rowsByRoomId.get(roomId)?.mentionCount ?? 0),
+    }));
+  }
+
+  // Everyone following the room who can read the message, apart from its author
+  async findUnreadRecipients(message: Message): Promise<UnreadRecipient[]> {
+    // Thread replies do not count towards a room's unread messages, only
+    // towards the mentions of the users they mention
+    if (message.parentMessageId && !message.mentionedUserIds.length) return [];
+
+    const [memberships, markers, channel] = await Promise.all([
+      this.roomMembershipRepository.find({
+        select: { userId: true },
+        where: { roomId: message.roomId },
+      }),
+      this.markerRepository.find({
+        select: { userId: true },
+        where: { roomId: message.roomId },
+      }),
+      this.channelRepository.findOne({ where: { id: message.channelId } }),
+    ]);
+
+    let userIds = new Set(
+      [...memberships, ...markers]
+        .map((follower) => follower.userId)
+        .filter((userId) => userId !== message.userId),
+    );
+
+    if (channel?.isPrivate) {
+      const channelMembers = await this.channelMembershipRepository.find({
+        select: { userId: true },
+        where: { channelId: channel.id },
+      });
+      const channelMemberIds = new Set(
+        channelMembers.map((member) => member.userId),
+      );
+      userIds = new Set([...userIds].filter((id) => channelMemberIds.has(id)));
+    }
+
+    const mentionedUserIds = new Set(message.mentionedUserIds);
+
+    return [...userIds]
+      .map((userId) => ({
+        userId,
+        mentioned: mentionedUserIds.has(userId),
+      }))
+      .filter((recipient) => !message.parentMessageId || recipient.mentioned);
+  }
+}
@@ -0,0 +1,164 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  GoneException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { RoomInvite } from '../entities/room-invite.entity';
+import { Room } from '../entities/room.entity';
+import { RoomMembership } from '../entities/room-membership.entity';
+import { CreateRoomInviteDto } from '../dto/room-invite/create-room-invite.dto';
+
+@Injectable()
+export class RoomInviteService {
+  constructor(
+    @InjectRepository(RoomInvite)
+    private roomInviteRepository: Repository<RoomInvite>,
+    @InjectRepository(Room)
+    private roomRepository: Repository<Room>,
+  ) {}
+
+  async create(
+    roomId: string,
+    userId: string,
+    createRoomInviteDto: CreateRoomInviteDto,
+  ): Promise<RoomInvite> {
+    const room = await this.findRoom(roomId);
+
+    if (room.isDirect) {
+      throw new BadRequestException(
+        'Invites cannot be created for direct message conversations',
+      );
+    }
+
+    const { expiresInHours, maxUses } = createRoomInviteDto;
+
+    const invite = this.roomInviteRepository.create({
+      code: randomBytes(12).toString('base64url'),
+      roomId,
+      createdById: userId,
+      expiresAt: expiresInHours
+        ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000)
+        : null,
+      maxUses: maxUses ?? null,
+    });
+
+    return this.roomInviteRepository.save(invite);
+  }
+
+  async findAllByRoom(roomId: string): Promise<RoomInvite[]> {
+    await this.findRoom(roomId);
+
+    return this.roomInviteRepository.find({
+      where: { roomId, revokedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async revoke(roomId: string, inviteId: string) {
+    await this.findRoom(roomId);
+
+    const invite = await this.roomInviteRepository.findOne({
+      where: { id: inviteId, roomId },
+    });
+
+    if (!invite) {
+      throw new NotFoundException(`Invite with ID ${inviteId} not found`);
+    }
+
+    invite.revokedAt = new Date();
+    await this.roomInviteRepository.save(invite);
+  }
+
+  async preview(code: string): Promise<RoomInvite> {
+    const invite = await this.roomInviteRepository
+      .createQueryBuilder('invite')
+      .innerJoinAndSelect('invite.room', 'room')
+      .loadRelationCountAndMap('room.memberCount', 'room.roomMemberships')
+      .where('invite.code = :code', { code })
+      .getOne();
+
+    if (!invite) {
+      throw new NotFoundException('Invite not found');
+    }
+
+    this.assertUsable(invite);
+
+    return invite;
+  }
+
+  async accept(code: string, userId: string): Promise<Room> {
+    const invite = await this.roomInviteRepository.findOne({
+      where: { code },
+      relations: ['room'],
+    });
+
+    if (!invite) {
+      throw new NotFoundException('Invite not found');
+    }
+
+    this.assertUsable(invite);
+
+    // The membership and the use it claims are committed together
+    await this.roomInviteRepository.manager.transaction(async (manager) => {
+      const inserted = await manager
+        .createQueryBuilder()
+        .insert()
+        .into(RoomMembership)
+        .values({ roomId: invite.roomId, userId })
+        .orIgnore()
+        .returning('id')
+        .execute();
+
+      // Accepting an invite to a room you are already in is a no-op
+      if (!(inserted.raw as { id: string }[]).length) {
+        return;
+      }
+
+      // Claim a use atomically so concurrent accepts cannot exceed maxUses
+      const result = await manager
+        .createQueryBuilder()
+        .update(RoomInvite)
+        .set({ useCount: () => 'use_count + 1' })
+        .where('id = :id', { id: invite.id })
+        .andWhere('(max_uses IS NULL OR use_count < max_uses)')
+        .execute();
+
+      if (!result.affected) {
+        throw new GoneException('This invite has reached its maximum uses');
+      }
+    });
+
+    return invite.room;
+  }
+
+  // Managing invites is authorized by RoomPermissionGuard on the controller
+  private async findRoom(roomId: string): Promise<Room> {
+    const room = await this.roomRepository.findOne({
+      where: { id: roomId },
+    });
+
+    if (!room) {
+      throw new NotFoundException(`Room with ID ${roomId} not found`);
+    }
+
+    return room;
+  }
+
+  private assertUsable(invite: RoomInvite) {
+    if (invite.revokedAt) {
+      throw new GoneException('This invite has been revoked');
+    }
+
+    if (invite.expiresAt && invite.expiresAt <= new Date()) {
+      throw new GoneException('This invite has expired');
+    }
+
+    if (invite.maxUses !== null && invite.useCount >= invite.maxUses) {
+      throw new GoneException('This invite has reached its maximum uses');
+    }
+  }
+}
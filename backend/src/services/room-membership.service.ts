@@ -3,12 +3,14 @@ import {
   NotFoundException,
   ForbiddenException,
   ConflictException,
+  BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { RoomMembership } from '../entities/room-membership.entity';
 import { Room } from '../entities/room.entity';
 import { CreateRoomMembershipDto } from '../dto/room-membership/create-room-membership.dto';
+import { RoomPermissionService } from './room-permission.service';
 
 @Injectable()
 export class RoomMembershipService {
@@ -17,6 +19,7 @@ export class RoomMembershipService {
     private roomMembershipRepository: Repository<RoomMembership>,
     @InjectRepository(Room)
     private roomRepository: Repository<Room>,
+    private roomPermissionService: RoomPermissionService,
   ) {}
 
   async create(
@@ -34,9 +37,10 @@ export class RoomMembershipService {
       throw new NotFoundException(`Room with ID ${roomId} not found`);
     }
 
-    // Check if the current user is the owner of the room (authorization check)
-    if (room.ownerId !== currentUserId) {
-      throw new ForbiddenException('Only room owners can add members');
+    if (room.isDirect) {
+      throw new BadRequestException(
+        'Members cannot be added to a direct message conversation',
+      );
     }
 
     // Check if membership already exists
@@ -145,18 +149,15 @@ export class RoomMembershipService {
       throw new NotFoundException(`User is not a member of this room`);
     }
 
-    // Authorization: Check if current user is removing themselves, or is the room owner
-    if (currentUserId !== memberId && currentUserId !== room.ownerId) {
-      throw new ForbiddenException(
-        'You do not have permission to remove this member',
-      );
-    }
+    // Authorization: members can leave, kicking others depends on role
+    const successorId = await this.roomPermissionService.assertCanRemoveMember(
+      room,
+      currentUserId,
+      memberId,
+    );
 
-    // Don't allow removing the room owner
-    if (memberId === room.ownerId) {
-      throw new ForbiddenException(
-        'Cannot remove the room owner from the room',
-      );
+    if (successorId) {
+      await this.roomRepository.update(roomId, { ownerId: successorId });
     }
 
     await this.roomMembershipRepository.remove(membership);
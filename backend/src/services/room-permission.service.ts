@@ -0,0 +1,195 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Room } from '../entities/room.entity';
+import { RoomMembership, RoomRole } from '../entities/room-membership.entity';
+
+export enum RoomPermission {
+  SEND_MESSAGES = 'sendMessages',
+  DELETE_ANY_MESSAGE = 'deleteAnyMessage',
+  PIN_MESSAGES = 'pinMessages',
+  INVITE_MEMBERS = 'inviteMembers',
+  KICK_MEMBERS = 'kickMembers',
+  RENAME_ROOM = 'renameRoom',
+  ARCHIVE_ROOM = 'archiveRoom',
+  MANAGE_CHANNELS = 'manageChannels',
+  MANAGE_ROLES = 'manageRoles',
+  DELETE_ROOM = 'deleteRoom',
+}
+
+const ROLE_PERMISSIONS: Record<RoomRole, RoomPermission[]> = {
+  [RoomRole.OWNER]: Object.values(RoomPermission),
+  [RoomRole.ADMIN]: [
+    RoomPermission.SEND_MESSAGES,
+    RoomPermission.DELETE_ANY_MESSAGE,
+    RoomPermission.PIN_MESSAGES,
+    RoomPermission.INVITE_MEMBERS,
+    RoomPermission.KICK_MEMBERS,
+    RoomPermission.RENAME_ROOM,
+    RoomPermission.ARCHIVE_ROOM,
+    RoomPermission.MANAGE_CHANNELS,
+    RoomPermission.MANAGE_ROLES,
+  ],
+  [RoomRole.MODERATOR]: [
+    RoomPermission.SEND_MESSAGES,
+    RoomPermission.DELETE_ANY_MESSAGE,
+    RoomPermission.PIN_MESSAGES,
+    RoomPermission.INVITE_MEMBERS,
+    RoomPermission.KICK_MEMBERS,
+  ],
+  [RoomRole.MEMBER]: [RoomPermission.SEND_MESSAGES],
+  [RoomRole.GUEST]: [],
+};
+
+// Higher ranks can manage members of lower ranks
+const ROLE_RANKS: Record<RoomRole, number> = {
+  [RoomRole.OWNER]: 4,
+  [RoomRole.ADMIN]: 3,
+  [RoomRole.MODERATOR]: 2,
+  [RoomRole.MEMBER]: 1,
+  [RoomRole.GUEST]: 0,
+};
+
+const PERMISSION_DESCRIPTIONS: Record<RoomPermission, string> = {
+  [RoomPermission.SEND_MESSAGES]: 'send messages',
+  [RoomPermission.DELETE_ANY_MESSAGE]: "delete other members' messages",
+  [RoomPermission.PIN_MESSAGES]: 'pin messages',
+  [RoomPermission.INVITE_MEMBERS]: 'invite members',
+  [RoomPermission.KICK_MEMBERS]: 'remove members',
+  [RoomPermission.RENAME_ROOM]: 'change room settings',
+  [RoomPermission.ARCHIVE_ROOM]: 'archive the room',
+  [RoomPermission.MANAGE_CHANNELS]: 'manage channels',
+  [RoomPermission.MANAGE_ROLES]: 'change member roles',
+  [RoomPermission.DELETE_ROOM]: 'delete the room',
+};
+
+@Injectable()
+export class RoomPermissionService {
+  constructor(
+    @InjectRepository(Room)
+    private roomRepository: Repository<Room>,
+    @InjectRepository(RoomMembership)
+    private roomMembershipRepository: Repository<RoomMembership>,
+  ) {}
+
+  // The creator is always an owner, even on memberships from before roles.
+  // Anyone may take part in a public room as a member without joining it.
+  async getRole(room: Room, userId: string): Promise<RoomRole | null> {
+    if (room.ownerId === userId) {
+      return RoomRole.OWNER;
+    }
+
+    const membership = await this.roomMembershipRepository.findOne({
+      where: { roomId: room.id, userId },
+    });
+
+    if (membership) {
+      return membership.role;
+    }
+
+    return room.isPrivate ? null : RoomRole.MEMBER;
+  }
+
+  hasPermission(role: RoomRole | null, permission: RoomPermission): boolean {
+    return !!role && ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  outranks(role: RoomRole | null, otherRole: RoomRole | null): boolean {
+    if (!role) {
+      return false;
+    }
+    return ROLE_RANKS[role] > (otherRole ? ROLE_RANKS[otherRole] : -1);
+  }
+
+  // Roles granted a permission, for checks made in queries across rooms
+  rolesWith(permission: RoomPermission): RoomRole[] {
+    return Object.values(RoomRole).filter((role) =>
+      this.hasPermission(role, permission),
+    );
+  }
+
+  async can(
+    room: Room,
+    userId: string,
+    permission: RoomPermission,
+  ): Promise<boolean> {
+    const role = await this.getRole(room, userId);
+    return this.hasPermission(role, permission);
+  }
+
+  async assertPermission(
+    roomOrId: Room | string,
+    userId: string,
+    permission: RoomPermission,
+  ): Promise<Room> {
+    const room =
+      typeof roomOrId === 'string'
+        ? await this.roomRepository.findOne({ where: { id: roomOrId } })
+        : roomOrId;
+
+    if (!room) {
+      throw new NotFoundException(
+        `Room with ID ${roomOrId as string} not found`,
+      );
+    }
+
+    if (!(await this.can(room, userId, permission))) {
+      throw new ForbiddenException(
+        `Your role in this room does not allow you to ${PERMISSION_DESCRIPTIONS[permission]}`,
+      );
+    }
+
+    return room;
+  }
+
+  // Members can always leave, removing anyone else needs the kick permission
+  // and a higher rank. When the creator leaves, another owner takes over the
+  // room and its ID is returned.
+  async assertCanRemoveMember(
+    room: Room,
+    userId: string,
+    memberId: string,
+  ): Promise<string | null> {
+    const memberRole = await this.getRole(room, memberId);
+
+    if (userId !== memberId) {
+      const role = await this.getRole(room, userId);
+
+      if (
+        !this.hasPermission(role, RoomPermission.KICK_MEMBERS) ||
+        !this.outranks(role, memberRole)
+      ) {
+        throw new ForbiddenException(
+          'You do not have permission to remove this member',
+        );
+      }
+
+      return null;
+    }
+
+    // A direct message has no one to hand it to, so its creator may just leave
+    if (memberId !== room.ownerId || room.isDirect) {
+      return null;
+    }
+
+    const successor = await this.roomMembershipRepository
+      .createQueryBuilder('membership')
+      .where('membership.roomId = :roomId', { roomId: room.id })
+      .andWhere('membership.userId != :memberId', { memberId })
+      .andWhere('membership.role = :role', { role: RoomRole.OWNER })
+      .orderBy('membership.createdAt', 'ASC')
+      .getOne();
+
+    if (!successor) {
+      throw new ForbiddenException(
+        'Make another member an owner before leaving your room',
+      );
+    }
+
+    return successor.userId;
+  }
+}
@@ -2,21 +2,35 @@ import {
   Injectable,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
+import { Subject } from 'rxjs';
 import { Room } from '../entities/room.entity';
-import { RoomMembership } from '../entities/room-membership.entity';
+import { RoomMembership, RoomRole } from '../entities/room-membership.entity';
+import { User } from '../entities/user.entity';
 import { CreateRoomDto } from '../dto/room/create-room.dto';
 import { UpdateRoomDto } from '../dto/room/update-room.dto';
+import { OpenDirectMessageDto } from '../dto/room/open-direct-message.dto';
+import { RoomPermissionService } from './room-permission.service';
+import { ReadMarkerService } from './read-marker.service';
 
 @Injectable()
 export class RoomService {
+  // Emits after a member leaves or is removed, so their sockets can stop
+  // receiving the room's messages
+  readonly memberRemoved = new Subject<{ roomId: string; userId: string }>();
+
   constructor(
     @InjectRepository(Room)
     private roomRepository: Repository<Room>,
     @InjectRepository(RoomMembership)
     private roomMembershipRepository: Repository<RoomMembership>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private roomPermissionService: RoomPermissionService,
+    private readMarkerService: ReadMarkerService,
   ) {}
 
   async create(userId: string, createRoomDto: CreateRoomDto): Promise<Room> {
@@ -27,14 +41,17 @@ export class RoomService {
 
     await this.roomRepository.save(room);
 
-    // Add the creator as a member of the room
+    // Add the creator as an owner of the room
     const membership = this.roomMembershipRepository.create({
       userId,
       roomId: room.id,
+      role: RoomRole.OWNER,
     });
 
     await this.roomMembershipRepository.save(membership);
 
+    room.role = RoomRole.OWNER;
+
     return room;
   }
 
@@ -54,7 +71,104 @@ export class RoomService {
       .map((membership) => membership.room)
       .filter((room) => room.isPrivate);
 
-    return [...publicRooms, ...privateMemberRooms];
+    const rooms = await this.attachDirectMessageDetails(
+      [...publicRooms, ...privateMemberRooms],
+      userId,
+    );
+
+    // Tell the client what the user can do in each room
+    const rolesByRoomId = new Map(
+      userMemberships.map((membership) => [membership.roomId, membership.role]),
+    );
+
+    rooms.forEach((room) => {
+      room.role =
+        room.ownerId === userId
+          ? RoomRole.OWNER
+          : (rolesByRoomId.get(room.id) ?? RoomRole.MEMBER);
+    });
+
+    return this.readMarkerService.attachUnreadCounts(rooms, userId);
+  }
+
+  async openDirectMessage(
+    userId: string,
+    openDirectMessageDto: OpenDirectMessageDto,
+  ): Promise<Room> {
+    const participantIds = [
+      ...new Set([userId, ...openDirectMessageDto.userIds]),
+    ];
+
+    const participants = await this.userRepository.find({
+      where: { id: In(participantIds) },
+    });
+
+    if (participants.length !== participantIds.length) {
+      throw new NotFoundException('One or more users were not found');
+    }
+
+    // Opening the same conversation twice at once waits on a lock keyed by the
+    // participants, so the second request finds the room the first created
+    const { room, created } = await this.roomRepository.manager.transaction(
+      async (manager) => {
+        await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+          `direct:${[...participantIds].sort().join(':')}`,
+        ]);
+
+        // Return the existing conversation with exactly these participants
+        const existingRoom = await manager
+          .getRepository(Room)
+          .createQueryBuilder('room')
+          .innerJoin('room.roomMemberships', 'membership')
+          .where('room.isDirect = :isDirect', { isDirect: true })
+          .groupBy('room.id')
+          .having('COUNT(membership.id) = :count', {
+            count: participantIds.length,
+          })
+          .andHaving(
+            'COUNT(CASE WHEN membership.userId IN (:...participantIds) THEN 1 END) = :count',
+            { participantIds },
+          )
+          .getOne();
+
+        if (existingRoom) {
+          return { room: existingRoom, created: false };
+        }
+
+        const newRoom = await manager.save(
+          manager.create(Room, {
+            ownerId: userId,
+            title: this.directMessageTitle(participants),
+            isPrivate: true,
+            isDirect: true,
+          }),
+        );
+
+        await manager.save(
+          participantIds.map((participantId) =>
+            manager.create(RoomMembership, {
+              userId: participantId,
+              roomId: newRoom.id,
+            }),
+          ),
+        );
+
+        return { room: newRoom, created: true };
+      },
+    );
+
+    if (!created) {
+      const [existingRoom] = await this.attachDirectMessageDetails(
+        [room],
+        userId,
+      );
+      return existingRoom;
+    }
+
+    room.participants = participants;
+    room.title = this.directMessageTitle(participants, userId);
+
+    return room;
   }
 
   async findOne(id: string, userId: string): Promise<Room> {
@@ -80,14 +194,19 @@ export class RoomService {
       }
     }
 
-    return room;
+    const [decoratedRoom] = await this.attachDirectMessageDetails(
+      [room],
+      userId,
+    );
+
+    decoratedRoom.role = await this.roomPermissionService.getRole(room, userId);
+
+    return decoratedRoom;
   }
 
-  async update(
-    id: string,
-    userId: string,
-    updateRoomDto: UpdateRoomDto,
-  ): Promise<Room> {
+  // Permissions for update, remove and addMember are checked by
+  // RoomPermissionGuard on the controller
+  async update(id: string, updateRoomDto: UpdateRoomDto): Promise<Room> {
     const room = await this.roomRepository.findOne({
       where: { id },
     });
@@ -96,9 +215,10 @@ export class RoomService {
       throw new NotFoundException(`Room with ID ${id} not found`);
     }
 
-    // Check if the user is the owner of the room
-    if (room.ownerId !== userId) {
-      throw new ForbiddenException('Only the room owner can update it');
+    if (room.isDirect) {
+      throw new BadRequestException(
+        'Direct message conversations cannot be modified',
+      );
     }
 
     await this.roomRepository.update(id, updateRoomDto);
@@ -113,7 +233,7 @@ export class RoomService {
 
     return updatedRoom;
   }
-  async remove(id: string, userId: string): Promise<void> {
+  async remove(id: string): Promise<void> {
     const room = await this.roomRepository.findOne({
       where: { id },
     });
@@ -122,19 +242,10 @@ export class RoomService {
       throw new NotFoundException(`Room with ID ${id} not found`);
     }
 
-    // Check if the user is the owner of the room
-    if (room.ownerId !== userId) {
-      throw new ForbiddenException('Only the room owner can delete it');
-    }
-
     await this.roomRepository.delete(id);
   }
 
-  async addMember(
-    roomId: string,
-    userId: string,
-    newMemberId: string,
-  ): Promise<void> {
+  async addMember(roomId: string, newMemberId: string): Promise<void> {
     const room = await this.roomRepository.findOne({
       where: { id: roomId },
     });
@@ -143,9 +254,11 @@ export class RoomService {
       throw new NotFoundException(`Room with ID ${roomId} not found`);
     }
 
-    // Check if the user is the owner of the room
-    if (room.ownerId !== userId) {
-      throw new ForbiddenException('Only the room owner can add members');
+    // A different set of participants is a different conversation
+    if (room.isDirect) {
+      throw new BadRequestException(
+        'Members cannot be added to a direct message conversation',
+      );
     }
 
     // Check if the new member is already a member
@@ -176,23 +289,143 @@ export class RoomService {
       throw new NotFoundException(`Room with ID ${roomId} not found`);
     }
 
-    // Check if the user is the owner of the room or removing themself
-    if (room.ownerId !== userId && userId !== memberId) {
-      throw new ForbiddenException(
-        'Only the room owner can remove other members',
+    const successorId = await this.roomPermissionService.assertCanRemoveMember(
+      room,
+      userId,
+      memberId,
+    );
+
+    if (successorId) {
+      await this.roomRepository.update(roomId, { ownerId: successorId });
+    }
+
+    await this.roomMembershipRepository.delete({
+      roomId,
+      userId: memberId,
+    });
+
+    this.memberRemoved.next({ roomId, userId: memberId });
+  }
+
+  async updateMemberRole(
+    roomId: string,
+    userId: string,
+    memberId: string,
+    role: RoomRole,
+  ): Promise<RoomMembership> {
+    const room = await this.roomRepository.findOne({
+      where: { id: roomId },
+    });
+
+    if (!room) {
+      throw new NotFoundException(`Room with ID ${roomId} not found`);
+    }
+
+    if (room.isDirect) {
+      throw new BadRequestException(
+        'Direct message conversations do not have roles',
       );
     }
 
-    // Cannot remove the owner from their own room
+    const membership = await this.roomMembershipRepository.findOne({
+      where: { roomId, userId: memberId },
+      relations: ['user'],
+    });
+
+    if (!membership) {
+      throw new NotFoundException('User is not a member of this room');
+    }
+
+    if (memberId === userId) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+
     if (memberId === room.ownerId) {
+      throw new ForbiddenException("The room creator's role cannot be changed");
+    }
+
+    // Owners may appoint other owners, everyone else can only hand out and
+    // change roles below their own
+    const actorRole = await this.roomPermissionService.getRole(room, userId);
+    const isOwner = actorRole === RoomRole.OWNER;
+
+    if (
+      !this.roomPermissionService.outranks(actorRole, membership.role) &&
+      !isOwner
+    ) {
       throw new ForbiddenException(
-        'Cannot remove the owner from their own room',
+        'You can only change the role of members below you',
       );
     }
 
-    await this.roomMembershipRepository.delete({
-      roomId,
-      userId: memberId,
+    if (!this.roomPermissionService.outranks(actorRole, role) && !isOwner) {
+      throw new ForbiddenException('You can only assign roles below your own');
+    }
+
+    membership.role = role;
+
+    return this.roomMembershipRepository.save(membership);
+  }
+
+  async setArchived(id: string, archived: boolean): Promise<Room> {
+    const room = await this.roomRepository.findOne({
+      where: { id },
     });
+
+    if (!room) {
+      throw new NotFoundException(`Room with ID ${id} not found`);
+    }
+
+    if (room.isDirect) {
+      throw new BadRequestException(
+        'Direct message conversations cannot be archived',
+      );
+    }
+
+    room.archivedAt = archived ? new Date() : null;
+
+    return this.roomRepository.save(room);
+  }
+
+  private async attachDirectMessageDetails(
+    rooms: Room[],
+    userId: string,
+  ): Promise<Room[]> {
+    const directRoomIds = rooms
+      .filter((room) => room.isDirect)
+      .map((room) => room.id);
+
+    if (directRoomIds.length === 0) {
+      return rooms;
+    }
+
+    const memberships = await this.roomMembershipRepository.find({
+      where: { roomId: In(directRoomIds) },
+      relations: ['user'],
+    });
+
+    rooms
+      .filter((room) => room.isDirect)
+      .forEach((room) => {
+        room.participants = memberships
+          .filter((membership) => membership.roomId === room.id)
+          .map((membership) => membership.user);
+        room.title = this.directMessageTitle(room.participants, userId);
+      });
+
+    return rooms;
+  }
+
+  // Direct messages are named after the other participants, falling back to
+  // the viewer's own name for a conversation with themselves
+  private directMessageTitle(participants: User[], viewerId?: string): string {
+    const others = participants.filter(
+      (participant) => participant.id !== viewerId,
+    );
+
+    return (others.length > 0 ? others : participants)
+      .map((participant) => participant.displayName || participant.username)
+      .sort((a, b) => a.localeCompare(b))
+      .join(', ');
   }
 }
@@ -0,0 +1,108 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import { Subject } from 'rxjs';
+import { Session } from '../entities/session.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+
+// Where a login came from, recorded when the session starts
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Avoid a write on every request, last seen only needs to be roughly right
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+@Injectable()
+export class SessionService {
+  // Emits the IDs of revoked sessions so live connections can be closed
+  readonly revoked = new Subject<string[]>();
+
+  constructor(
+    @InjectRepository(Session)
+    private sessionRepository: Repository<Session>,
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+  ) {}
+
+  async create(userId: string, client: SessionClient): Promise<Session> {
+    const session = this.sessionRepository.create({
+      userId,
+      userAgent: client.userAgent?.slice(0, 512) ?? null,
+      ipAddress: client.ipAddress ?? null,
+    });
+
+    return this.sessionRepository.save(session);
+  }
+
+  async findAllActive(userId: string): Promise<Session[]> {
+    return this.sessionRepository.find({
+      where: { userId, revokedAt: IsNull() },
+      order: { lastSeenAt: 'DESC' },
+    });
+  }
+
+  // Returns the session if it is still live, updating when it was last seen
+  async findActive(sessionId: string, userId: string): Promise<Session | null> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, userId, revokedAt: IsNull() },
+    });
+
+    if (
+      session &&
+      Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS
+    ) {
+      session.lastSeenAt = new Date();
+      await this.sessionRepository.update(session.id, {
+        lastSeenAt: session.lastSeenAt,
+      });
+    }
+
+    return session;
+  }
+
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, userId, revokedAt: IsNull() },
+    });
+
+    // Check if the session exists and belongs to the user
+    if (!session) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+
+    await this.revokeSessions([session.id]);
+  }
+
+  // Signs out every session of the user, optionally keeping one
+  async revokeAll(userId: string, exceptSessionId?: string): Promise<void> {
+    const sessions = await this.sessionRepository.find({
+      where: {
+        userId,
+        revokedAt: IsNull(),
+        ...(exceptSessionId && { id: Not(exceptSessionId) }),
+      },
+    });
+
+    await this.revokeSessions(sessions.map((session) => session.id));
+  }
+
+  async revokeSessions(sessionIds: string[]): Promise<void> {
+    if (sessionIds.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    await this.sessionRepository.update(
+      { id: In(sessionIds), revokedAt: IsNull() },
+      { revokedAt: now },
+    );
+    await this.refreshTokenRepository.update(
+      { sessionId: In(sessionIds), revokedAt: IsNull() },
+      { revokedAt: now },
+    );
+
+    this.revoked.next(sessionIds);
+  }
+}
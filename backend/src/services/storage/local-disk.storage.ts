@@ -0,0 +1,47 @@
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { Storage } from './storage';
+
+// Stores files under a directory on the server, for development and single hosts
+export class LocalDiskStorage implements Storage {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = resolve(rootDir);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const filePath = this.resolveKey(key);
+
+    try {
+      await stat(filePath);
+    } catch {
+      return null;
+    }
+
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  private resolveKey(key: string): string {
+    const filePath = resolve(this.rootDir, key);
+
+    // Check if the key stays inside the storage directory
+    if (!filePath.startsWith(this.rootDir + sep)) {
+      throw new Error(`Invalid storage key ${key}`);
+    }
+
+    return filePath;
+  }
+}
@@ -0,0 +1,11 @@
+import { Readable } from 'stream';
+
+export const STORAGE = 'STORAGE';
+
+// Keeps uploaded files by key, services decide the keys
+export interface Storage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when nothing is stored under the key
+  get(key: string): Promise<Readable | null>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,90 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { Subject } from 'rxjs';
+
+// Where someone is typing, a thread when parentMessageId is set
+export interface TypingScope {
+  roomId: string;
+  channelId: string;
+  parentMessageId?: string | null;
+}
+
+export interface TypingChange extends TypingScope {
+  userId: string;
+  typing: boolean;
+}
+
+interface TypingEntry {
+  userId: string;
+  scope: TypingScope;
+  socketId: string;
+  lastBroadcastAt: number;
+  timer: NodeJS.Timeout;
+}
+
+// Typing stops on its own when the client goes quiet for this long
+const TYPING_TIMEOUT_MS = 5 * 1000;
+
+// Repeated starts are passed on at most this often, keeping clients from expiring the indicator
+const TYPING_BROADCAST_INTERVAL_MS = 3 * 1000;
+
+@Injectable()
+export class TypingService implements OnModuleDestroy {
+  // Emits when a user starts or stops typing somewhere
+  readonly changed = new Subject<TypingChange>();
+
+  private entries = new Map<string, TypingEntry>();
+
+  onModuleDestroy() {
+    this.entries.forEach((entry) => clearTimeout(entry.timer));
+    this.entries.clear();
+  }
+
+  start(userId: string, socketId: string, scope: TypingScope) {
+    const key = this.key(userId, scope);
+    const existing = this.entries.get(key);
+    const now = Date.now();
+
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const shouldBroadcast =
+      !existing ||
+      now - existing.lastBroadcastAt >= TYPING_BROADCAST_INTERVAL_MS;
+
+    this.entries.set(key, {
+      userId,
+      scope,
+      socketId,
+      lastBroadcastAt: shouldBroadcast
+        ? now
+        : (existing?.lastBroadcastAt ?? now),
+      timer: setTimeout(() => this.stop(userId, scope), TYPING_TIMEOUT_MS),
+    });
+
+    if (shouldBroadcast) {
+      this.changed.next({ ...scope, userId, typing: true });
+    }
+  }
+
+  stop(userId: string, scope: TypingScope) {
+    const key = this.key(userId, scope);
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    this.entries.delete(key);
+    this.changed.next({ ...entry.scope, userId, typing: false });
+  }
+
+  // A closed connection stops everything it was typing
+  stopAllForSocket(socketId: string) {
+    Array.from(this.entries.values())
+      .filter((entry) => entry.socketId === socketId)
+      .forEach((entry) => this.stop(entry.userId, entry.scope));
+  }
+
+  private key(userId: string, scope: TypingScope) {
+    return `${userId}:${scope.channelId}:${scope.parentMessageId ?? ''}`;
+  }
+}
@@ -124,12 +124,6 @@ export class UserService {
     await this.userRepository.remove(user);
   }
 
-  async updateOnlineStatus(id: string, isOnline: boolean): Promise<User> {
-    const user = await this.findOne(id);
-    user.isOnline = isOnline;
-    return this.userRepository.save(user);
-  }
-
   async searchUsers(query: string): Promise<User[]> {
     return this.userRepository
       .createQueryBuilder('user')
@@ -0,0 +1,329 @@
+// The markdown subset messages are written in. The frontend renders the same
+// tree, so this file must not import anything from Node, Nest or the backend.
+//
+//   *bold* or **bold**, _italic_, ~strike~, `code`, ```fenced code```,
+//   > quotes, - lists, 1. numbered lists, [links](https://…) and bare URLs,
+//   @username, @here and @room mentions
+//
+// There is no raw HTML, everything that is not markup is text.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'mention'; name: string }
+  | { type: 'lineBreak' };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'codeBlock'; language: string | null; text: string }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] };
+
+const EMPHASIS: Record<string, 'bold' | 'italic' | 'strike'> = {
+  '*': 'bold',
+  _: 'italic',
+  '~': 'strike',
+};
+
+const FENCE = /^\s*```\s*([\w+#.-]*)\s*$/;
+const QUOTE = /^\s*> ?(.*)$/;
+const BULLET_ITEM = /^\s*[-*•]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const LINK = /^\[([^\]\n]+)\]\(([^()\s]+)\)/;
+const BARE_URL = /^https?:\/\/[^\s<>]*[^\s<>.,:;"'!?)\]]/;
+
+// Same characters as usernames, see CreateUserDto
+const MENTION = /^@([a-zA-Z0-9_-]+)/;
+
+// Mentions that notify many members at once rather than one user
+export const HERE_MENTION = 'here';
+export const ROOM_MENTION = 'room';
+
+// Anything else, javascript: included, is left as text
+const SAFE_HREF = /^(https?:\/\/|mailto:)/i;
+
+// Emphasis markers only count next to whitespace or punctuation, so
+// snake_case names and 2*3*4 stay as they are
+const isBoundary = (char: string | undefined) =>
+  char === undefined || /[\s.,:;!?'"()[\]{}<>/\\*_~-]/.test(char);
+
+const isWhitespace = (char: string | undefined) =>
+  char !== undefined && /\s/.test(char);
+
+const findEmphasisEnd = (
+  text: string,
+  marker: string,
+  from: number,
+  lineEnd: number,
+): number => {
+  for (
+    let index = text.indexOf(marker, from);
+    index !== -1 && index + marker.length <= lineEnd;
+    index = text.indexOf(marker, index + 1)
+  ) {
+    const after = text[index + marker.length];
+    if (
+      !isWhitespace(text[index - 1]) &&
+      after !== marker[0] &&
+      isBoundary(after)
+    ) {
+      return index;
+    }
+  }
+
+  return -1;
+};
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'lineBreak' });
+      index++;
+      continue;
+    }
+
+    // Code spans are taken literally, markup inside them is not parsed
+    if (char === '`') {
+      const end = text.indexOf('`', index + 1);
+      if (end > index + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(index + 1, end) });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = LINK.exec(rest);
+      if (link && SAFE_HREF.test(link[2])) {
+        flush();
+        nodes.push({
+          type: 'link',
+          href: link[2],
+          children: parseInline(link[1]),
+        });
+        index += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === 'h' && isBoundary(text[index - 1])) {
+      const url = BARE_URL.exec(rest);
+      if (url) {
+        flush();
+        nodes.push({
+          type: 'link',
+          href: url[0],
+          children: [{ type: 'text', text: url[0] }],
+        });
+        index += url[0].length;
+        continue;
+      }
+    }
+
+    // Not after a word character, so email addresses are left alone
+    if (char === '@' && isBoundary(text[index - 1])) {
+      const mention = MENTION.exec(rest);
+      if (mention) {
+        flush();
+        nodes.push({ type: 'mention', name: mention[1] });
+        index += mention[0].length;
+        continue;
+      }
+    }
+
+    if (char in EMPHASIS && isBoundary(text[index - 1])) {
+      const marker = text[index + 1] === char ? char + char : char;
+      const contentStart = index + marker.length;
+      const lineEnd = text.includes('\n', contentStart)
+        ? text.indexOf('\n', contentStart)
+        : text.length;
+
+      if (!isWhitespace(text[contentStart]) && contentStart < lineEnd) {
+        const end = findEmphasisEnd(text, marker, contentStart + 1, lineEnd);
+        if (end !== -1) {
+          flush();
+          nodes.push({
+            type: EMPHASIS[char],
+            children: parseInline(text.slice(contentStart, end)),
+          });
+          index = end + marker.length;
+          continue;
+        }
+      }
+    }
+
+    buffer += char;
+    index++;
+  }
+
+  flush();
+  return nodes;
+};
+
+export const parseMarkdown = (source: string): BlockNode[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length) {
+      blocks.push({
+        type: 'paragraph',
+        children: parseInline(paragraph.join('\n')),
+      });
+      paragraph = [];
+    }
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+
+    // An unclosed fence runs to the end of the message
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !/^\s*```\s*$/.test(lines[index])) {
+        code.push(lines[index]);
+        index++;
+      }
+      blocks.push({
+        type: 'codeBlock',
+        language: fence[1] || null,
+        text: code.join('\n'),
+      });
+      index++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      let match: RegExpExecArray | null;
+      while (index < lines.length && (match = QUOTE.exec(lines[index]))) {
+        quoted.push(match[1]);
+        index++;
+      }
+      blocks.push({
+        type: 'quote',
+        children: parseMarkdown(quoted.join('\n')),
+      });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.exec(line);
+    if (ordered || BULLET_ITEM.test(line)) {
+      flushParagraph();
+      const pattern = ordered ? ORDERED_ITEM : BULLET_ITEM;
+      const items: InlineNode[][] = [];
+      let match: RegExpExecArray | null;
+      while (index < lines.length && (match = pattern.exec(lines[index]))) {
+        items.push(parseInline(match[match.length - 1]));
+        index++;
+      }
+      blocks.push({
+        type: 'list',
+        ordered: !!ordered,
+        start: ordered ? Number(ordered[1]) : 1,
+        items,
+      });
+      continue;
+    }
+
+    if (line.trim()) {
+      paragraph.push(line);
+    } else {
+      flushParagraph();
+    }
+    index++;
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+const inlineToPlainText = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'lineBreak':
+          return '\n';
+        case 'mention':
+          return `@${node.name}`;
+        default:
+          return inlineToPlainText(node.children);
+      }
+    })
+    .join('');
+
+const blocksToPlainText = (blocks: BlockNode[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'paragraph':
+          return inlineToPlainText(block.children);
+        case 'codeBlock':
+          return block.text;
+        case 'quote':
+          return blocksToPlainText(block.children);
+        case 'list':
+          return block.items.map(inlineToPlainText).join('\n');
+      }
+    })
+    .join('\n');
+
+// The text without markup, for search and for previews in notifications
+export const toPlainText = (source: string): string =>
+  blocksToPlainText(parseMarkdown(source)).trim();
+
+const collectMentions = (nodes: InlineNode[], names: Set<string>) => {
+  nodes.forEach((node) => {
+    if (node.type === 'mention') {
+      names.add(node.name.toLowerCase());
+    } else if ('children' in node) {
+      collectMentions(node.children, names);
+    }
+  });
+};
+
+// Lowercased names mentioned outside of code, each once
+export const findMentions = (source: string): string[] => {
+  const names = new Set<string>();
+
+  const visit = (blocks: BlockNode[]) =>
+    blocks.forEach((block) => {
+      if (block.type === 'paragraph') {
+        collectMentions(block.children, names);
+      } else if (block.type === 'quote') {
+        visit(block.children);
+      } else if (block.type === 'list') {
+        block.items.forEach((item) => collectMentions(item, names));
+      }
+    });
+
+  visit(parseMarkdown(source));
+  return [...names];
+};
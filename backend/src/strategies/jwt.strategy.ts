@@ -5,6 +5,7 @@ import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { User } from 'src/entities/user.entity';
+import { SessionService } from 'src/services/session.service';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 
 @Injectable()
@@ -14,6 +15,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     private configService: ConfigService,
     @InjectRepository(User)
     private userRepository: Repository<User>,
+    private sessionService: SessionService,
   ) {
     const jwtSecret = configService.get<string>('JWT_SECRET');
 
@@ -33,12 +35,19 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   @ApiOperation({ summary: 'Validate JWT payload' })
   @ApiResponse({ status: 200, description: 'Payload validated successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
-  async validate(payload: { sub: string }) {
-    const { sub: id } = payload;
+  async validate(payload: { sub: string; sid?: string }) {
+    const { sub: id, sid: sessionId } = payload;
+
+    // Only access tokens carry a session, and it must not have been revoked
+    if (!sessionId || !(await this.sessionService.findActive(sessionId, id))) {
+      throw new UnauthorizedException('Session has expired');
+    }
+
     const user = await this.userRepository.findOne({ where: { id } });
     if (!user) {
       throw new UnauthorizedException('User not found');
     }
+    user.sessionId = sessionId;
     return user;
   }
 }
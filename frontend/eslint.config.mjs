@@ -34,6 +34,10 @@ export default [
     plugins: {
       import: importPlugin,
     },
+    settings: {
+      // Code shared with the backend, see the @shared alias in webpack.config.js
+      'import/internal-regex': '^@shared/',
+    },
     rules: {
       'no-console': 'warn',
       'no-unused-vars': 'off',
@@ -108,6 +112,16 @@ export default [
     },
   },
 
+  // Jest globals for specs
+  {
+    files: ['**/*.spec.ts'],
+    languageOptions: {
+      globals: {
+        ...globals.jest,
+      },
+    },
+  },
+
   // Prettier integration
   {
     files: ['**/*.{js,jsx,ts,tsx}'],
@@ -1,24 +1,55 @@
-import { Circle, ExitToApp } from '@mui/icons-material';
-import { Typography, Avatar, Box, Stack, Divider } from '@mui/material';
+import { ExitToApp, SettingsOutlined } from '@mui/icons-material';
+import {
+  Typography,
+  Avatar,
+  Box,
+  ButtonBase,
+  Stack,
+  Divider,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
 import React from 'react';
 import { useDispatch } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
 
+import { usePresence } from '../hooks/usePresence';
+import { useLogoutMutation } from '../services/auth';
+import { avatarUrl, useGetPresenceQuery } from '../services/user';
 import { logout } from '../slices/authSlice';
+import { openModal } from '../slices/modalSlice';
 import { useAppSelector } from '../store';
 
 import { SidebarContainer, UserInfoContainer, MainContainer, ContentArea } from './App.styles';
+import EmailVerificationBanner from './authComponents/EmailVerificationBanner';
 import { AppButton } from './common/AppButton';
+import { PresenceDot } from './common/PresenceDot';
 import MessagesArea from './messages/MessagesArea';
+import StatusForm from './presence/StatusForm';
 import { RoomsList } from './rooms/RoomsList';
 
 const MainApp = () => {
   const dispatch = useDispatch();
+  const navigate = useNavigate();
   const avatar = useAppSelector((state) => state.auth.user?.avatar);
   const username = useAppSelector((state) => state.auth.user?.username);
+  const userId = useAppSelector((state) => state.auth.user?.id);
   const isAuthenticated = useAppSelector((state) => state.auth.isAuthenticated);
+  const refreshToken = useAppSelector((state) => state.auth.refreshToken);
+  const [revokeRefreshToken] = useLogoutMutation();
 
-  const handleClick = (e: React.MouseEvent<HTMLButtonElement>) => {
+  // Seeds presence for everyone sharing a room, the socket keeps it current
+  useGetPresenceQuery(undefined, { skip: !isAuthenticated });
+  const { presence, statusText, statusEmoji } = usePresence(userId);
+
+  const handleClick = async (e: React.MouseEvent<HTMLButtonElement>) => {
     e.preventDefault();
+    if (refreshToken) {
+      // Sign out locally even when the server cannot be reached
+      await revokeRefreshToken({ refreshToken })
+        .unwrap()
+        .catch(() => undefined);
+    }
     dispatch(logout());
   };
 
@@ -28,22 +59,41 @@ const MainApp = () => {
         <SidebarContainer elevation={0}>
           <UserInfoContainer>
             <Stack direction="row" spacing={1} alignItems="center" justifyContent="space-between">
-              <Avatar sx={{ width: 32, height: 32, bgcolor: 'primary.main' }}>
-                {avatar || (
-                  <Typography variant="subtitle1" fontWeight="medium" color="textPrimary">
-                    {username?.charAt(0).toUpperCase()}
-                  </Typography>
-                )}
+              <Avatar
+                src={userId ? avatarUrl({ id: userId, avatar }, 32) : undefined}
+                alt={username || ''}
+                sx={{ width: 32, height: 32, bgcolor: 'primary.main' }}
+              >
+                <Typography variant="subtitle1" fontWeight="medium" color="textPrimary">
+                  {username?.charAt(0).toUpperCase()}
+                </Typography>
               </Avatar>
               <Typography variant="subtitle1" fontWeight="medium">
                 {username}
               </Typography>
-              <Circle sx={{ height: '0.5em', width: '0.5em' }} color="success" />
+              <PresenceDot presence={presence} />
             </Stack>
+            <Tooltip title="Settings">
+              <IconButton size="small" onClick={() => navigate('/settings')} color="inherit">
+                <SettingsOutlined fontSize="small" />
+              </IconButton>
+            </Tooltip>
             <AppButton size="small" onClick={handleClick} startIcon={<ExitToApp />} color="inherit">
               Logout
             </AppButton>
           </UserInfoContainer>
+          <ButtonBase
+            onClick={() => dispatch(openModal('setStatus'))}
+            sx={{ justifyContent: 'flex-start', px: 2, pb: 1.5, color: 'text.secondary' }}
+          >
+            <Typography variant="body2" noWrap>
+              {statusEmoji || statusText
+                ? [statusEmoji, statusText].filter(Boolean).join(' ')
+                : 'Set a status'}
+            </Typography>
+          </ButtonBase>
+          <StatusForm />
+          <EmailVerificationBanner />
           <Divider />
           <Box sx={{ flexGrow: 1, overflow: 'auto' }}>
             <RoomsList />
@@ -1,22 +1,46 @@
 import React from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useSearchParams } from 'react-router-dom';
 
 import App from './App';
+import ForgotPasswordForm from './authComponents/ForgotPasswordForm';
 import LoginForm from './authComponents/LoginForm';
+import ResetPasswordForm from './authComponents/ResetPasswordForm';
 import SignupForm from './authComponents/SignupForm';
+import VerifyEmailPage from './authComponents/VerifyEmailPage';
+import InvitePage from './invites/InvitePage';
+import SettingsPage from './settings/SettingsPage';
 
 import { useAppSelector } from '@/store';
 
+// Honour ?next= so flows like invite links resume after logging in
+const RedirectAfterAuth = () => {
+  const [searchParams] = useSearchParams();
+  const next = searchParams.get('next');
+  return <Navigate to={next?.startsWith('/') ? next : '/rooms'} replace />;
+};
+
 const Router = () => {
   const loggedIn = useAppSelector((state) => state.auth.isAuthenticated);
 
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/login" element={loggedIn ? <Navigate to="/rooms" /> : <LoginForm />} />
-        <Route path="/signup" element={loggedIn ? <Navigate to="/rooms" /> : <SignupForm />} />
+        <Route path="/login" element={loggedIn ? <RedirectAfterAuth /> : <LoginForm />} />
+        <Route path="/signup" element={loggedIn ? <RedirectAfterAuth /> : <SignupForm />} />
+        <Route
+          path="/forgot-password"
+          element={loggedIn ? <Navigate to="/rooms" /> : <ForgotPasswordForm />}
+        />
+        <Route path="/reset-password" element={<ResetPasswordForm />} />
+        <Route path="/verify-email" element={<VerifyEmailPage />} />
+        <Route path="/invite/:code" element={<InvitePage />} />
+        <Route path="/settings" element={!loggedIn ? <Navigate to="/" /> : <SettingsPage />} />
         <Route path="/rooms" element={!loggedIn ? <Navigate to="/" /> : <App />} />
         <Route path="/rooms/:id" element={!loggedIn ? <Navigate to="/" /> : <App />} />
+        <Route
+          path="/rooms/:id/channels/:channelId"
+          element={!loggedIn ? <Navigate to="/" /> : <App />}
+        />
         <Route path="/" element={loggedIn ? <Navigate to="/rooms" /> : <LoginForm />} />
       </Routes>
     </BrowserRouter>
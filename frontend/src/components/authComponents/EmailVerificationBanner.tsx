@@ -0,0 +1,35 @@
+import { Alert, Link } from '@mui/material';
+import React from 'react';
+
+import { useResendEmailVerificationMutation } from '@/services/auth';
+import { useAppSelector } from '@/store';
+
+const EmailVerificationBanner: React.FC = () => {
+  const user = useAppSelector((state) => state.auth.user);
+  const [resend, { isLoading, isSuccess, isError }] = useResendEmailVerificationMutation();
+
+  // Accounts from before verification existed have no flag stored locally
+  if (!user || user.emailVerified !== false) return null;
+
+  const handleResend = (e: React.MouseEvent) => {
+    e.preventDefault();
+    resend();
+  };
+
+  return (
+    <Alert severity="info" sx={{ mx: 2, mb: 2, fontSize: '0.8rem' }}>
+      Please confirm {user.email || 'your email address'}.{' '}
+      {isSuccess ? (
+        'Link sent!'
+      ) : isError ? (
+        'Try again in a few minutes.'
+      ) : (
+        <Link component="button" onClick={handleResend} disabled={isLoading}>
+          Resend link
+        </Link>
+      )}
+    </Alert>
+  );
+};
+
+export default EmailVerificationBanner;
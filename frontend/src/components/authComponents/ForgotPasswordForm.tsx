@@ -0,0 +1,95 @@
+import { Box, Typography, Container, Paper, Alert, Stack, Link } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { FetchBaseQueryError } from '@reduxjs/toolkit/query';
+import React, { useState } from 'react';
+import { Link as ReactLink } from 'react-router-dom';
+
+import { AppButton } from '../common/AppButton';
+import { InputField } from '../common/InputField';
+import AppBar from '../nav/AppBar';
+
+import { loginFormStyles } from './LoginForm.styles';
+
+import { useForgotPasswordMutation } from '@/services/auth';
+
+const ForgotPasswordForm: React.FC = () => {
+  const theme = useTheme();
+  const styles = loginFormStyles(theme);
+
+  const [email, setEmail] = useState('');
+  const [forgotPassword, { error, isLoading, isSuccess }] = useForgotPasswordMutation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await forgotPassword({ email: email.trim() }).unwrap();
+  };
+
+  // Validation errors come back as a list, other errors as a single message
+  const message = ((error as FetchBaseQueryError)?.data as { message?: string | string[] })
+    ?.message;
+  const errorMessages = message ? ([] as string[]).concat(message) : [];
+
+  return (
+    <>
+      <AppBar />
+      <Container sx={styles.container}>
+        <Paper elevation={3} sx={styles.paper}>
+          <Box component="form" onSubmit={handleSubmit} sx={styles.form}>
+            <Typography variant="h4" component="h3" gutterBottom sx={styles.title}>
+              Forgot your password?
+            </Typography>
+            <Typography variant="body1" sx={styles.description}>
+              {isSuccess
+                ? `If ${email} belongs to an account, a reset link is on its way. Check your inbox.`
+                : "Enter the email you signed up with and we'll send you a link to choose a new password."}
+            </Typography>
+
+            <Stack spacing={3}>
+              {!isSuccess && (
+                <>
+                  <InputField
+                    id="email-input"
+                    label="Email"
+                    variant="outlined"
+                    type="email"
+                    fullWidth
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+
+                  <AppButton
+                    id="submit-input"
+                    type="submit"
+                    variant="contained"
+                    fullWidth
+                    disabled={isLoading || !email.trim()}
+                    sx={styles.submitButton}
+                  >
+                    Send Reset Link
+                  </AppButton>
+                </>
+              )}
+              <Typography variant="body2" align="center" sx={styles.signupText}>
+                Remembered it?{' '}
+                <Link component={ReactLink} to="/login" sx={styles.link}>
+                  Back to login
+                </Link>
+              </Typography>
+            </Stack>
+          </Box>
+        </Paper>
+
+        {errorMessages.length > 0 && (
+          <Box sx={styles.errorContainer}>
+            {errorMessages.map((error, idx) => (
+              <Alert key={idx} severity="error" sx={styles.errorAlert}>
+                {error}
+              </Alert>
+            ))}
+          </Box>
+        )}
+      </Container>
+    </>
+  );
+};
+export default ForgotPasswordForm;
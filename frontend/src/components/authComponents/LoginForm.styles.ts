@@ -32,6 +32,9 @@ export const loginFormStyles = (_theme: Theme) => ({
   link: {
     color: 'highlight.main',
   },
+  forgotText: {
+    mt: '8px !important',
+  },
   signupText: {
     mt: 1,
     color: 'text.secondary',
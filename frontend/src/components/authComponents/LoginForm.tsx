@@ -2,7 +2,7 @@ import { Box, Typography, Container, Paper, Alert, Stack, Link } from '@mui/mate
 import { useTheme } from '@mui/material/styles';
 import { FetchBaseQueryError } from '@reduxjs/toolkit/query';
 import React, { useState, useEffect } from 'react';
-import { Link as ReactLink } from 'react-router-dom';
+import { Link as ReactLink, useLocation } from 'react-router-dom';
 
 import { AppButton } from '../common/AppButton';
 import { InputField } from '../common/InputField';
@@ -10,7 +10,7 @@ import AppBar from '../nav/AppBar';
 
 import { loginFormStyles } from './LoginForm.styles';
 
-import { useLoginMutation } from '@/services/auth';
+import { useLoginMutation, useVerifyMfaLoginMutation } from '@/services/auth';
 
 interface Form {
   password: string;
@@ -20,13 +20,20 @@ interface Form {
 const LoginForm: React.FC = () => {
   const theme = useTheme();
   const styles = loginFormStyles(theme);
+  const location = useLocation();
 
   const [formState, setFormState] = useState<Form>({
     password: '',
     username: '',
   });
 
-  const [login, { error }] = useLoginMutation();
+  // Set once the password is accepted for an account with MFA enabled
+  const [mfaTempToken, setMfaTempToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+
+  const [login, { error: loginError }] = useLoginMutation();
+  const [verifyMfaLogin, { error: mfaError, isLoading: isVerifying }] = useVerifyMfaLoginMutation();
+  const error = mfaTempToken ? mfaError : loginError;
 
   useEffect(() => {
     setFormState({
@@ -42,66 +49,138 @@ const LoginForm: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const user = { ...formState };
-    await login(user).unwrap();
+    const result = await login(user).unwrap();
+    if ('requiresMfa' in result) {
+      setMfaTempToken(result.tempToken);
+    }
+  };
+
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaTempToken) return;
+    await verifyMfaLogin({ tempToken: mfaTempToken, token: mfaCode.trim() }).unwrap();
+  };
+
+  const handleMfaCancel = () => {
+    setMfaTempToken(null);
+    setMfaCode('');
   };
 
-  // Extract error messages from RTK Query error
-  const errorMessages = ((error as FetchBaseQueryError)?.data as { message: string[] })?.message;
+  // Validation errors come back as a list, other errors as a single message
+  const message = ((error as FetchBaseQueryError)?.data as { message?: string | string[] })
+    ?.message;
+  const errorMessages = message ? ([] as string[]).concat(message) : [];
+
+  const renderMfaStep = () => (
+    <Box component="form" onSubmit={handleMfaSubmit} sx={styles.form}>
+      <Typography variant="h4" component="h3" gutterBottom sx={styles.title}>
+        Two-factor authentication
+      </Typography>
+      <Typography variant="body1" sx={styles.description}>
+        Enter the 6-digit code from your authenticator app. Lost your device? Use one of your
+        recovery codes instead.
+      </Typography>
+
+      <Stack spacing={3}>
+        <InputField
+          id="mfa-code-input"
+          label="Code"
+          variant="outlined"
+          fullWidth
+          autoFocus
+          autoComplete="one-time-code"
+          value={mfaCode}
+          onChange={(e) => setMfaCode(e.target.value)}
+        />
+
+        <AppButton
+          id="mfa-submit-input"
+          type="submit"
+          variant="contained"
+          fullWidth
+          disabled={isVerifying || !mfaCode.trim()}
+          sx={styles.submitButton}
+        >
+          Verify
+        </AppButton>
+        <Typography variant="body2" align="center" sx={styles.signupText}>
+          <Link component="button" type="button" onClick={handleMfaCancel} sx={styles.link}>
+            Back to login
+          </Link>
+        </Typography>
+      </Stack>
+    </Box>
+  );
 
   return (
     <>
       <AppBar />
       <Container sx={styles.container}>
         <Paper elevation={3} sx={styles.paper}>
-          <Box component="form" onSubmit={handleSubmit} sx={styles.form}>
-            <Typography variant="h4" component="h3" gutterBottom sx={styles.title}>
-              Welcome Back!
-            </Typography>
-            <Typography variant="body1" sx={styles.description}>
-              Your friends are waiting for you. Jump back into the conversation and stay connected.
-            </Typography>
-
-            <Stack spacing={3}>
-              <InputField
-                id="username-input"
-                label="Username"
-                variant="outlined"
-                fullWidth
-                value={formState.username}
-                onChange={update('username')}
-              />
-
-              <InputField
-                id="password-input"
-                label="Password"
-                variant="outlined"
-                type="password"
-                fullWidth
-                value={formState.password}
-                onChange={update('password')}
-              />
-
-              <AppButton
-                id="submit-input"
-                type="submit"
-                variant="contained"
-                fullWidth
-                sx={styles.submitButton}
-              >
-                Login
-              </AppButton>
-              <Typography variant="body2" align="center" sx={styles.signupText}>
-                New to Raven?{' '}
-                <Link component={ReactLink} to="/signup" sx={styles.link}>
-                  Sign up
-                </Link>{' '}
-                and start chatting with your friends in real-time.
+          {mfaTempToken ? (
+            renderMfaStep()
+          ) : (
+            <Box component="form" onSubmit={handleSubmit} sx={styles.form}>
+              <Typography variant="h4" component="h3" gutterBottom sx={styles.title}>
+                Welcome Back!
               </Typography>
-            </Stack>
-          </Box>
+              <Typography variant="body1" sx={styles.description}>
+                Your friends are waiting for you. Jump back into the conversation and stay
+                connected.
+              </Typography>
+
+              <Stack spacing={3}>
+                <InputField
+                  id="username-input"
+                  label="Username"
+                  variant="outlined"
+                  fullWidth
+                  value={formState.username}
+                  onChange={update('username')}
+                />
+
+                <InputField
+                  id="password-input"
+                  label="Password"
+                  variant="outlined"
+                  type="password"
+                  fullWidth
+                  value={formState.password}
+                  onChange={update('password')}
+                />
+
+                <Typography variant="body2" align="right" sx={styles.forgotText}>
+                  <Link component={ReactLink} to="/forgot-password" sx={styles.link}>
+                    Forgot password?
+                  </Link>
+                </Typography>
+
+                <AppButton
+                  id="submit-input"
+                  type="submit"
+                  variant="contained"
+                  fullWidth
+                  sx={styles.submitButton}
+                >
+                  Login
+                </AppButton>
+                <Typography variant="body2" align="center" sx={styles.signupText}>
+                  New to Raven?{' '}
+                  <Link
+                    component={ReactLink}
+                    to={{ pathname: '/signup', search: location.search }}
+                    sx={styles.link}
+                  >
+                    Sign up
+                  </Link>{' '}
+                  and start chatting with your friends in real-time.
+                </Typography>
+              </Stack>
+            </Box>
+          )}
         </Paper>
 
-        {errorMessages?.length > 0 && (
+        {errorMessages.length > 0 && (
           <Box sx={styles.errorContainer}>
             {errorMessages.map((error, idx) => (
               <Alert key={idx} severity="error" sx={styles.errorAlert}>
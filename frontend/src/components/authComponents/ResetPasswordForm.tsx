@@ -0,0 +1,150 @@
+import { Box, Typography, Container, Paper, Alert, Stack, Link } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { FetchBaseQueryError } from '@reduxjs/toolkit/query';
+import React, { useState } from 'react';
+import { Link as ReactLink, useNavigate, useSearchParams } from 'react-router-dom';
+
+import { AppButton } from '../common/AppButton';
+import { InputField } from '../common/InputField';
+import AppBar from '../nav/AppBar';
+
+import { loginFormStyles } from './LoginForm.styles';
+
+import { useResetPasswordMutation } from '@/services/auth';
+
+interface Form {
+  newPassword: string;
+  confirmPassword: string;
+}
+
+const ResetPasswordForm: React.FC = () => {
+  const theme = useTheme();
+  const styles = loginFormStyles(theme);
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+
+  const [formState, setFormState] = useState<Form>({
+    newPassword: '',
+    confirmPassword: '',
+  });
+  const [mismatch, setMismatch] = useState(false);
+
+  const [resetPassword, { error, isLoading, isSuccess }] = useResetPasswordMutation();
+
+  const update = (field: keyof Form) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormState({ ...formState, [field]: e.target.value });
+    setMismatch(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formState.newPassword !== formState.confirmPassword) {
+      setMismatch(true);
+      return;
+    }
+    await resetPassword({ token, newPassword: formState.newPassword }).unwrap();
+  };
+
+  // Validation errors come back as a list, other errors as a single message
+  const message = ((error as FetchBaseQueryError)?.data as { message?: string | string[] })
+    ?.message;
+  const errorMessages = message ? ([] as string[]).concat(message) : [];
+  if (mismatch) {
+    errorMessages.push('Passwords do not match');
+  }
+
+  const renderBody = () => {
+    if (!token) {
+      return (
+        <Typography variant="body1" sx={styles.description}>
+          This reset link is incomplete. Request a new one from the{' '}
+          <Link component={ReactLink} to="/forgot-password" sx={styles.link}>
+            forgot password
+          </Link>{' '}
+          page.
+        </Typography>
+      );
+    }
+
+    if (isSuccess) {
+      return (
+        <Stack spacing={3}>
+          <Typography variant="body1" sx={styles.description}>
+            Your password has been changed. You can log in with it now.
+          </Typography>
+          <AppButton
+            onClick={() => navigate('/login')}
+            variant="contained"
+            fullWidth
+            sx={styles.submitButton}
+          >
+            Go to Login
+          </AppButton>
+        </Stack>
+      );
+    }
+
+    return (
+      <Stack spacing={3}>
+        <InputField
+          id="new-password-input"
+          label="New password"
+          variant="outlined"
+          type="password"
+          fullWidth
+          value={formState.newPassword}
+          onChange={update('newPassword')}
+        />
+
+        <InputField
+          id="confirm-password-input"
+          label="Confirm new password"
+          variant="outlined"
+          type="password"
+          fullWidth
+          value={formState.confirmPassword}
+          onChange={update('confirmPassword')}
+        />
+
+        <AppButton
+          id="submit-input"
+          type="submit"
+          variant="contained"
+          fullWidth
+          disabled={isLoading || !formState.newPassword}
+          sx={styles.submitButton}
+        >
+          Reset Password
+        </AppButton>
+      </Stack>
+    );
+  };
+
+  return (
+    <>
+      <AppBar />
+      <Container sx={styles.container}>
+        <Paper elevation={3} sx={styles.paper}>
+          <Box component="form" onSubmit={handleSubmit} sx={styles.form}>
+            <Typography variant="h4" component="h3" gutterBottom sx={styles.title}>
+              Choose a new password
+            </Typography>
+            {renderBody()}
+          </Box>
+        </Paper>
+
+        {errorMessages.length > 0 && (
+          <Box sx={styles.errorContainer}>
+            {errorMessages.map((error, idx) => (
+              <Alert key={idx} severity="error" sx={styles.errorAlert}>
+                {error}
+              </Alert>
+            ))}
+          </Box>
+        )}
+      </Container>
+    </>
+  );
+};
+export default ResetPasswordForm;
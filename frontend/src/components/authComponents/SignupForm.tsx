@@ -2,7 +2,7 @@ import { Box, Typography, Container, Paper, Alert, Stack, Link } from '@mui/mate
 import { useTheme } from '@mui/material/styles';
 import { FetchBaseQueryError } from '@reduxjs/toolkit/query';
 import React, { useState, useEffect } from 'react';
-import { Link as ReactLink } from 'react-router-dom';
+import { Link as ReactLink, useLocation } from 'react-router-dom';
 
 import { AppButton } from '../common/AppButton';
 import { InputField } from '../common/InputField';
@@ -27,6 +27,7 @@ interface ValidationErrors {
 const SignupForm: React.FC = () => {
   const theme = useTheme();
   const styles = signupFormStyles(theme);
+  const location = useLocation();
 
   const [formData, setFormData] = useState<UserFormData>({
     username: '',
@@ -193,7 +194,11 @@ const SignupForm: React.FC = () => {
               </AppButton>
               <Typography variant="body2" align="center" sx={styles.loginText}>
                 Already have an account?{' '}
-                <Link component={ReactLink} to="/login" sx={styles.link}>
+                <Link
+                  component={ReactLink}
+                  to={{ pathname: '/login', search: location.search }}
+                  sx={styles.link}
+                >
                   Login
                 </Link>{' '}
                 and reconnect with your team.
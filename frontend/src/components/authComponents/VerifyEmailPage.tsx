@@ -0,0 +1,74 @@
+import { Box, Typography, Container, Paper, CircularProgress } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import React, { useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+import { AppButton } from '../common/AppButton';
+import AppBar from '../nav/AppBar';
+
+import { loginFormStyles } from './LoginForm.styles';
+
+import { useVerifyEmailMutation } from '@/services/auth';
+import { useAppSelector } from '@/store';
+
+const VerifyEmailPage: React.FC = () => {
+  const theme = useTheme();
+  const styles = loginFormStyles(theme);
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const loggedIn = useAppSelector((state) => state.auth.isAuthenticated);
+
+  const [verifyEmail, { isLoading, isSuccess, isError, isUninitialized }] =
+    useVerifyEmailMutation();
+
+  useEffect(() => {
+    if (token) {
+      verifyEmail({ token });
+    }
+  }, [token, verifyEmail]);
+
+  const description = () => {
+    if (!token || isError) {
+      return 'This verification link is invalid or has expired. Log in to request a new one.';
+    }
+    if (isSuccess) {
+      return 'Thanks! Your email address is confirmed.';
+    }
+    return 'Confirming your email address...';
+  };
+
+  return (
+    <>
+      <AppBar />
+      <Container sx={styles.container}>
+        <Paper elevation={3} sx={styles.paper}>
+          <Box sx={styles.form}>
+            <Typography variant="h4" component="h3" gutterBottom sx={styles.title}>
+              Verify your email
+            </Typography>
+            <Typography variant="body1" sx={styles.description}>
+              {description()}
+            </Typography>
+            {token && (isLoading || isUninitialized) ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+                <CircularProgress size={28} />
+              </Box>
+            ) : (
+              <AppButton
+                variant="contained"
+                fullWidth
+                onClick={() => navigate(loggedIn ? '/rooms' : '/login')}
+                sx={styles.submitButton}
+              >
+                {loggedIn ? 'Back to Raven' : 'Go to Login'}
+              </AppButton>
+            )}
+          </Box>
+        </Paper>
+      </Container>
+    </>
+  );
+};
+
+export default VerifyEmailPage;
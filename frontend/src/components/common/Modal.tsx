@@ -3,7 +3,7 @@ import { Modal as MuiModal, Box, IconButton, SxProps, Theme } from '@mui/materia
 import React from 'react';
 import { useDispatch } from 'react-redux';
 
-import { closeModal } from '../../slices/modalSlice';
+import { closeModal, ModalType } from '../../slices/modalSlice';
 
 import { useAppSelector } from '@/store';
 
@@ -33,9 +33,14 @@ const styles: Record<string, SxProps<Theme>> = {
   },
 };
 
-export const Modal = ({ children }: { children: React.ReactNode }) => {
+interface ModalProps {
+  children: React.ReactNode;
+  modalType?: ModalType;
+}
+
+export const Modal = ({ children, modalType = 'newRoom' }: ModalProps) => {
   const dispatch = useDispatch();
-  const open = useAppSelector((state) => state.modal.open);
+  const open = useAppSelector((state) => state.modal.open && state.modal.modalType === modalType);
 
   const handleClose = () => {
     dispatch(closeModal());
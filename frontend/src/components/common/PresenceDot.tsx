@@ -0,0 +1,34 @@
+import { Circle } from '@mui/icons-material';
+import { SxProps, Theme, Tooltip } from '@mui/material';
+import React from 'react';
+
+import { PresenceStatus } from '@/types';
+
+const COLORS: Record<PresenceStatus, string> = {
+  online: 'success.main',
+  away: 'warning.main',
+  offline: 'text.disabled',
+};
+
+const LABELS: Record<PresenceStatus, string> = {
+  online: 'Online',
+  away: 'Away',
+  offline: 'Offline',
+};
+
+interface PresenceDotProps {
+  presence: PresenceStatus;
+  sx?: SxProps<Theme>;
+}
+
+export const PresenceDot: React.FC<PresenceDotProps> = ({ presence, sx }) => (
+  <Tooltip title={LABELS[presence]}>
+    <Circle
+      aria-label={LABELS[presence]}
+      sx={[
+        { height: '0.5em', width: '0.5em', color: COLORS[presence] },
+        ...(Array.isArray(sx) ? sx : [sx]),
+      ]}
+    />
+  </Tooltip>
+);
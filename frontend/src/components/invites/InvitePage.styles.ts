@@ -0,0 +1,40 @@
+import { Theme } from '@mui/material/styles';
+
+export const invitePageStyles = (_theme: Theme) => ({
+  container: {
+    maxWidth: 'sm',
+    display: 'flex',
+    flexDirection: 'column',
+    justifyContent: 'center',
+    minHeight: 'calc(100vh - 64px)',
+  },
+  paper: {
+    p: 4,
+    backgroundColor: 'background.paper',
+    borderRadius: 2,
+    textAlign: 'center',
+  },
+  eyebrow: {
+    color: 'text.secondary',
+    mb: 1,
+  },
+  title: {
+    color: 'text.primary',
+    mb: 1,
+  },
+  description: {
+    mb: 3,
+    color: 'text.secondary',
+  },
+  submitButton: {
+    mt: 2,
+    py: 1.5,
+  },
+  loader: {
+    color: 'highlight.main',
+  },
+  errorAlert: {
+    backgroundColor: 'secondary.main',
+    color: 'text.error',
+  },
+});
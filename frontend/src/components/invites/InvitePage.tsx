@@ -0,0 +1,105 @@
+import { Alert, Box, CircularProgress, Container, Paper, Stack, Typography } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { FetchBaseQueryError } from '@reduxjs/toolkit/query';
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+
+import { AppButton } from '../common/AppButton';
+import AppBar from '../nav/AppBar';
+
+import { invitePageStyles } from './InvitePage.styles';
+
+import { useAcceptInviteMutation, useGetInviteQuery } from '@/services/room';
+import { setCurrentRoom } from '@/slices/roomSlice';
+import { useAppDispatch, useAppSelector } from '@/store';
+
+const getErrorMessage = (error: unknown) => {
+  const message = ((error as FetchBaseQueryError)?.data as { message?: string | string[] })
+    ?.message;
+  if (Array.isArray(message)) return message[0];
+  return message || 'This invite is no longer valid';
+};
+
+const InvitePage: React.FC = () => {
+  const theme = useTheme();
+  const styles = invitePageStyles(theme);
+  const { code = '' } = useParams();
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const loggedIn = useAppSelector((state) => state.auth.isAuthenticated);
+
+  const { data: invite, error: previewError, isLoading } = useGetInviteQuery(code);
+  const [acceptInvite, { error: acceptError, isLoading: isAccepting }] = useAcceptInviteMutation();
+
+  const handleJoin = async () => {
+    const room = await acceptInvite(code).unwrap();
+    dispatch(setCurrentRoom(room.id));
+    navigate(`/rooms/${room.id}`);
+  };
+
+  // Send people back here once they have logged in or signed up
+  const next = `?next=${encodeURIComponent(`/invite/${code}`)}`;
+  const error = previewError || acceptError;
+
+  return (
+    <>
+      <AppBar />
+      <Container sx={styles.container}>
+        <Paper elevation={3} sx={styles.paper}>
+          {isLoading && <CircularProgress sx={styles.loader} />}
+
+          {invite?.room && (
+            <>
+              <Typography variant="body2" sx={styles.eyebrow}>
+                You have been invited to join
+              </Typography>
+              <Typography variant="h4" component="h3" sx={styles.title}>
+                {invite.room.title}
+              </Typography>
+              <Typography variant="body1" sx={styles.description}>
+                {invite.room.memberCount ?? 0}{' '}
+                {invite.room.memberCount === 1 ? 'member' : 'members'}
+              </Typography>
+
+              {loggedIn ? (
+                <AppButton
+                  variant="contained"
+                  fullWidth
+                  onClick={handleJoin}
+                  disabled={isAccepting}
+                  sx={styles.submitButton}
+                >
+                  Join Room
+                </AppButton>
+              ) : (
+                <Stack spacing={2}>
+                  <AppButton
+                    onClick={() => navigate(`/login${next}`)}
+                    variant="contained"
+                    fullWidth
+                    sx={styles.submitButton}
+                  >
+                    Log in to join
+                  </AppButton>
+                  <AppButton onClick={() => navigate(`/signup${next}`)} fullWidth>
+                    Sign up
+                  </AppButton>
+                </Stack>
+              )}
+            </>
+          )}
+
+          {error && (
+            <Box sx={{ mt: invite ? 2 : 0 }}>
+              <Alert severity="error" sx={styles.errorAlert}>
+                {getErrorMessage(error)}
+              </Alert>
+            </Box>
+          )}
+        </Paper>
+      </Container>
+    </>
+  );
+};
+
+export default InvitePage;
@@ -0,0 +1,39 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  attachmentList: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'flex-start',
+    gap: '8px',
+    marginTop: '4px',
+  },
+  thumbnailButton: {
+    padding: 0,
+    border: (theme) => `1px solid ${theme.palette.divider}`,
+    borderRadius: 1,
+    overflow: 'hidden',
+    cursor: 'zoom-in',
+    backgroundColor: 'transparent',
+    lineHeight: 0,
+  },
+  thumbnail: {
+    display: 'block',
+    maxWidth: '240px',
+    maxHeight: '240px',
+  },
+  // Keeps the space of the image while it loads
+  thumbnailPlaceholder: {
+    width: '120px',
+    height: '120px',
+    backgroundColor: 'action.hover',
+  },
+  fullImage: {
+    display: 'block',
+    maxWidth: '90vw',
+    maxHeight: '90vh',
+  },
+  fileChip: {
+    maxWidth: '320px',
+  },
+};
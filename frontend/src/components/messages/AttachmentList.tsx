@@ -0,0 +1,113 @@
+import { InsertDriveFileOutlined } from '@mui/icons-material';
+import { Box, Chip, Dialog } from '@mui/material';
+import React, { useState } from 'react';
+import { useDispatch, useStore } from 'react-redux';
+
+import { styles } from './AttachmentList.styles';
+
+import { useAuthorizedObjectUrl } from '@/hooks/useAuthorizedObjectUrl';
+import { fetchAuthorizedBlob } from '@/services/baseQuery';
+import { AppDispatch, RootState } from '@/store';
+import { Attachment } from '@/types';
+
+// "512 B", "1.5 KB", "12.0 MB"
+export const formatFileSize = (size: number) => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const ImageAttachment: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
+  const [open, setOpen] = useState(false);
+  const thumbnailUrl = useAuthorizedObjectUrl(
+    attachment.hasThumbnail
+      ? `/attachments/${attachment.id}/thumbnail`
+      : `/attachments/${attachment.id}`
+  );
+  // The full image is only fetched once it is opened
+  const fullUrl = useAuthorizedObjectUrl(open ? `/attachments/${attachment.id}` : undefined);
+
+  return (
+    <>
+      <Box
+        component="button"
+        type="button"
+        title={attachment.fileName}
+        onClick={() => setOpen(true)}
+        sx={styles.thumbnailButton}
+      >
+        {thumbnailUrl ? (
+          <Box component="img" src={thumbnailUrl} alt={attachment.fileName} sx={styles.thumbnail} />
+        ) : (
+          <Box sx={styles.thumbnailPlaceholder} />
+        )}
+      </Box>
+      <Dialog open={open} onClose={() => setOpen(false)} maxWidth={false}>
+        {(fullUrl || thumbnailUrl) && (
+          <Box
+            component="img"
+            src={fullUrl || thumbnailUrl}
+            alt={attachment.fileName}
+            sx={styles.fullImage}
+          />
+        )}
+      </Dialog>
+    </>
+  );
+};
+
+const FileAttachment: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const store = useStore<RootState>();
+
+  const handleDownload = async () => {
+    try {
+      const blob = await fetchAuthorizedBlob(
+        `/attachments/${attachment.id}`,
+        dispatch,
+        store.getState
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      // Nothing to save, the chip stays clickable to try again
+    }
+  };
+
+  return (
+    <Chip
+      icon={<InsertDriveFileOutlined />}
+      variant="outlined"
+      label={`${attachment.fileName} (${formatFileSize(attachment.size)})`}
+      onClick={handleDownload}
+      sx={styles.fileChip}
+    />
+  );
+};
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+}
+
+// Images show as thumbnails that open the full image, other files download
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments }) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <Box sx={styles.attachmentList}>
+      {attachments.map((attachment) =>
+        attachment.contentType.startsWith('image/') ? (
+          <ImageAttachment key={attachment.id} attachment={attachment} />
+        ) : (
+          <FileAttachment key={attachment.id} attachment={attachment} />
+        )
+      )}
+    </Box>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,43 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  editedMarker: {
+    marginLeft: '8px',
+    fontSize: '0.75rem',
+    color: 'text.secondary',
+    textDecoration: 'none',
+    '&:hover': {
+      textDecoration: 'underline',
+    },
+  },
+  popover: {
+    width: '360px',
+    maxHeight: '420px',
+    padding: '12px 16px',
+  },
+  title: {
+    fontWeight: 'bold',
+    marginBottom: '8px',
+  },
+  loader: {
+    display: 'flex',
+    justifyContent: 'center',
+    padding: '16px',
+  },
+  versions: {
+    margin: 0,
+    padding: 0,
+    listStyle: 'none',
+  },
+  version: {
+    paddingBottom: '8px',
+    '& + &': {
+      paddingTop: '8px',
+      borderTop: (theme) => `1px solid ${theme.palette.divider}`,
+    },
+  },
+  versionLabel: {
+    fontSize: '0.75rem',
+    marginBottom: '2px',
+  },
+};
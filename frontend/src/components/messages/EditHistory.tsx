@@ -0,0 +1,72 @@
+import { Box, CircularProgress, Link, Popover, Tooltip, Typography } from '@mui/material';
+import React, { useState } from 'react';
+
+import { styles } from './EditHistory.styles';
+import MessageContent from './MessageContent';
+
+import { useGetMessageHistoryQuery } from '@/services/message';
+import { Message } from '@/types';
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString([], {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+interface EditHistoryProps {
+  message: Message;
+}
+
+// The "(edited)" marker, opening every earlier version of the message
+const EditHistory: React.FC<EditHistoryProps> = ({ message }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  // Loaded when opened, and again each time as the message may have been edited since
+  const { data: versions, isLoading } = useGetMessageHistoryQuery(message.id, {
+    skip: !anchorEl,
+    refetchOnMountOrArgChange: true,
+  });
+
+  if (!message.editedAt) return null;
+
+  return (
+    <>
+      <Tooltip title={`Edited ${formatDateTime(message.editedAt)}`}>
+        <Link
+          component="button"
+          sx={styles.editedMarker}
+          onClick={(e: React.MouseEvent<HTMLElement>) => setAnchorEl(e.currentTarget)}
+        >
+          (edited)
+        </Link>
+      </Tooltip>
+      <Popover
+        open={!!anchorEl}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+        slotProps={{ paper: { sx: styles.popover } }}
+      >
+        <Typography sx={styles.title}>Edit history</Typography>
+        {isLoading || !versions ? (
+          <Box sx={styles.loader}>
+            <CircularProgress size={20} />
+          </Box>
+        ) : (
+          <Box component="ol" sx={styles.versions}>
+            {[...versions].reverse().map((version) => (
+              <Box component="li" key={version.createdAt} sx={styles.version}>
+                <Typography sx={styles.versionLabel} color="textSecondary">
+                  {version.current ? 'Current' : formatDateTime(version.createdAt)}
+                </Typography>
+                <MessageContent content={version.content} />
+              </Box>
+            ))}
+          </Box>
+        )}
+      </Popover>
+    </>
+  );
+};
+
+export default EditHistory;
@@ -0,0 +1,12 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  toolbar: {
+    display: 'flex',
+    gap: '2px',
+    marginBottom: '4px',
+  },
+  button: {
+    color: 'text.secondary',
+  },
+};
@@ -0,0 +1,153 @@
+import {
+  Code,
+  DataObject,
+  FormatBold,
+  FormatItalic,
+  FormatListBulleted,
+  FormatQuote,
+  FormatStrikethrough,
+  Link as LinkIcon,
+} from '@mui/icons-material';
+import { Box, IconButton, Tooltip } from '@mui/material';
+import React from 'react';
+
+import { styles } from './FormattingToolbar.styles';
+
+export type Format =
+  | 'bold'
+  | 'italic'
+  | 'strike'
+  | 'code'
+  | 'codeBlock'
+  | 'quote'
+  | 'bulletList'
+  | 'link';
+
+export interface FormatResult {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const WRAPPERS: Partial<Record<Format, [string, string]>> = {
+  bold: ['*', '*'],
+  italic: ['_', '_'],
+  strike: ['~', '~'],
+  code: ['`', '`'],
+  codeBlock: ['```\n', '\n```'],
+};
+
+const LINE_PREFIXES: Partial<Record<Format, string>> = {
+  quote: '> ',
+  bulletList: '- ',
+};
+
+// Ctrl on Windows and Linux, Cmd on macOS
+const SHORTCUTS: { format: Format; key: string; shift?: boolean; label: string }[] = [
+  { format: 'bold', key: 'b', label: 'Bold' },
+  { format: 'italic', key: 'i', label: 'Italic' },
+  { format: 'strike', key: 'x', shift: true, label: 'Strikethrough' },
+  { format: 'code', key: 'e', label: 'Code' },
+  { format: 'codeBlock', key: 'c', shift: true, label: 'Code block' },
+  { format: 'quote', key: '9', shift: true, label: 'Quote' },
+  { format: 'bulletList', key: '8', shift: true, label: 'Bulleted list' },
+  { format: 'link', key: 'k', label: 'Link' },
+];
+
+const ICONS: Record<Format, React.ReactElement> = {
+  bold: <FormatBold fontSize="small" />,
+  italic: <FormatItalic fontSize="small" />,
+  strike: <FormatStrikethrough fontSize="small" />,
+  code: <Code fontSize="small" />,
+  codeBlock: <DataObject fontSize="small" />,
+  quote: <FormatQuote fontSize="small" />,
+  bulletList: <FormatListBulleted fontSize="small" />,
+  link: <LinkIcon fontSize="small" />,
+};
+
+const isMac = /Mac|iPhone|iPad/.test(navigator.platform);
+
+const describeShortcut = ({ key, shift }: { key: string; shift?: boolean }) =>
+  [isMac ? '⌘' : 'Ctrl', shift && 'Shift', key.toUpperCase()].filter(Boolean).join('+');
+
+// The format a key press asks for, if it is one of the shortcuts
+export const formatForShortcut = (e: React.KeyboardEvent): Format | null => {
+  if (!(isMac ? e.metaKey : e.ctrlKey) || e.altKey) return null;
+
+  // Shift+8 and Shift+9 arrive as * and ( on most layouts, the code has the digit
+  const key = e.code.startsWith('Digit') ? e.code.slice(5) : e.key.toLowerCase();
+  const shortcut = SHORTCUTS.find(
+    (candidate) => candidate.key === key && !!candidate.shift === e.shiftKey
+  );
+  return shortcut?.format ?? null;
+};
+
+// Wraps the selection in markers, or prefixes the selected lines, keeping the
+// selected text selected so formats can be stacked
+export const applyFormat = (
+  value: string,
+  start: number,
+  end: number,
+  format: Format
+): FormatResult => {
+  const selected = value.slice(start, end);
+
+  if (format === 'link') {
+    const text = selected || 'text';
+    const inserted = `[${text}](https://)`;
+    const urlStart = start + text.length + 3;
+    return {
+      value: value.slice(0, start) + inserted + value.slice(end),
+      selectionStart: selected ? urlStart : start + 1,
+      selectionEnd: selected ? urlStart + 'https://'.length : start + 1 + text.length,
+    };
+  }
+
+  const prefix = LINE_PREFIXES[format];
+  if (prefix) {
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+    const lines = value.slice(lineStart, end).split('\n');
+    const prefixed = lines.map((line) => prefix + line).join('\n');
+    return {
+      value: value.slice(0, lineStart) + prefixed + value.slice(end),
+      selectionStart: start + prefix.length,
+      selectionEnd: end + prefix.length * lines.length,
+    };
+  }
+
+  const [before, after] = WRAPPERS[format] ?? ['', ''];
+  return {
+    value: value.slice(0, start) + before + selected + after + value.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: end + before.length,
+  };
+};
+
+interface FormattingToolbarProps {
+  onFormat: (format: Format) => void;
+  disabled?: boolean;
+}
+
+const FormattingToolbar: React.FC<FormattingToolbarProps> = ({ onFormat, disabled }) => (
+  <Box sx={styles.toolbar} role="toolbar" aria-label="Formatting">
+    {SHORTCUTS.map((shortcut) => (
+      <Tooltip key={shortcut.format} title={`${shortcut.label} (${describeShortcut(shortcut)})`}>
+        <span>
+          <IconButton
+            size="small"
+            aria-label={shortcut.label}
+            disabled={disabled}
+            // Keeps the focus and the selection in the message field
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onFormat(shortcut.format)}
+            sx={styles.button}
+          >
+            {ICONS[shortcut.format]}
+          </IconButton>
+        </span>
+      </Tooltip>
+    ))}
+  </Box>
+);
+
+export default FormattingToolbar;
@@ -0,0 +1,59 @@
+import { Button, Snackbar } from '@mui/material';
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import { useCurrentChannel } from '@/hooks/useCurrentChannel';
+import { mentionDismissed } from '@/slices/mentionSlice';
+import { setCurrentRoom } from '@/slices/roomSlice';
+import { useAppDispatch, useAppSelector } from '@/store';
+
+// How long a mention stays on screen unless the user acts on it
+const AUTO_HIDE_MS = 8 * 1000;
+
+// Tells the user about mentions elsewhere, ones in the open channel are already on screen
+const MentionNotifier: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { channel } = useCurrentChannel();
+  const mention = useAppSelector((state) => state.mention.latest);
+
+  const isInView =
+    !!mention && mention.channelId === channel?.id && !mention.parentMessageId && !document.hidden;
+
+  const handleClose = (_event: React.SyntheticEvent | Event, reason?: string) => {
+    if (reason === 'clickaway') return;
+    dispatch(mentionDismissed());
+  };
+
+  // Thread replies are shown by opening their parent's thread
+  const handleView = () => {
+    if (!mention) return;
+    const target = mention.parentMessageId
+      ? `thread=${mention.parentMessageId}`
+      : `message=${mention.messageId}`;
+    dispatch(setCurrentRoom(mention.roomId));
+    dispatch(mentionDismissed());
+    navigate(`/rooms/${mention.roomId}/channels/${mention.channelId}?${target}`);
+  };
+
+  return (
+    <Snackbar
+      key={mention?.messageId}
+      open={!!mention && !isInView}
+      autoHideDuration={AUTO_HIDE_MS}
+      onClose={handleClose}
+      anchorOrigin={{ vertical: 'top', horizontal: 'right' }}
+      message={
+        mention &&
+        `${mention.authorUsername ? `@${mention.authorUsername}` : 'Someone'} mentioned you: ${mention.preview}`
+      }
+      action={
+        <Button color="secondary" size="small" onClick={handleView}>
+          View
+        </Button>
+      }
+    />
+  );
+};
+
+export default MentionNotifier;
@@ -0,0 +1,16 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  popper: {
+    zIndex: (theme) => theme.zIndex.modal,
+    minWidth: '240px',
+    maxWidth: '360px',
+  },
+  avatarContainer: {
+    minWidth: '40px',
+  },
+  avatar: {
+    width: 28,
+    height: 28,
+  },
+};
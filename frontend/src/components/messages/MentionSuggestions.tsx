@@ -0,0 +1,67 @@
+import { Campaign as CampaignIcon } from '@mui/icons-material';
+import {
+  Avatar,
+  ListItemAvatar,
+  ListItemText,
+  MenuItem,
+  MenuList,
+  Paper,
+  Popper,
+} from '@mui/material';
+import React from 'react';
+
+import { styles } from './MentionSuggestions.styles';
+
+import { MentionSuggestion } from '@/hooks/useMentionSuggestions';
+import { avatarUrl } from '@/services/user';
+
+interface MentionSuggestionsProps {
+  anchorEl: HTMLElement | null;
+  suggestions: MentionSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: MentionSuggestion) => void;
+}
+
+// The list is driven from the message field's keyboard handling, so focus never leaves it
+const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({
+  anchorEl,
+  suggestions,
+  activeIndex,
+  onSelect,
+}) => (
+  <Popper
+    open={!!anchorEl && suggestions.length > 0}
+    anchorEl={anchorEl}
+    placement="top-start"
+    sx={styles.popper}
+  >
+    <Paper elevation={8}>
+      <MenuList dense role="listbox" aria-label="Mention suggestions">
+        {suggestions.map((suggestion, index) => (
+          <MenuItem
+            key={suggestion.name}
+            role="option"
+            selected={index === activeIndex}
+            aria-selected={index === activeIndex}
+            // Keeps the focus and the caret in the message field
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(suggestion)}
+          >
+            <ListItemAvatar sx={styles.avatarContainer}>
+              {suggestion.user ? (
+                <Avatar src={avatarUrl(suggestion.user, 32)} sx={styles.avatar} />
+              ) : (
+                <Avatar sx={styles.avatar}>
+                  <CampaignIcon fontSize="small" />
+                </Avatar>
+              )}
+            </ListItemAvatar>
+            <ListItemText primary={`@${suggestion.name}`} secondary={suggestion.description} />
+          </MenuItem>
+        ))}
+      </MenuList>
+    </Paper>
+  </Popper>
+);
+
+export default MentionSuggestions;
@@ -0,0 +1,62 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  messageContent: {
+    color: 'text.primary',
+    fontSize: '0.95rem',
+    lineHeight: 1.5,
+    wordBreak: 'break-word',
+  },
+  // Keeps the spacing of pasted text such as stack traces
+  paragraph: {
+    margin: 0,
+    whiteSpace: 'pre-wrap',
+    '& + *': {
+      marginTop: '4px',
+    },
+  },
+  inlineCode: {
+    fontFamily: 'monospace',
+    fontSize: '0.85em',
+    padding: '1px 4px',
+    borderRadius: '4px',
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  codeBlock: {
+    margin: '4px 0',
+    padding: '8px 12px',
+    borderRadius: '4px',
+    fontFamily: 'monospace',
+    fontSize: '0.85rem',
+    lineHeight: 1.4,
+    overflowX: 'auto',
+    whiteSpace: 'pre',
+  },
+  quote: {
+    margin: '4px 0',
+    paddingLeft: '12px',
+    borderLeft: (theme) => `3px solid ${theme.palette.divider}`,
+    color: 'text.secondary',
+  },
+  list: {
+    margin: '4px 0',
+    paddingLeft: '24px',
+  },
+  link: {
+    color: 'text.link',
+  },
+  mention: {
+    padding: '0 2px',
+    borderRadius: '4px',
+    fontWeight: 500,
+    color: 'primary.light',
+    backgroundColor: 'rgba(88, 101, 242, 0.15)',
+  },
+  ownMention: {
+    padding: '0 2px',
+    borderRadius: '4px',
+    fontWeight: 500,
+    color: 'warning.light',
+    backgroundColor: 'rgba(250, 166, 26, 0.2)',
+  },
+};
@@ -0,0 +1,131 @@
+import { Box, Link } from '@mui/material';
+import { Highlight, Prism, themes } from 'prism-react-renderer';
+import React, { useMemo } from 'react';
+
+import { BlockNode, HERE_MENTION, InlineNode, parseMarkdown, ROOM_MENTION } from '@shared/markdown';
+
+import { styles } from './MessageContent.styles';
+
+import { useAppSelector } from '@/store';
+
+// Mentions that reach the user reading the message stand out from the others
+const isMentionOf = (name: string, username?: string) => {
+  const lowered = name.toLowerCase();
+  return (
+    lowered === HERE_MENTION || lowered === ROOM_MENTION || lowered === username?.toLowerCase()
+  );
+};
+
+const CodeBlock: React.FC<{ code: string; language: string | null }> = ({ code, language }) => {
+  // Unknown languages are shown without highlighting
+  const name = language?.toLowerCase();
+  const grammar = name && Prism.languages[name] ? name : 'plain';
+
+  return (
+    <Highlight code={code} language={grammar} theme={themes.vsDark}>
+      {({ tokens, getLineProps, getTokenProps }) => (
+        <Box component="pre" sx={styles.codeBlock}>
+          {tokens.map((line, lineIndex) => (
+            <div key={lineIndex} {...getLineProps({ line })}>
+              {line.map((token, tokenIndex) => (
+                <span key={tokenIndex} {...getTokenProps({ token })} />
+              ))}
+            </div>
+          ))}
+        </Box>
+      )}
+    </Highlight>
+  );
+};
+
+const renderInline = (nodes: InlineNode[], username?: string): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'lineBreak':
+        return <br key={index} />;
+      case 'bold':
+        return <strong key={index}>{renderInline(node.children, username)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderInline(node.children, username)}</em>;
+      case 'strike':
+        return <s key={index}>{renderInline(node.children, username)}</s>;
+      case 'code':
+        return (
+          <Box component="code" key={index} sx={styles.inlineCode}>
+            {node.text}
+          </Box>
+        );
+      case 'link':
+        return (
+          <Link
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            sx={styles.link}
+          >
+            {renderInline(node.children, username)}
+          </Link>
+        );
+      case 'mention':
+        return (
+          <Box
+            component="span"
+            key={index}
+            sx={isMentionOf(node.name, username) ? styles.ownMention : styles.mention}
+          >
+            @{node.name}
+          </Box>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: BlockNode[], username?: string): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return (
+          <Box component="p" key={index} sx={styles.paragraph}>
+            {renderInline(block.children, username)}
+          </Box>
+        );
+      case 'codeBlock':
+        return <CodeBlock key={index} code={block.text} language={block.language} />;
+      case 'quote':
+        return (
+          <Box component="blockquote" key={index} sx={styles.quote}>
+            {renderBlocks(block.children, username)}
+          </Box>
+        );
+      case 'list':
+        return (
+          <Box
+            component={block.ordered ? 'ol' : 'ul'}
+            key={index}
+            start={block.ordered ? block.start : undefined}
+            sx={styles.list}
+          >
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderInline(item, username)}</li>
+            ))}
+          </Box>
+        );
+    }
+  });
+
+interface MessageContentProps {
+  content: string;
+}
+
+// Markdown is turned into elements, never into HTML strings, so message
+// content cannot inject markup
+const MessageContent: React.FC<MessageContentProps> = ({ content }) => {
+  const username = useAppSelector((state) => state.auth.user?.username);
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return <Box sx={styles.messageContent}>{renderBlocks(blocks, username)}</Box>;
+};
+
+export default MessageContent;
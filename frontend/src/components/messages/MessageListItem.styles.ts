@@ -3,10 +3,26 @@ import { SxProps, Theme } from '@mui/material';
 export const styles: Record<string, SxProps<Theme>> = {
   messageListItem: {
     display: 'flex',
+    position: 'relative',
     padding: '8px 16px',
     '&:hover': {
       backgroundColor: 'rgba(0, 0, 0, 0.04)',
     },
+    '&:hover .message-actions': {
+      visibility: 'visible',
+    },
+    // Messages that mention the reader are marked down their left edge
+    '&.mentioned': {
+      boxShadow: (theme) => `inset 3px 0 0 ${theme.palette.warning.main}`,
+      backgroundColor: 'rgba(250, 166, 26, 0.08)',
+    },
+    '&.highlighted': {
+      backgroundColor: 'action.selected',
+      transition: 'background-color 0.5s',
+    },
+    '&.sending': {
+      opacity: 0.6,
+    },
   },
   avatarContainer: {
     marginRight: '12px',
@@ -27,7 +43,69 @@ export const styles: Record<string, SxProps<Theme>> = {
     fontSize: '0.75rem',
     color: 'text.secondary',
   },
-  messageBody: {
-    wordBreak: 'break-word',
+  pinnedIcon: {
+    marginLeft: '6px',
+    fontSize: '0.85rem',
+    color: 'warning.light',
+  },
+  sendFailed: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginTop: '4px',
+  },
+  sendError: {
+    fontSize: '0.8rem',
+    color: 'error.main',
+  },
+  sendAction: {
+    color: 'text.link',
+    fontSize: '0.8rem',
+    fontWeight: 'bold',
+  },
+  // Stands in for a deleted message, its thread stays reachable
+  tombstone: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  tombstoneText: {
+    fontSize: '0.9rem',
+    fontStyle: 'italic',
+    color: 'text.secondary',
+  },
+  purgeAction: {
+    color: 'error.main',
+    fontSize: '0.8rem',
+    fontWeight: 'bold',
+  },
+  reactions: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '4px',
+    marginTop: '4px',
+  },
+  reactionChip: {
+    fontSize: '0.8rem',
+  },
+  threadSummary: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginTop: '4px',
+  },
+  threadLink: {
+    color: 'text.link',
+    fontSize: '0.8rem',
+    fontWeight: 'bold',
+  },
+  messageActions: {
+    position: 'absolute',
+    top: '4px',
+    right: '16px',
+    visibility: 'hidden',
+  },
+  actionButton: {
+    color: 'text.secondary',
   },
 };
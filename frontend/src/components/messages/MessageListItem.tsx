@@ -1,38 +1,233 @@
-import { Avatar, Box, Typography } from '@mui/material';
-import React from 'react';
+import { ChatBubbleOutline, PushPin, PushPinOutlined } from '@mui/icons-material';
+import { Avatar, Box, Chip, IconButton, Link, Tooltip, Typography } from '@mui/material';
+import React, { useState } from 'react';
 
+import AttachmentList from './AttachmentList';
+import EditHistory from './EditHistory';
+import MessageContent from './MessageContent';
 import { styles } from './MessageListItem.styles';
+import ReactionPicker from './ReactionPicker';
 
+import { useRoomPermissions } from '@/hooks/useRoomPermissions';
+import {
+  useAddReactionMutation,
+  usePurgeMessageMutation,
+  useRemoveReactionMutation,
+  useRestoreMessageMutation,
+} from '@/services/message';
+import { usePinMessageMutation, useUnpinMessageMutation } from '@/services/room';
+import { avatarUrl } from '@/services/user';
+import { messageDiscarded } from '@/slices/outboxSlice';
+import { openThread } from '@/slices/threadSlice';
+import { useAppDispatch, useAppSelector } from '@/store';
 import { Message } from '@/types';
 
 interface MessageListItemProps {
   message: Message;
+  showThreadActions?: boolean;
+  highlighted?: boolean;
+  // Resends a message that failed to send, see useRoomSocket
+  onRetry?: (clientMessageId: string) => void;
 }
 
-const MessageListItem: React.FC<MessageListItemProps> = ({ message }) => {
+const formatTime = (date: string) =>
+  new Date(date).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const MessageListItem: React.FC<MessageListItemProps> = ({
+  message,
+  showThreadActions = true,
+  highlighted = false,
+  onRetry,
+}) => {
+  const dispatch = useAppDispatch();
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
+
+  const [addReaction] = useAddReactionMutation();
+  const [removeReaction] = useRemoveReactionMutation();
+  const [restoreMessage] = useRestoreMessageMutation();
+  const [purgeMessage] = usePurgeMessageMutation();
+  const [pinMessage] = usePinMessageMutation();
+  const [unpinMessage] = useUnpinMessageMutation();
+  const { can } = useRoomPermissions(message?.roomId);
+  // Purging cannot be undone, so it takes a second click
+  const [isConfirmingPurge, setIsConfirmingPurge] = useState(false);
+
   if (!message) return null;
 
+  // Messages still being sent have no ID on the server to act on
+  const isPending = !!message.sendStatus;
+  const isDeleted = !!message.deletedAt;
+  // Deleted messages keep their pin, they can be unpinned but not pinned
+  const isPinned = !!message.pinnedAt;
+  const canOpenThread = showThreadActions && !message.parentMessageId && !isPending;
+
+  const handleOpenThread = () => {
+    dispatch(openThread(message.id));
+  };
+
+  const handleRetry = () => {
+    if (message.clientMessageId) {
+      onRetry?.(message.clientMessageId);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (message.clientMessageId) {
+      dispatch(messageDiscarded(message.clientMessageId));
+    }
+  };
+
+  const handlePurge = () => {
+    if (isConfirmingPurge) {
+      purgeMessage(message.id);
+    }
+    setIsConfirmingPurge(!isConfirmingPurge);
+  };
+
+  // The list updates from the messagePinned and messageUnpinned events
+  const handleTogglePin = () => {
+    const pin = { roomId: message.roomId, messageId: message.id };
+    if (isPinned) {
+      unpinMessage(pin);
+    } else {
+      pinMessage(pin);
+    }
+  };
+
+  const mentionsMe = !!currentUserId && !!message.mentionedUserIds?.includes(currentUserId);
+
+  const hasReacted = (userIds: string[]) => !!currentUserId && userIds.includes(currentUserId);
+
+  const handleToggleReaction = (emoji: string) => {
+    const reaction = message.reactions?.find((r) => r.emoji === emoji);
+    if (reaction && hasReacted(reaction.userIds)) {
+      removeReaction({ messageId: message.id, emoji });
+    } else {
+      addReaction({ messageId: message.id, emoji });
+    }
+  };
+
   return (
-    <Box component="li" sx={styles.messageListItem}>
+    <Box
+      component="li"
+      id={`message-${message.id}`}
+      className={[highlighted ? 'highlighted' : message.sendStatus, mentionsMe && 'mentioned']
+        .filter(Boolean)
+        .join(' ')}
+      sx={styles.messageListItem}
+    >
       <Box sx={styles.avatarContainer}>
-        <Avatar src={message.user?.avatar} alt={message.user?.username || ''} />
+        <Avatar
+          src={message.user ? avatarUrl(message.user, 40) : undefined}
+          alt={message.user?.username || ''}
+        />
       </Box>
       <Box sx={styles.messageContents}>
         <Box sx={styles.headerContainer}>
           <Typography sx={styles.username} color="textSecondary">
-            {message.user?.displayname || message.user?.username}
+            {message.user?.displayName || message.user?.username}
           </Typography>
           <Typography sx={styles.timestamp} color="textSecondary">
-            {new Date(message.createdAt).toLocaleTimeString([], {
-              hour: '2-digit',
-              minute: '2-digit',
-            })}
+            {message.sendStatus === 'sending' ? 'Sending…' : formatTime(message.createdAt)}
           </Typography>
+          {isPinned && !isDeleted && (
+            <Tooltip title="Pinned">
+              <PushPin sx={styles.pinnedIcon} />
+            </Tooltip>
+          )}
+          {!isDeleted && <EditHistory message={message} />}
         </Box>
-        <Typography sx={styles.messageBody} color="textPrimary">
-          {message.content}
-        </Typography>
+        {isDeleted ? (
+          <Box sx={styles.tombstone}>
+            <Typography component="span" sx={styles.tombstoneText}>
+              This message was deleted
+            </Typography>
+            {can('deleteAnyMessage') && (
+              <>
+                <Link
+                  component="button"
+                  sx={styles.sendAction}
+                  onClick={() => restoreMessage(message.id)}
+                >
+                  Restore
+                </Link>
+                <Link component="button" sx={styles.purgeAction} onClick={handlePurge}>
+                  {isConfirmingPurge ? 'Confirm delete forever' : 'Delete forever'}
+                </Link>
+              </>
+            )}
+          </Box>
+        ) : (
+          <>
+            {message.content && <MessageContent content={message.content} />}
+            {!!message.attachments?.length && <AttachmentList attachments={message.attachments} />}
+          </>
+        )}
+        {message.sendStatus === 'failed' && (
+          <Box sx={styles.sendFailed}>
+            <Typography component="span" sx={styles.sendError}>
+              {message.sendError || 'Not sent'}
+            </Typography>
+            {onRetry && (
+              <Link component="button" sx={styles.sendAction} onClick={handleRetry}>
+                Retry
+              </Link>
+            )}
+            <Link component="button" sx={styles.sendAction} onClick={handleDiscard}>
+              Discard
+            </Link>
+          </Box>
+        )}
+        {!!message.reactions?.length && (
+          <Box sx={styles.reactions}>
+            {message.reactions.map((reaction) => (
+              <Chip
+                key={reaction.emoji}
+                size="small"
+                variant="outlined"
+                label={`${reaction.emoji} ${reaction.count}`}
+                color={hasReacted(reaction.userIds) ? 'primary' : 'default'}
+                onClick={() => handleToggleReaction(reaction.emoji)}
+                sx={styles.reactionChip}
+              />
+            ))}
+          </Box>
+        )}
+        {canOpenThread && !!message.replyCount && (
+          <Box sx={styles.threadSummary}>
+            <Link component="button" sx={styles.threadLink} onClick={handleOpenThread}>
+              {message.replyCount} {message.replyCount === 1 ? 'reply' : 'replies'}
+            </Link>
+            {message.lastReplyAt && (
+              <Typography sx={styles.timestamp} color="textSecondary">
+                Last reply {formatTime(message.lastReplyAt)}
+              </Typography>
+            )}
+          </Box>
+        )}
       </Box>
+      {!isPending && (
+        <Box className="message-actions" sx={styles.messageActions}>
+          {!isDeleted && <ReactionPicker onSelect={handleToggleReaction} />}
+          {(!isDeleted || isPinned) && can('pinMessages') && (
+            <Tooltip title={isPinned ? 'Unpin message' : 'Pin message'}>
+              <IconButton size="small" onClick={handleTogglePin} sx={styles.actionButton}>
+                {isPinned ? <PushPin fontSize="small" /> : <PushPinOutlined fontSize="small" />}
+              </IconButton>
+            </Tooltip>
+          )}
+          {canOpenThread && (
+            <Tooltip title="Reply in thread">
+              <IconButton size="small" onClick={handleOpenThread} sx={styles.actionButton}>
+                <ChatBubbleOutline fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+        </Box>
+      )}
     </Box>
   );
 };
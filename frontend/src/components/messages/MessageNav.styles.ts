@@ -13,6 +13,31 @@ export const styles: Record<string, SxProps<Theme>> = {
     fontWeight: 'bold',
     fontSize: '1.1rem',
   },
+  channelName: {
+    ml: 1,
+    fontSize: '0.9rem',
+    fontWeight: 'regular',
+  },
+  archivedLabel: {
+    ml: 1,
+    px: 0.75,
+    borderRadius: 1,
+    fontSize: '0.7rem',
+    fontWeight: 'regular',
+    textTransform: 'uppercase',
+    bgcolor: 'action.selected',
+  },
+  actions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  searchField: {
+    width: '220px',
+  },
+  actionButton: {
+    color: 'text.secondary',
+  },
   usersCount: {
     display: 'flex',
     alignItems: 'center',
@@ -1,27 +1,133 @@
-import { PersonOutline } from '@mui/icons-material';
-import { Box, Typography } from '@mui/material';
-import React from 'react';
+import {
+  ManageAccountsOutlined,
+  PersonAddOutlined,
+  PersonOutline,
+  PushPinOutlined,
+  Search,
+} from '@mui/icons-material';
+import { Box, IconButton, InputAdornment, Tooltip, Typography } from '@mui/material';
+import React, { useState } from 'react';
 import { useParams } from 'react-router-dom';
 
+import { InputField } from '../common/InputField';
+import RoomInviteForm from '../rooms/RoomInviteForm';
+import RoomMembersForm from '../rooms/RoomMembersForm';
+
 import { styles } from './MessageNav.styles';
+import PinsDrawer from './PinsDrawer';
 
-import { useRoomSocket } from '@/hooks/useRoomSocket';
-import { useAppSelector } from '@/store';
+import { useCurrentChannel } from '@/hooks/useCurrentChannel';
+import { useRoomPermissions } from '@/hooks/useRoomPermissions';
+import { useGetRoomMembersQuery } from '@/services/room';
+import { openModal } from '@/slices/modalSlice';
+import { openSearch } from '@/slices/searchSlice';
+import { useAppDispatch, useAppSelector } from '@/store';
 
 const MessageNav: React.FC = () => {
   const { id = '' } = useParams();
-  const room = useAppSelector((state) => state.rooms.rooms[id as string]);
+  const dispatch = useAppDispatch();
+  const { room, channel } = useCurrentChannel();
+  const [searchInput, setSearchInput] = useState('');
+  const [isPinsOpen, setIsPinsOpen] = useState(false);
+
+  const { data: members = [] } = useGetRoomMembersQuery(id, { skip: !id });
+  const onlineCount = useAppSelector(
+    (state) =>
+      members.filter(
+        (member) =>
+          (state.presence.users[member.userId]?.presence ?? member.user?.presence ?? 'offline') !==
+          'offline'
+      ).length
+  );
+
+  const { can } = useRoomPermissions(room?.id);
+
+  const canInvite = !!room && !room.isDirect && can('inviteMembers');
+
+  const handleOpenInvites = () => {
+    dispatch(openModal('roomInvite'));
+  };
+
+  const handleOpenMembers = () => {
+    dispatch(openModal('roomMembers'));
+  };
 
-  const { roomMembers } = useRoomSocket({ roomId: id });
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && searchInput.trim()) {
+      e.preventDefault();
+      dispatch(openSearch(searchInput.trim()));
+    }
+  };
 
   return (
     <Box component="header" sx={styles.messageNav}>
       <Typography sx={styles.headerTitle} color="textSecondary">
         {room?.title}
+        {room?.archivedAt && (
+          <Typography component="span" sx={styles.archivedLabel}>
+            archived
+          </Typography>
+        )}
+        {channel && !room?.isDirect && (
+          <Typography component="span" sx={styles.channelName}>
+            #{channel.name}
+          </Typography>
+        )}
       </Typography>
-      <Box sx={styles.usersCount}>
-        <PersonOutline sx={styles.icon} />
-        <Typography sx={{ fontSize: '0.8rem' }}>{roomMembers.length}</Typography>
+      <Box sx={styles.actions}>
+        <InputField
+          size="small"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          onKeyDown={handleSearchKeyDown}
+          placeholder="Search messages"
+          sx={styles.searchField}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search sx={styles.icon} />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        {canInvite && (
+          <>
+            <RoomInviteForm roomId={room.id} />
+            <Tooltip title="Invite people">
+              <IconButton size="small" onClick={handleOpenInvites} sx={styles.actionButton}>
+                <PersonAddOutlined sx={styles.icon} />
+              </IconButton>
+            </Tooltip>
+          </>
+        )}
+        {room && (
+          <>
+            <PinsDrawer roomId={room.id} open={isPinsOpen} onClose={() => setIsPinsOpen(false)} />
+            <Tooltip title="Pinned messages">
+              <IconButton size="small" onClick={() => setIsPinsOpen(true)} sx={styles.actionButton}>
+                <PushPinOutlined sx={styles.icon} />
+              </IconButton>
+            </Tooltip>
+          </>
+        )}
+        {room && !room.isDirect && (
+          <>
+            <RoomMembersForm roomId={room.id} />
+            <Tooltip title="Members">
+              <IconButton size="small" onClick={handleOpenMembers} sx={styles.actionButton}>
+                <ManageAccountsOutlined sx={styles.icon} />
+              </IconButton>
+            </Tooltip>
+          </>
+        )}
+        <Tooltip title={`${onlineCount} of ${members.length} members online`}>
+          <Box sx={styles.usersCount}>
+            <PersonOutline sx={styles.icon} />
+            <Typography sx={{ fontSize: '0.8rem' }}>{onlineCount}</Typography>
+          </Box>
+        </Tooltip>
       </Box>
     </Box>
   );
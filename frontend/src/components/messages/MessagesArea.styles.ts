@@ -1,9 +1,15 @@
 import { SxProps, Theme } from '@mui/material';
 
 export const styles: Record<string, SxProps<Theme>> = {
+  messagesLayout: {
+    display: 'flex',
+    height: '100%',
+    overflow: 'hidden',
+  },
   messagesArea: {
     display: 'flex',
     flexDirection: 'column',
+    flex: 1,
     height: '100%',
     overflow: 'hidden',
     backgroundColor: 'background.paper',
@@ -20,6 +26,37 @@ export const styles: Record<string, SxProps<Theme>> = {
     padding: 0,
     margin: 0,
     listStyle: 'none',
+    // Scroll position is restored by hand when older messages are added above
+    overflowAnchor: 'none',
+  },
+  pageLoader: {
+    display: 'flex',
+    justifyContent: 'center',
+    py: 1,
+  },
+  jumpToLatest: {
+    alignSelf: 'center',
+    my: 0.5,
+    textTransform: 'none',
+  },
+  newMessagesDivider: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+    px: 2,
+    my: 1,
+    '&::before, &::after': {
+      content: '""',
+      flex: 1,
+      borderTop: '1px solid',
+      borderColor: 'error.main',
+    },
+  },
+  newMessagesLabel: {
+    fontSize: '0.7rem',
+    fontWeight: 'bold',
+    color: 'error.main',
+    textTransform: 'uppercase',
   },
   emptyState: {
     display: 'flex',
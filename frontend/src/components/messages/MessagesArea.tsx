@@ -1,36 +1,115 @@
-import { Box, Link, Typography } from '@mui/material';
-import React, { useEffect, useRef } from 'react';
-import { useParams } from 'react-router-dom';
+import { Box, Button, CircularProgress, Link, Typography } from '@mui/material';
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
 
 import NewRoomForm from '../rooms/NewRoomForm';
 
+import MentionNotifier from './MentionNotifier';
 import MessageListItem from './MessageListItem';
 import MessageNav from './MessageNav';
 import { styles } from './MessagesArea.styles';
 import NewMessageForm from './NewMessageForm';
+import SearchPanel from './SearchPanel';
+import ThreadPanel from './ThreadPanel';
 
+import { useCurrentChannel } from '@/hooks/useCurrentChannel';
 import { useRoomSocket } from '@/hooks/useRoomSocket';
 import { openModal } from '@/slices/modalSlice';
+import { closeThread, openThread } from '@/slices/threadSlice';
 import { useAppDispatch, useAppSelector } from '@/store';
 import { Message } from '@/types';
 
+// Another page is loaded once the list is scrolled this close to an end
+const LOAD_THRESHOLD_PX = 200;
+
 const MessagesArea: React.FC = () => {
   const { id = '' } = useParams();
   const dispatch = useAppDispatch();
-  const room = useAppSelector((state) => state.rooms.rooms[id as string]);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const { room, channel } = useCurrentChannel();
+  const openThreadId = useAppSelector((state) => state.thread.openThreadId);
+  const searchQuery = useAppSelector((state) => state.search.query);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Whether the list stays scrolled to the bottom as messages arrive
+  const followLatestRef = useRef(true);
+  // The list as of the last render, to keep it in place when older messages are added above
+  const scrollStateRef = useRef<{
+    firstMessageId?: string;
+    scrollHeight: number;
+    pendingCount: number;
+  }>({
+    scrollHeight: 0,
+    pendingCount: 0,
+  });
+  // Linked messages that had to be loaded, so a missing one is only requested once
+  const requestedJumpRef = useRef<string | null>(null);
+
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
+  const outbox = useAppSelector((state) => state.outbox.messages);
 
-  const { messages } = useRoomSocket({ roomId: room?.id });
+  // Search results link here with ?message= or, for thread replies, ?thread=
+  const jumpToId = searchParams.get('message') || searchParams.get('thread');
+
+  const {
+    messages,
+    retryMessage,
+    markRead,
+    isHistoryLoaded,
+    loadingPage,
+    hasNewer,
+    loadOlder,
+    loadNewer,
+    jumpToMessage,
+  } = useRoomSocket({
+    roomId: room?.id,
+    channelId: channel?.id,
+    trackUnread: true,
+    aroundMessageId: jumpToId ?? undefined,
+  });
+
+  // Where the user had read up to when the channel was opened, the divider stays put after that
+  const [readPointer, setReadPointer] = useState({
+    channelId: channel?.id,
+    lastReadAt: room?.lastReadAt ?? null,
+  });
+  if (readPointer.channelId !== channel?.id) {
+    setReadPointer({ channelId: channel?.id, lastReadAt: room?.lastReadAt ?? null });
+  }
 
   useEffect(() => {
-    if (room?.title !== undefined) {
-      scrollToBottom();
+    followLatestRef.current = true;
+  }, [channel?.id]);
+
+  useEffect(() => {
+    dispatch(closeThread());
+  }, [id, channel?.id, dispatch]);
+
+  useEffect(() => {
+    if (!jumpToId || !isHistoryLoaded) return;
+
+    if (!messages.some((message) => message.id === jumpToId)) {
+      if (requestedJumpRef.current !== jumpToId) {
+        requestedJumpRef.current = jumpToId;
+        jumpToMessage(jumpToId);
+      }
+      return;
     }
-  }, [room?.title]);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
+    document.getElementById(`message-${jumpToId}`)?.scrollIntoView({ block: 'center' });
+    setHighlightedId(jumpToId);
+    if (searchParams.get('thread')) {
+      dispatch(openThread(jumpToId));
+    }
+    setSearchParams({}, { replace: true });
+  }, [jumpToId, isHistoryLoaded, messages, searchParams, setSearchParams, dispatch, jumpToMessage]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
 
   const sortedMessages = (messagesToSort: Message[]) => {
     const dupedMessages = [...messagesToSort];
@@ -39,27 +118,148 @@ const MessagesArea: React.FC = () => {
     );
   };
 
-  if (!messages) return null;
+  const orderedMessages = sortedMessages(messages);
+  const firstMessageId = orderedMessages[0]?.id;
+  const latestMessageId = orderedMessages[orderedMessages.length - 1]?.id;
+
+  // Our own messages on their way, shown below everything else until they come back
+  const deliveredIds = new Set(messages.map((message) => message.clientMessageId));
+  const pendingMessages = outbox.filter(
+    (message) =>
+      message.channelId === channel?.id &&
+      !message.parentMessageId &&
+      !deliveredIds.has(message.clientMessageId)
+  );
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const previous = scrollStateRef.current;
 
-  const messageItems = sortedMessages(messages).map((message) => (
-    <MessageListItem key={message.id} message={message} />
+    // Sending a message brings the latest messages back into view
+    if (pendingMessages.length > previous.pendingCount && !hasNewer) {
+      followLatestRef.current = true;
+    }
+
+    if (followLatestRef.current) {
+      list.scrollTop = list.scrollHeight;
+    } else if (
+      previous.firstMessageId !== firstMessageId &&
+      messages.some((message) => message.id === previous.firstMessageId)
+    ) {
+      // Older messages were added above, keep the ones on screen where they were
+      list.scrollTop += list.scrollHeight - previous.scrollHeight;
+    }
+    scrollStateRef.current = {
+      firstMessageId,
+      scrollHeight: list.scrollHeight,
+      pendingCount: pendingMessages.length,
+    };
+  }, [messages, firstMessageId, pendingMessages.length, hasNewer]);
+
+  // A list that does not fill the screen cannot be scrolled to load more
+  useEffect(() => {
+    const list = listRef.current;
+    if (isHistoryLoaded && list && list.scrollHeight <= list.clientHeight) {
+      loadOlder();
+      loadNewer();
+    }
+  }, [isHistoryLoaded, messages, loadOlder, loadNewer]);
+
+  const handleScroll = () => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const distanceFromBottom = list.scrollHeight - list.scrollTop - list.clientHeight;
+    followLatestRef.current = !hasNewer && distanceFromBottom < LOAD_THRESHOLD_PX;
+
+    if (list.scrollTop < LOAD_THRESHOLD_PX) {
+      loadOlder();
+    }
+    if (distanceFromBottom < LOAD_THRESHOLD_PX) {
+      loadNewer();
+    }
+  };
+
+  const handleJumpToLatest = () => {
+    followLatestRef.current = true;
+    jumpToMessage();
+  };
+
+  // Viewing the channel reads it, including messages that arrive while the tab is visible
+  useEffect(() => {
+    if (!room?.id || !latestMessageId) return;
+
+    const markLatestRead = () => {
+      if (!document.hidden) {
+        markRead(room.id, latestMessageId);
+      }
+    };
+
+    markLatestRead();
+    document.addEventListener('visibilitychange', markLatestRead);
+    return () => document.removeEventListener('visibilitychange', markLatestRead);
+  }, [room?.id, latestMessageId, markRead]);
+
+  const firstUnreadId = readPointer.lastReadAt
+    ? orderedMessages.find(
+        (message) =>
+          message.userId !== currentUserId &&
+          new Date(message.createdAt) > new Date(readPointer.lastReadAt as string)
+      )?.id
+    : undefined;
+
+  const messageItems = orderedMessages.map((message) => (
+    <React.Fragment key={message.id}>
+      {message.id === firstUnreadId && (
+        <Box component="li" sx={styles.newMessagesDivider}>
+          <Typography component="span" sx={styles.newMessagesLabel}>
+            New messages
+          </Typography>
+        </Box>
+      )}
+      <MessageListItem message={message} highlighted={message.id === highlightedId} />
+    </React.Fragment>
   ));
 
+  const pendingItems = sortedMessages(pendingMessages).map((message) => (
+    <MessageListItem key={message.clientMessageId} message={message} onRetry={retryMessage} />
+  ));
+
+  const threadParent = messages.find((message) => message.id === openThreadId);
+
   const handleOpenNewRoomForm = () => {
     dispatch(openModal());
   };
 
   return (
-    <>
+    <Box sx={styles.messagesLayout}>
       <NewRoomForm />
+      <MentionNotifier />
       <Box sx={styles.messagesArea}>
         <MessageNav />
         {room ? (
           <Box sx={styles.messagesContainer}>
-            <Box component="ul" sx={styles.messageList}>
+            <Box component="ul" ref={listRef} sx={styles.messageList} onScroll={handleScroll}>
+              {loadingPage === 'older' && (
+                <Box component="li" sx={styles.pageLoader}>
+                  <CircularProgress size={20} />
+                </Box>
+              )}
               {messageItems}
-              <Box ref={messagesEndRef} />
+              {pendingItems}
+              {loadingPage === 'newer' && (
+                <Box component="li" sx={styles.pageLoader}>
+                  <CircularProgress size={20} />
+                </Box>
+              )}
             </Box>
+            {hasNewer && (
+              <Button size="small" sx={styles.jumpToLatest} onClick={handleJumpToLatest}>
+                Jump to latest messages
+              </Button>
+            )}
             <NewMessageForm />
           </Box>
         ) : (
@@ -73,7 +273,12 @@ const MessagesArea: React.FC = () => {
           </Box>
         )}
       </Box>
-    </>
+      {searchQuery ? (
+        <SearchPanel key={searchQuery} query={searchQuery} room={room} />
+      ) : (
+        room && threadParent && <ThreadPanel parentMessage={threadParent} onRetry={retryMessage} />
+      )}
+    </Box>
   );
 };
 
@@ -6,6 +6,19 @@ export const styles = {
     padding: '16px',
     backgroundColor: 'background.paper',
     borderTop: (theme: Theme) => `1px solid ${theme.palette.divider}`,
+    '&.dragging': {
+      outline: (theme: Theme) => `2px dashed ${theme.palette.primary.main}`,
+      outlineOffset: '-4px',
+    },
+  },
+  uploads: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '4px',
+    marginBottom: '8px',
+  },
+  uploadChip: {
+    maxWidth: '320px',
   },
   form: {
     width: '100%',
@@ -20,6 +33,14 @@ export const styles = {
       opacity: 0.7,
     },
   },
+  // Keeps its height when empty so the input does not jump
+  typingIndicator: {
+    minHeight: '1.25rem',
+    mt: 0.5,
+    fontSize: '0.75rem',
+    fontStyle: 'italic',
+    color: 'text.secondary',
+  },
 };
 
 export default styles;
@@ -1,71 +1,336 @@
-import { Send as SendIcon } from '@mui/icons-material';
-import { Box, InputAdornment, IconButton } from '@mui/material';
-import React, { useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { AttachFile as AttachFileIcon, Send as SendIcon } from '@mui/icons-material';
+import { Box, Chip, CircularProgress, InputAdornment, IconButton, Typography } from '@mui/material';
+import React, { useEffect, useRef, useState } from 'react';
 
+import { useCurrentChannel } from '../../hooks/useCurrentChannel';
+import { MentionSuggestion, useMentionSuggestions } from '../../hooks/useMentionSuggestions';
+import { useRoomPermissions } from '../../hooks/useRoomPermissions';
 import { useRoomSocket } from '../../hooks/useRoomSocket';
+import { useTypingUsers } from '../../hooks/useTypingUsers';
+import { useUploadAttachmentMutation } from '../../services/message';
+import { useGetRoomMembersQuery } from '../../services/room';
+import { Attachment } from '../../types';
 import { InputField } from '../common/InputField';
 
+import { formatFileSize } from './AttachmentList';
+import FormattingToolbar, { applyFormat, Format, formatForShortcut } from './FormattingToolbar';
+import MentionSuggestions from './MentionSuggestions';
 import styles from './NewMessageForm.styles';
 
-import { useAppSelector } from '@/store';
+// Matches the limit on attachments per message on the server
+const MAX_ATTACHMENTS = 10;
 
-const NewMessageForm: React.FC = () => {
-  const { id = '' } = useParams();
-  const room = useAppSelector((state) => state.rooms.rooms[id as string]);
+// A file dropped, pasted or picked, uploaded right away so sending is instant
+interface Upload {
+  key: string;
+  file: File;
+  attachment?: Attachment;
+  error?: string;
+}
+
+// An @ at the start of a word up to the caret, with what has been typed after it
+const MENTION_BEFORE_CARET = /(^|[\s(])@([a-zA-Z0-9_-]*)$/;
+
+// "Alice is typing…", "Alice and Bob are typing…" and so on
+const describeTyping = (names: string[]) => {
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length > 3) return 'Several people are typing…';
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]} are typing…`;
+};
+
+interface NewMessageFormProps {
+  parentMessageId?: string;
+  placeholder?: string;
+}
+
+const NewMessageForm: React.FC<NewMessageFormProps> = ({ parentMessageId, placeholder }) => {
+  const { room, channel } = useCurrentChannel();
   const [body, setBody] = useState('');
+  const [uploads, setUploads] = useState<Upload[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [caret, setCaret] = useState(0);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  // Where the mention the user closed the suggestions for starts
+  const [dismissedMentionStart, setDismissedMentionStart] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  const [uploadAttachment] = useUploadAttachmentMutation();
+
+  const { sendMessage, startTyping, stopTyping, onUserTyping } = useRoomSocket({
+    roomId: room?.id,
+    channelId: channel?.id,
+  });
+  const { can } = useRoomPermissions(room?.id);
+
+  const typingUserIds = useTypingUsers(onUserTyping, channel?.id, parentMessageId);
+  const { data: members = [] } = useGetRoomMembersQuery(room?.id ?? '', { skip: !room });
+  const typingNames = typingUserIds.map((userId) => {
+    const user = members.find((member) => member.userId === userId)?.user;
+    return user?.displayName || user?.username || 'Someone';
+  });
+
+  // Enter starts a new line while writing inside a code block
+  const isInCodeBlock = (position = inputRef.current?.selectionStart ?? body.length) =>
+    (body.slice(0, position).match(/```/g)?.length ?? 0) % 2 === 1;
+
+  const mentionMatch = MENTION_BEFORE_CARET.exec(body.slice(0, caret));
+  const mentionStart = mentionMatch ? caret - mentionMatch[2].length - 1 : null;
+  const mentionQuery =
+    mentionMatch && mentionStart !== dismissedMentionStart && !isInCodeBlock(caret)
+      ? mentionMatch[2]
+      : null;
+  const suggestions = useMentionSuggestions(room, mentionQuery);
+
+  useEffect(() => setActiveSuggestion(0), [mentionQuery]);
+
+  // Switching channel or thread ends typing in the one being left
+  useEffect(() => () => stopTyping(parentMessageId), [stopTyping, parentMessageId]);
+
+  // Uploads belong to the room they were made in
+  useEffect(() => setUploads([]), [room?.id]);
+
+  const isUploading = uploads.some((upload) => !upload.attachment && !upload.error);
+  const attachments = uploads.flatMap((upload) => (upload.attachment ? [upload.attachment] : []));
+  const canSend = !isUploading && (!!body.trim() || attachments.length > 0);
+
+  const updateUpload = (key: string, changes: Partial<Upload>) => {
+    setUploads((prev) =>
+      prev.map((upload) => (upload.key === key ? { ...upload, ...changes } : upload))
+    );
+  };
+
+  const uploadFiles = (files: File[]) => {
+    if (!room || files.length === 0) return;
+
+    const added = files
+      .slice(0, MAX_ATTACHMENTS - uploads.length)
+      .map((file) => ({ key: crypto.randomUUID(), file }));
+    setUploads((prev) => [...prev, ...added]);
+
+    added.forEach(({ key, file }) => {
+      uploadAttachment({ roomId: room.id, file })
+        .unwrap()
+        .then((attachment) => updateUpload(key, { attachment }))
+        .catch((err) => {
+          const message = (err as { data?: { message?: string } })?.data?.message;
+          updateUpload(key, { error: message || 'Upload failed' });
+        });
+    });
+  };
+
+  // Files left out of the message are deleted by the server after a while
+  const handleRemoveUpload = (key: string) => {
+    setUploads((prev) => prev.filter((upload) => upload.key !== key));
+  };
 
-  const { sendMessage } = useRoomSocket({ roomId: room?.id });
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    uploadFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (e.clipboardData.files.length > 0) {
+      e.preventDefault();
+      uploadFiles(Array.from(e.clipboardData.files));
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    uploadFiles(Array.from(e.dataTransfer.files));
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setBody(e.target.value);
+    setCaret(e.target.selectionStart ?? e.target.value.length);
+    if (e.target.value.trim()) {
+      startTyping(parentMessageId);
+    } else {
+      stopTyping(parentMessageId);
+    }
+  };
+
+  const handleFormat = (format: Format) => {
+    const input = inputRef.current;
+    if (!input) return;
+
+    const result = applyFormat(body, input.selectionStart, input.selectionEnd, format);
+    setBody(result.value);
+    // Restored once the new value has been rendered
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
+
+  const handleSelect = () => {
+    setCaret(inputRef.current?.selectionStart ?? body.length);
+  };
+
+  // Replaces what was typed after @ with the whole name
+  const handleSelectMention = (suggestion: MentionSuggestion) => {
+    const input = inputRef.current;
+    if (mentionStart === null || !input) return;
+
+    const inserted = `@${suggestion.name} `;
+    const position = mentionStart + inserted.length;
+    setBody(body.slice(0, mentionStart) + inserted + body.slice(caret));
+    setCaret(position);
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(position, position);
+    });
+  };
+
+  // Arrow keys, Enter, Tab and Escape act on the suggestions while they are open
+  const handleSuggestionKey = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const count = suggestions.length;
+    switch (e.key) {
+      case 'ArrowDown':
+        setActiveSuggestion((index) => (index + 1) % count);
+        break;
+      case 'ArrowUp':
+        setActiveSuggestion((index) => (index - 1 + count) % count);
+        break;
+      case 'Enter':
+      case 'Tab':
+        handleSelectMention(suggestions[Math.min(activeSuggestion, count - 1)]);
+        break;
+      case 'Escape':
+        setDismissedMentionStart(mentionStart);
+        break;
+      default:
+        return false;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    return true;
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
+    const format = formatForShortcut(e);
+    if (format) {
+      e.preventDefault();
+      handleFormat(format);
+      return;
+    }
+
+    if (suggestions.length > 0 && !e.shiftKey && handleSuggestionKey(e)) return;
+
+    if (e.key === 'Enter' && !e.shiftKey && !isInCodeBlock()) {
       e.preventDefault();
       e.stopPropagation();
       handleSubmit(e);
     }
   };
 
+  const send = () => {
+    if (!canSend) return;
+    sendMessage(body, parentMessageId, attachments);
+    setBody('');
+    setCaret(0);
+    setDismissedMentionStart(null);
+    setUploads([]);
+  };
+
   const handleSubmit = (
     e: React.FormEvent<HTMLFormElement> | React.KeyboardEvent<HTMLInputElement>
   ) => {
     e.preventDefault();
-    if (body.trim()) {
-      sendMessage(body);
-      setBody('');
-    }
+    send();
   };
 
   const handleSendClick = () => {
-    if (body.trim()) {
-      sendMessage(body);
-      setBody('');
-    }
+    send();
   };
 
   if (!room) return null;
 
+  // Archived rooms and guests are read-only
+  const readOnlyReason = room.archivedAt
+    ? 'This room is archived'
+    : !can('sendMessages')
+      ? 'You do not have permission to send messages here'
+      : null;
+
   return (
-    <Box sx={styles.newMessageForm}>
+    <Box
+      sx={styles.newMessageForm}
+      className={isDragging ? 'dragging' : undefined}
+      onDragOver={readOnlyReason ? undefined : handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={readOnlyReason ? undefined : handleDrop}
+    >
+      {uploads.length > 0 && (
+        <Box sx={styles.uploads}>
+          {uploads.map((upload) => (
+            <Chip
+              key={upload.key}
+              size="small"
+              variant="outlined"
+              color={upload.error ? 'error' : 'default'}
+              icon={
+                !upload.attachment && !upload.error ? <CircularProgress size={14} /> : undefined
+              }
+              label={
+                upload.error
+                  ? `${upload.file.name}: ${upload.error}`
+                  : `${upload.file.name} (${formatFileSize(upload.file.size)})`
+              }
+              onDelete={() => handleRemoveUpload(upload.key)}
+              sx={styles.uploadChip}
+            />
+          ))}
+        </Box>
+      )}
       <Box component="form" sx={styles.form} onSubmit={handleSubmit}>
+        <input ref={fileInputRef} type="file" multiple hidden onChange={handleFileInputChange} />
+        <FormattingToolbar onFormat={handleFormat} disabled={!!readOnlyReason} />
         <InputField
+          inputRef={inputRef}
           variant="outlined"
           value={body}
           onChange={handleChange}
           onKeyDown={handleKeyDown}
-          placeholder={`Message ${room?.title}`}
+          onSelect={handleSelect}
+          onBlur={() => setDismissedMentionStart(mentionStart)}
+          onFocus={() => setDismissedMentionStart(null)}
+          onPaste={handlePaste}
+          disabled={!!readOnlyReason}
+          placeholder={
+            readOnlyReason ||
+            placeholder ||
+            (channel && !room.isDirect ? `Message #${channel.name}` : `Message ${room.title}`)
+          }
           multiline
           maxRows={4}
           sx={styles.textField}
           slotProps={{
             input: {
               sx: styles.input,
+              startAdornment: (
+                <InputAdornment position="start">
+                  <IconButton
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={!!readOnlyReason || uploads.length >= MAX_ATTACHMENTS}
+                    aria-label="Attach files"
+                  >
+                    <AttachFileIcon sx={{ color: 'text.secondary' }} />
+                  </IconButton>
+                </InputAdornment>
+              ),
               endAdornment: (
                 <InputAdornment position="end">
-                  <IconButton onClick={handleSendClick} disabled={!body.trim()}>
+                  <IconButton onClick={handleSendClick} disabled={!canSend}>
                     <SendIcon sx={{ color: 'text.secondary' }} />
                   </IconButton>
                 </InputAdornment>
@@ -73,7 +338,16 @@ const NewMessageForm: React.FC = () => {
             },
           }}
         />
+        <MentionSuggestions
+          anchorEl={inputRef.current}
+          suggestions={suggestions}
+          activeIndex={activeSuggestion}
+          onSelect={handleSelectMention}
+        />
       </Box>
+      <Typography sx={styles.typingIndicator} aria-live="polite">
+        {describeTyping(typingNames)}
+      </Typography>
     </Box>
   );
 };
@@ -0,0 +1,61 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  drawer: {
+    '& .MuiDrawer-paper': {
+      display: 'flex',
+      flexDirection: 'column',
+      width: 360,
+      backgroundColor: 'background.paper',
+    },
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '12px 16px',
+    borderBottom: '1px solid',
+    borderColor: 'divider',
+  },
+  headerTitle: {
+    fontWeight: 'bold',
+    fontSize: '1.1rem',
+  },
+  closeButton: {
+    color: 'text.secondary',
+  },
+  pinList: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: 0,
+    margin: 0,
+    listStyle: 'none',
+  },
+  pin: {
+    display: 'block',
+    padding: '8px 16px',
+  },
+  pinHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginBottom: '2px',
+  },
+  username: {
+    fontWeight: 'bold',
+    fontSize: '0.9rem',
+  },
+  meta: {
+    flex: 1,
+    fontSize: '0.75rem',
+    color: 'text.secondary',
+  },
+  unpinButton: {
+    color: 'text.secondary',
+  },
+  emptyState: {
+    padding: '16px',
+    fontSize: '0.9rem',
+    color: 'text.secondary',
+  },
+};
@@ -0,0 +1,98 @@
+import { Close, PushPin } from '@mui/icons-material';
+import { Box, Drawer, IconButton, ListItemButton, Tooltip, Typography } from '@mui/material';
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import MessageContent from './MessageContent';
+import { styles } from './PinsDrawer.styles';
+
+import { useRoomPermissions } from '@/hooks/useRoomPermissions';
+import { useGetPinsQuery, useUnpinMessageMutation } from '@/services/room';
+import { Message } from '@/types';
+
+interface PinsDrawerProps {
+  roomId: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const PinsDrawer: React.FC<PinsDrawerProps> = ({ roomId, open, onClose }) => {
+  const navigate = useNavigate();
+  const { can } = useRoomPermissions(roomId);
+  const [unpinMessage] = useUnpinMessageMutation();
+
+  const { data: pins = [], isFetching } = useGetPinsQuery(roomId, {
+    skip: !open,
+    refetchOnMountOrArgChange: true,
+  });
+
+  // Thread replies are shown by opening their parent's thread
+  const handleJump = (message: Message) => {
+    const target = message.parentMessageId
+      ? `thread=${message.parentMessageId}`
+      : `message=${message.id}`;
+    onClose();
+    navigate(`/rooms/${message.roomId}/channels/${message.channelId}?${target}`);
+  };
+
+  const handleUnpin = (e: React.MouseEvent, message: Message) => {
+    // Keeps the click from jumping to the message
+    e.stopPropagation();
+    unpinMessage({ roomId, messageId: message.id });
+  };
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose} sx={styles.drawer}>
+      <Box component="header" sx={styles.header}>
+        <Typography sx={styles.headerTitle} color="textSecondary">
+          Pinned messages
+        </Typography>
+        <IconButton size="small" onClick={onClose} sx={styles.closeButton}>
+          <Close fontSize="small" />
+        </IconButton>
+      </Box>
+      <Box component="ul" sx={styles.pinList}>
+        {!isFetching && pins.length === 0 && (
+          <Typography sx={styles.emptyState}>No pinned messages yet</Typography>
+        )}
+        {pins.map((message) => (
+          <ListItemButton
+            key={message.id}
+            component="li"
+            onClick={() => handleJump(message)}
+            sx={styles.pin}
+          >
+            <Box sx={styles.pinHeader}>
+              <Typography sx={styles.username} color="textSecondary">
+                {message.user?.displayName || message.user?.username}
+              </Typography>
+              <Typography sx={styles.meta}>{formatDateTime(message.createdAt)}</Typography>
+              {can('pinMessages') && (
+                <Tooltip title="Unpin message">
+                  <IconButton
+                    size="small"
+                    onClick={(e) => handleUnpin(e, message)}
+                    sx={styles.unpinButton}
+                  >
+                    <PushPin fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+            </Box>
+            <MessageContent content={message.content} />
+          </ListItemButton>
+        ))}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default PinsDrawer;
@@ -0,0 +1,18 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  triggerButton: {
+    color: 'text.secondary',
+  },
+  grid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(6, 1fr)',
+    gap: '4px',
+    padding: '8px',
+  },
+  emojiButton: {
+    fontSize: '1.25rem',
+    width: '36px',
+    height: '36px',
+  },
+};
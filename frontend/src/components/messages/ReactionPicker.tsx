@@ -0,0 +1,60 @@
+import { AddReactionOutlined } from '@mui/icons-material';
+import { Box, IconButton, Popover, Tooltip } from '@mui/material';
+import React, { useState } from 'react';
+
+import { styles } from './ReactionPicker.styles';
+
+const REACTION_EMOJI = ['👍', '👎', '😂', '❤️', '🎉', '😮', '😢', '🙏', '👀', '🔥', '✅', '🚀'];
+
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void;
+}
+
+const ReactionPicker: React.FC<ReactionPickerProps> = ({ onSelect }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  const handleOpen = (e: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(e.currentTarget);
+  };
+
+  const handleClose = () => {
+    setAnchorEl(null);
+  };
+
+  const handleSelect = (emoji: string) => {
+    onSelect(emoji);
+    handleClose();
+  };
+
+  return (
+    <>
+      <Tooltip title="Add reaction">
+        <IconButton size="small" onClick={handleOpen} sx={styles.triggerButton}>
+          <AddReactionOutlined fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Popover
+        open={!!anchorEl}
+        anchorEl={anchorEl}
+        onClose={handleClose}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Box sx={styles.grid}>
+          {REACTION_EMOJI.map((emoji) => (
+            <IconButton
+              key={emoji}
+              size="small"
+              onClick={() => handleSelect(emoji)}
+              sx={styles.emojiButton}
+            >
+              {emoji}
+            </IconButton>
+          ))}
+        </Box>
+      </Popover>
+    </>
+  );
+};
+
+export default ReactionPicker;
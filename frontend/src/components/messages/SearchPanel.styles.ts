@@ -0,0 +1,80 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  searchPanel: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: 360,
+    height: '100%',
+    overflow: 'hidden',
+    backgroundColor: 'background.paper',
+    borderLeft: '1px solid',
+    borderColor: 'divider',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '12px 16px',
+    borderBottom: '1px solid',
+    borderColor: 'divider',
+  },
+  headerTitle: {
+    fontWeight: 'bold',
+    fontSize: '1.1rem',
+  },
+  closeButton: {
+    color: 'text.secondary',
+  },
+  filters: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    padding: '12px 16px',
+    borderBottom: '1px solid',
+    borderColor: 'divider',
+  },
+  filterLabel: {
+    '& .MuiFormControlLabel-label': {
+      fontSize: '0.85rem',
+    },
+  },
+  dateRange: {
+    display: 'flex',
+    gap: '8px',
+  },
+  resultList: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: 0,
+    margin: 0,
+    listStyle: 'none',
+  },
+  result: {
+    display: 'block',
+    padding: '8px 16px',
+  },
+  resultHeader: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    marginBottom: '2px',
+  },
+  username: {
+    fontWeight: 'bold',
+    fontSize: '0.9rem',
+  },
+  meta: {
+    fontSize: '0.75rem',
+    color: 'text.secondary',
+  },
+  content: {
+    fontSize: '0.9rem',
+    wordBreak: 'break-word',
+  },
+  emptyState: {
+    padding: '16px',
+    fontSize: '0.9rem',
+    color: 'text.secondary',
+  },
+};
@@ -0,0 +1,184 @@
+import { Close } from '@mui/icons-material';
+import {
+  Autocomplete,
+  Box,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  ListItemButton,
+  Typography,
+} from '@mui/material';
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import { toPlainText } from '@shared/markdown';
+
+import { InputField } from '../common/InputField';
+
+import { styles } from './SearchPanel.styles';
+
+import { useSearchMessagesQuery } from '@/services/message';
+import { useLazySearchUsersQuery } from '@/services/user';
+import { setCurrentRoom } from '@/slices/roomSlice';
+import { closeSearch } from '@/slices/searchSlice';
+import { useAppDispatch } from '@/store';
+import { Message, Room, User } from '@/types';
+
+interface SearchPanelProps {
+  query: string;
+  room?: Room;
+}
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ query, room }) => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const [thisRoomOnly, setThisRoomOnly] = useState(!!room);
+  const [author, setAuthor] = useState<User | null>(null);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [hasThread, setHasThread] = useState(false);
+  const [mentionsMe, setMentionsMe] = useState(false);
+
+  const [searchUsers, { data: userOptions = [] }] = useLazySearchUsersQuery();
+
+  const { data: results = [], isFetching } = useSearchMessagesQuery({
+    q: query,
+    roomId: thisRoomOnly ? room?.id : undefined,
+    authorId: author?.id,
+    // Date inputs are local days, widen them to cover the whole day
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+    hasThread: hasThread || undefined,
+    mentionsMe: mentionsMe || undefined,
+  });
+
+  const handleClose = () => {
+    dispatch(closeSearch());
+  };
+
+  // Thread replies are shown by opening their parent's thread
+  const handleJump = (message: Message) => {
+    const target = message.parentMessageId
+      ? `thread=${message.parentMessageId}`
+      : `message=${message.id}`;
+    dispatch(setCurrentRoom(message.roomId));
+    dispatch(closeSearch());
+    navigate(`/rooms/${message.roomId}/channels/${message.channelId}?${target}`);
+  };
+
+  return (
+    <Box component="aside" sx={styles.searchPanel}>
+      <Box component="header" sx={styles.header}>
+        <Typography sx={styles.headerTitle} color="textSecondary" noWrap>
+          Results for &ldquo;{query}&rdquo;
+        </Typography>
+        <IconButton size="small" onClick={handleClose} sx={styles.closeButton}>
+          <Close fontSize="small" />
+        </IconButton>
+      </Box>
+      <Box sx={styles.filters}>
+        {room && (
+          <FormControlLabel
+            control={
+              <Checkbox
+                size="small"
+                checked={thisRoomOnly}
+                onChange={(e) => setThisRoomOnly(e.target.checked)}
+              />
+            }
+            label={`Only in ${room.title}`}
+            sx={styles.filterLabel}
+          />
+        )}
+        <Autocomplete
+          size="small"
+          options={userOptions}
+          value={author}
+          onChange={(_e, value) => setAuthor(value)}
+          onInputChange={(_e, value) => value.trim() && searchUsers(value.trim())}
+          getOptionLabel={(user) => user.displayName || user.username}
+          isOptionEqualToValue={(option, value) => option.id === value.id}
+          filterOptions={(options) => options}
+          renderInput={(params) => <InputField {...params} label="From" />}
+        />
+        <Box sx={styles.dateRange}>
+          <InputField
+            size="small"
+            type="date"
+            label="After"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <InputField
+            size="small"
+            type="date"
+            label="Before"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+        </Box>
+        <Box>
+          <FormControlLabel
+            control={
+              <Checkbox
+                size="small"
+                checked={hasThread}
+                onChange={(e) => setHasThread(e.target.checked)}
+              />
+            }
+            label="Has thread"
+            sx={styles.filterLabel}
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                size="small"
+                checked={mentionsMe}
+                onChange={(e) => setMentionsMe(e.target.checked)}
+              />
+            }
+            label="Mentions me"
+            sx={styles.filterLabel}
+          />
+        </Box>
+      </Box>
+      <Box component="ul" sx={styles.resultList}>
+        {!isFetching && results.length === 0 && (
+          <Typography sx={styles.emptyState}>No messages found</Typography>
+        )}
+        {results.map((message) => (
+          <ListItemButton
+            key={message.id}
+            component="li"
+            onClick={() => handleJump(message)}
+            sx={styles.result}
+          >
+            <Box sx={styles.resultHeader}>
+              <Typography sx={styles.username} color="textSecondary">
+                {message.user?.displayName || message.user?.username}
+              </Typography>
+              <Typography sx={styles.meta}>
+                {message.room?.title} · {formatDateTime(message.createdAt)}
+              </Typography>
+            </Box>
+            <Typography sx={styles.content} color="textPrimary">
+              {toPlainText(message.content)}
+            </Typography>
+          </ListItemButton>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,41 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  threadPanel: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: 360,
+    height: '100%',
+    overflow: 'hidden',
+    backgroundColor: 'background.paper',
+    borderLeft: '1px solid',
+    borderColor: 'divider',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '12px 16px',
+    borderBottom: '1px solid',
+    borderColor: 'divider',
+  },
+  headerTitle: {
+    fontWeight: 'bold',
+    fontSize: '1.1rem',
+  },
+  closeButton: {
+    color: 'text.secondary',
+  },
+  replyList: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: 0,
+    margin: 0,
+    listStyle: 'none',
+  },
+  replyCount: {
+    padding: '8px 16px',
+    fontSize: '0.75rem',
+    color: 'text.secondary',
+  },
+};
@@ -0,0 +1,74 @@
+import { Close } from '@mui/icons-material';
+import { Box, Divider, IconButton, Typography } from '@mui/material';
+import React, { useEffect, useRef } from 'react';
+
+import MessageListItem from './MessageListItem';
+import NewMessageForm from './NewMessageForm';
+import { styles } from './ThreadPanel.styles';
+
+import { useGetRepliesQuery } from '@/services/message';
+import { closeThread } from '@/slices/threadSlice';
+import { useAppDispatch, useAppSelector } from '@/store';
+import { Message } from '@/types';
+
+interface ThreadPanelProps {
+  parentMessage: Message;
+  onRetry?: (clientMessageId: string) => void;
+}
+
+const ThreadPanel: React.FC<ThreadPanelProps> = ({ parentMessage, onRetry }) => {
+  const dispatch = useAppDispatch();
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const outbox = useAppSelector((state) => state.outbox.messages);
+
+  const { data: replies = [] } = useGetRepliesQuery(parentMessage.id);
+
+  const deliveredIds = new Set(replies.map((reply) => reply.clientMessageId));
+  const pendingReplies = outbox.filter(
+    (message) =>
+      message.parentMessageId === parentMessage.id && !deliveredIds.has(message.clientMessageId)
+  );
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replies.length, pendingReplies.length]);
+
+  const handleClose = () => {
+    dispatch(closeThread());
+  };
+
+  return (
+    <Box component="aside" sx={styles.threadPanel}>
+      <Box component="header" sx={styles.header}>
+        <Typography sx={styles.headerTitle} color="textSecondary">
+          Thread
+        </Typography>
+        <IconButton size="small" onClick={handleClose} sx={styles.closeButton}>
+          <Close fontSize="small" />
+        </IconButton>
+      </Box>
+      <Box component="ul" sx={styles.replyList}>
+        <MessageListItem message={parentMessage} showThreadActions={false} />
+        <Divider />
+        <Typography sx={styles.replyCount}>
+          {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+        </Typography>
+        {replies.map((reply) => (
+          <MessageListItem key={reply.id} message={reply} showThreadActions={false} />
+        ))}
+        {pendingReplies.map((reply) => (
+          <MessageListItem
+            key={reply.clientMessageId}
+            message={reply}
+            showThreadActions={false}
+            onRetry={onRetry}
+          />
+        ))}
+        <Box ref={repliesEndRef} />
+      </Box>
+      <NewMessageForm parentMessageId={parentMessage.id} placeholder="Reply..." />
+    </Box>
+  );
+};
+
+export default ThreadPanel;
@@ -0,0 +1,167 @@
+import { Box, FormControl, MenuItem, Stack, Typography } from '@mui/material';
+import React, { FormEvent, useState } from 'react';
+
+import { AppButton } from '../common/AppButton';
+import { InputField } from '../common/InputField';
+
+import { Modal } from '@/components/common/Modal';
+import { styles } from '@/components/rooms/NewRoomForm.styles';
+import { usePresence } from '@/hooks/usePresence';
+import { useClearStatusMutation, useSetStatusMutation } from '@/services/user';
+import { closeModal } from '@/slices/modalSlice';
+import { useAppDispatch, useAppSelector } from '@/store';
+
+type ClearAfter = 'never' | '30m' | '1h' | '4h' | 'today';
+
+const CLEAR_AFTER_OPTIONS: { value: ClearAfter; label: string }[] = [
+  { value: 'never', label: "Don't clear" },
+  { value: '30m', label: '30 minutes' },
+  { value: '1h', label: '1 hour' },
+  { value: '4h', label: '4 hours' },
+  { value: 'today', label: 'Today' },
+];
+
+const expiresAt = (clearAfter: ClearAfter): string | undefined => {
+  const now = new Date();
+  switch (clearAfter) {
+    case '30m':
+      return new Date(now.getTime() + 30 * 60 * 1000).toISOString();
+    case '1h':
+      return new Date(now.getTime() + 60 * 60 * 1000).toISOString();
+    case '4h':
+      return new Date(now.getTime() + 4 * 60 * 60 * 1000).toISOString();
+    case 'today':
+      now.setHours(23, 59, 59, 999);
+      return now.toISOString();
+    default:
+      return undefined;
+  }
+};
+
+// Mounted only while the modal is open, so it starts from the current status each time
+const StatusFormContent: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const userId = useAppSelector((state) => state.auth.user?.id);
+  const current = usePresence(userId);
+
+  const [emoji, setEmoji] = useState(current.statusEmoji ?? '');
+  const [text, setText] = useState(current.statusText ?? '');
+  const [clearAfter, setClearAfter] = useState<ClearAfter>('never');
+  const [error, setError] = useState<string | null>(null);
+
+  const [setStatus, { isLoading: isSaving }] = useSetStatusMutation();
+  const [clearStatus, { isLoading: isClearing }] = useClearStatusMutation();
+
+  const hasStatus = !!(current.statusText || current.statusEmoji);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+      dispatch(closeModal());
+    } catch (err) {
+      const message = (err as { data?: { message?: string | string[] } })?.data?.message;
+      setError(message ? ([] as string[]).concat(message).join(', ') : fallback);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    run(
+      () =>
+        setStatus({
+          text: text.trim() || undefined,
+          emoji: emoji.trim() || undefined,
+          expiresAt: expiresAt(clearAfter),
+        }).unwrap(),
+      'Could not set your status'
+    );
+  };
+
+  const handleClear = () => run(() => clearStatus().unwrap(), 'Could not clear your status');
+
+  return (
+    <Box sx={styles.formContainer}>
+      <Typography variant="h5" component="h1" color="textPrimary" sx={styles.title}>
+        Set a status
+      </Typography>
+      <Typography variant="body1" sx={styles.description}>
+        Let people in your rooms know what you&apos;re up to.
+      </Typography>
+
+      <Box component="form" onSubmit={handleSubmit}>
+        <Stack direction="row" spacing={2} sx={styles.formField}>
+          <InputField
+            label="Emoji"
+            size="small"
+            value={emoji}
+            onChange={(e) => setEmoji(e.target.value)}
+            placeholder="🌴"
+            slotProps={{ htmlInput: { maxLength: 16 } }}
+            sx={{ width: 90 }}
+          />
+          <InputField
+            label="Status"
+            size="small"
+            fullWidth
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="e.g. On vacation"
+            slotProps={{ htmlInput: { maxLength: 100 } }}
+          />
+        </Stack>
+
+        <FormControl fullWidth sx={styles.formField}>
+          <InputField
+            select
+            label="Clear after"
+            size="small"
+            value={clearAfter}
+            onChange={(e) => setClearAfter(e.target.value as ClearAfter)}
+          >
+            {CLEAR_AFTER_OPTIONS.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </InputField>
+        </FormControl>
+
+        {error && (
+          <Typography color="error" variant="body2">
+            {error}
+          </Typography>
+        )}
+
+        <Box sx={styles.buttonContainer}>
+          {hasStatus && (
+            <AppButton
+              variant="text"
+              onClick={handleClear}
+              disabled={isClearing}
+              sx={styles.cancelButton}
+            >
+              Clear status
+            </AppButton>
+          )}
+          <AppButton
+            variant="contained"
+            type="submit"
+            disabled={(!text.trim() && !emoji.trim()) || isSaving}
+            sx={styles.createButton}
+          >
+            Save
+          </AppButton>
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+const StatusForm: React.FC = () => (
+  <Modal modalType="setStatus">
+    <StatusFormContent />
+  </Modal>
+);
+
+export default StatusForm;
@@ -0,0 +1,14 @@
+import { ListItemButton } from '@mui/material';
+import { styled } from '@mui/material/styles';
+
+export const StyledChannelButton = styled(ListItemButton)(({ theme }) => ({
+  borderRadius: theme.shape.borderRadius,
+  margin: theme.spacing(0.25, 1, 0.25, 3.5),
+  padding: theme.spacing(0.25, 1.5),
+  '&.Mui-selected': {
+    backgroundColor: theme.palette.action.selected,
+    '&:hover': {
+      backgroundColor: theme.palette.action.selected,
+    },
+  },
+}));
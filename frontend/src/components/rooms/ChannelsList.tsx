@@ -0,0 +1,88 @@
+import { Add, LockOutlined, Tag } from '@mui/icons-material';
+import { List, ListItemText, Typography } from '@mui/material';
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+
+import { StyledChannelButton } from './ChannelsList.styles';
+
+import { useRoomPermissions } from '@/hooks/useRoomPermissions';
+import { useGetChannelsQuery } from '@/services/room';
+import { openModal } from '@/slices/modalSlice';
+import { setCurrentRoom } from '@/slices/roomSlice';
+import { useAppDispatch } from '@/store';
+
+export const ChannelsList = ({ roomId }: { roomId: string }) => {
+  const { id = '', channelId } = useParams();
+  const { can } = useRoomPermissions(roomId);
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+
+  const { data: channels = [] } = useGetChannelsQuery(roomId);
+
+  const onNavigate = (targetChannelId: string) => {
+    dispatch(setCurrentRoom(roomId));
+    navigate(`/rooms/${roomId}/channels/${targetChannelId}`);
+  };
+
+  const onAddChannel = () => {
+    dispatch(openModal({ modalType: 'newChannel', roomId }));
+  };
+
+  // The bare room URL shows the default channel
+  const isChannelSelected = (channel: { id: string; isDefault: boolean }) =>
+    id === roomId && (channelId ? channelId === channel.id : channel.isDefault);
+
+  return (
+    <List disablePadding>
+      {channels.map((channel) => {
+        const isSelected = isChannelSelected(channel);
+        return (
+          <StyledChannelButton
+            key={channel.id}
+            selected={isSelected}
+            onClick={() => onNavigate(channel.id)}
+          >
+            <ListItemText
+              primary={
+                <Typography
+                  variant="body2"
+                  sx={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 0.5,
+                    fontWeight: isSelected ? 'medium' : 'regular',
+                  }}
+                >
+                  {channel.isPrivate ? (
+                    <LockOutlined fontSize="inherit" />
+                  ) : (
+                    <Tag fontSize="inherit" />
+                  )}
+                  {channel.name}
+                </Typography>
+              }
+              disableTypography
+            />
+          </StyledChannelButton>
+        );
+      })}
+      {can('manageChannels') && (
+        <StyledChannelButton onClick={onAddChannel}>
+          <ListItemText
+            primary={
+              <Typography
+                variant="body2"
+                color="text.secondary"
+                sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+              >
+                <Add fontSize="inherit" />
+                Add channel
+              </Typography>
+            }
+            disableTypography
+          />
+        </StyledChannelButton>
+      )}
+    </List>
+  );
+};
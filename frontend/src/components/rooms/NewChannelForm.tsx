@@ -0,0 +1,153 @@
+import { Box, FormControl, FormHelperText, Switch, Typography } from '@mui/material';
+import React, { useState, KeyboardEvent, ChangeEvent, FormEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import { AppButton } from '../common/AppButton';
+import { InputField } from '../common/InputField';
+
+import { styles } from './NewRoomForm.styles';
+
+import { Modal } from '@/components/common/Modal';
+import { useCreateChannelMutation } from '@/services/room';
+import { closeModal } from '@/slices/modalSlice';
+import { useAppDispatch, useAppSelector } from '@/store';
+
+const NewChannelForm: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const roomId = useAppSelector((state) => state.modal.roomId);
+  const [name, setName] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [touched, setTouched] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [createChannel, { isLoading }] = useCreateChannelMutation();
+
+  const validateName = (value: string): { isValid: boolean; errorMessage: string | null } => {
+    if (!value) {
+      return { isValid: false, errorMessage: 'Give your channel a name' };
+    }
+
+    if (!value.match(/^[a-z0-9][a-z0-9_-]*$/)) {
+      return {
+        isValid: false,
+        errorMessage: 'Use lowercase letters, numbers, hyphens and underscores only',
+      };
+    }
+
+    return { isValid: true, errorMessage: null };
+  };
+
+  const validation = touched ? validateName(name) : { isValid: false, errorMessage: null };
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    // Channel names are lowercase and spaces become hyphens as you type
+    setName(e.target.value.toLowerCase().replace(/\s/g, '-'));
+    setError(null);
+
+    if (!touched) {
+      setTouched(true);
+    }
+  };
+
+  const resetForm = () => {
+    setName('');
+    setIsPrivate(false);
+    setTouched(false);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!validation.isValid || !roomId) return;
+
+    try {
+      const channel = await createChannel({ roomId, name, isPrivate }).unwrap();
+      resetForm();
+      dispatch(closeModal());
+      navigate(`/rooms/${roomId}/channels/${channel.id}`);
+    } catch (err) {
+      const message = (err as { data?: { message?: string } })?.data?.message;
+      setError(message || 'Could not create the channel');
+    }
+  };
+
+  const handleSwitchToggle = () => {
+    setIsPrivate(!isPrivate);
+  };
+
+  const handleKey = (e: KeyboardEvent<HTMLFormElement>) => {
+    if (e.key === 'Enter' && validation.isValid) {
+      e.preventDefault();
+      e.stopPropagation();
+      handleSubmit(e);
+    }
+  };
+
+  const handleCancel = (e: React.MouseEvent) => {
+    e.preventDefault();
+    resetForm();
+    dispatch(closeModal());
+  };
+
+  return (
+    <Modal modalType="newChannel">
+      <Box sx={styles.formContainer}>
+        <Typography variant="h5" component="h1" color="textPrimary" sx={styles.title}>
+          Create a channel
+        </Typography>
+        <Typography variant="body1" sx={styles.description}>
+          Channels keep conversations in a room organized by topic.
+        </Typography>
+
+        <Box component="form" onKeyDown={handleKey} onSubmit={handleSubmit}>
+          <Box sx={styles.switchContainer} onClick={handleSwitchToggle}>
+            <Switch checked={isPrivate} color="primary" onChange={handleSwitchToggle} />
+            <Typography variant="body1" color="textPrimary" sx={styles.switchLabel}>
+              Is Private
+            </Typography>
+          </Box>
+
+          <FormControl fullWidth sx={styles.formField} error={!!(validation.errorMessage || error)}>
+            <InputField
+              id="channel-name"
+              label="Channel Name"
+              fullWidth
+              value={name}
+              onChange={handleChange}
+              onBlur={() => setTouched(true)}
+              placeholder="e.g. announcements"
+              error={!!(validation.errorMessage || error)}
+              helperText={validation.errorMessage || error}
+              slotProps={{
+                htmlInput: {
+                  maxLength: 80,
+                },
+              }}
+              size="small"
+            />
+            <FormHelperText sx={styles.helperText}>
+              Private channels are only visible to the people you add to them.
+            </FormHelperText>
+          </FormControl>
+
+          <Box sx={styles.buttonContainer}>
+            <AppButton variant="text" onClick={handleCancel} sx={styles.cancelButton}>
+              Cancel
+            </AppButton>
+            <AppButton
+              variant="contained"
+              type="submit"
+              disabled={!validation.isValid || isLoading}
+              sx={styles.createButton}
+            >
+              Create Channel
+            </AppButton>
+          </Box>
+        </Box>
+      </Box>
+    </Modal>
+  );
+};
+
+export default NewChannelForm;
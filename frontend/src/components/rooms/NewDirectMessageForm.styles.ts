@@ -0,0 +1,38 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  formContainer: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '100%',
+    minWidth: '400px',
+    maxWidth: '500px',
+  },
+  title: {
+    fontSize: '1.5rem',
+    fontWeight: 'bold',
+    mb: 2,
+  },
+  description: {
+    mb: 3,
+    color: 'text.secondary',
+  },
+  formField: {
+    mb: 3,
+  },
+  chip: {
+    color: 'text.primary',
+  },
+  buttonContainer: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    mt: 2,
+    gap: 2,
+  },
+  cancelButton: {
+    color: 'text.primary',
+  },
+  submitButton: {
+    fontWeight: 'bold',
+  },
+};
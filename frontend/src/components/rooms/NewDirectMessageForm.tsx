@@ -0,0 +1,119 @@
+import { Autocomplete, Box, Chip, Typography } from '@mui/material';
+import React, { useState, FormEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import { AppButton } from '../common/AppButton';
+import { InputField } from '../common/InputField';
+
+import { styles } from './NewDirectMessageForm.styles';
+
+import { Modal } from '@/components/common/Modal';
+import { useOpenDirectMessageMutation } from '@/services/room';
+import { useLazySearchUsersQuery } from '@/services/user';
+import { closeModal } from '@/slices/modalSlice';
+import { setCurrentRoom } from '@/slices/roomSlice';
+import { useAppDispatch, useAppSelector } from '@/store';
+import { User } from '@/types';
+
+const getUserLabel = (user: User) => user.displayName || user.username;
+
+const NewDirectMessageForm: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const currentUser = useAppSelector((state) => state.auth.user);
+  const [selectedUsers, setSelectedUsers] = useState<User[]>([]);
+
+  const [searchUsers, { data: searchResults = [] }] = useLazySearchUsersQuery();
+  const [openDirectMessage, { isLoading }] = useOpenDirectMessageMutation();
+
+  const options = searchResults.filter((user) => user.id !== currentUser?.id);
+
+  const handleInputChange = (_e: React.SyntheticEvent, value: string) => {
+    if (value.trim()) {
+      searchUsers(value.trim());
+    }
+  };
+
+  const resetAndClose = () => {
+    setSelectedUsers([]);
+    dispatch(closeModal());
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (selectedUsers.length === 0) return;
+
+    const room = await openDirectMessage({
+      userIds: selectedUsers.map((user) => user.id),
+    }).unwrap();
+
+    dispatch(setCurrentRoom(room.id));
+    navigate(`/rooms/${room.id}`);
+    resetAndClose();
+  };
+
+  const handleCancel = (e: React.MouseEvent) => {
+    e.preventDefault();
+    resetAndClose();
+  };
+
+  return (
+    <Modal modalType="newDirectMessage">
+      <Box sx={styles.formContainer}>
+        <Typography variant="h5" component="h1" color="textPrimary" sx={styles.title}>
+          New message
+        </Typography>
+        <Typography variant="body1" sx={styles.description}>
+          Start a private conversation with one or more people.
+        </Typography>
+
+        <Box component="form" onSubmit={handleSubmit}>
+          <Autocomplete
+            multiple
+            options={options}
+            value={selectedUsers}
+            onChange={(_e, value) => setSelectedUsers(value)}
+            onInputChange={handleInputChange}
+            filterOptions={(users) => users}
+            getOptionLabel={getUserLabel}
+            isOptionEqualToValue={(option, value) => option.id === value.id}
+            renderTags={(users, getTagProps) =>
+              users.map((user, index) => {
+                const { key, ...tagProps } = getTagProps({ index });
+                return (
+                  <Chip
+                    key={key}
+                    {...tagProps}
+                    label={getUserLabel(user)}
+                    size="small"
+                    sx={styles.chip}
+                  />
+                );
+              })
+            }
+            renderInput={(params) => (
+              <InputField {...params} label="To" placeholder="Search by name" size="small" />
+            )}
+            sx={styles.formField}
+          />
+
+          <Box sx={styles.buttonContainer}>
+            <AppButton variant="text" onClick={handleCancel} sx={styles.cancelButton}>
+              Cancel
+            </AppButton>
+            <AppButton
+              variant="contained"
+              type="submit"
+              disabled={selectedUsers.length === 0 || isLoading}
+              sx={styles.submitButton}
+            >
+              Go
+            </AppButton>
+          </Box>
+        </Box>
+      </Box>
+    </Modal>
+  );
+};
+
+export default NewDirectMessageForm;
@@ -0,0 +1,55 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  formContainer: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '100%',
+    minWidth: '400px',
+    maxWidth: '500px',
+  },
+  title: {
+    fontSize: '1.5rem',
+    fontWeight: 'bold',
+    mb: 2,
+  },
+  description: {
+    mb: 3,
+    color: 'text.secondary',
+  },
+  optionsRow: {
+    display: 'flex',
+    gap: 2,
+    mb: 2,
+  },
+  buttonContainer: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: 2,
+  },
+  createButton: {
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    mt: 3,
+    mb: 1,
+    fontWeight: 'bold',
+    color: 'text.secondary',
+  },
+  inviteItem: {
+    px: 0,
+  },
+  inviteLink: {
+    fontFamily: 'monospace',
+    fontSize: '0.85rem',
+    color: 'text.primary',
+    wordBreak: 'break-all',
+  },
+  inviteMeta: {
+    fontSize: '0.75rem',
+    color: 'text.secondary',
+  },
+  actionButton: {
+    color: 'text.secondary',
+  },
+};
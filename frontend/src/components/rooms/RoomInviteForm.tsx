@@ -0,0 +1,193 @@
+import { ContentCopy, DeleteOutline } from '@mui/icons-material';
+import {
+  Box,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import React, { useState, FormEvent } from 'react';
+
+import { AppButton } from '../common/AppButton';
+import { InputField } from '../common/InputField';
+
+import { styles } from './RoomInviteForm.styles';
+
+import { Modal } from '@/components/common/Modal';
+import {
+  useCreateRoomInviteMutation,
+  useGetRoomInvitesQuery,
+  useRevokeRoomInviteMutation,
+} from '@/services/room';
+import { useAppSelector } from '@/store';
+import { RoomInvite } from '@/types';
+
+// A value of 0 means no limit
+const EXPIRY_OPTIONS = [
+  { label: 'Never', value: 0 },
+  { label: '1 hour', value: 1 },
+  { label: '1 day', value: 24 },
+  { label: '7 days', value: 168 },
+  { label: '30 days', value: 720 },
+];
+
+const MAX_USE_OPTIONS = [
+  { label: 'No limit', value: 0 },
+  { label: '1 use', value: 1 },
+  { label: '5 uses', value: 5 },
+  { label: '10 uses', value: 10 },
+  { label: '25 uses', value: 25 },
+  { label: '100 uses', value: 100 },
+];
+
+const inviteUrl = (code: string) => `${window.location.origin}/invite/${code}`;
+
+const describeInvite = (invite: RoomInvite) => {
+  const uses = invite.maxUses
+    ? `${invite.useCount} of ${invite.maxUses} uses`
+    : `${invite.useCount} uses`;
+  const expiry = invite.expiresAt
+    ? `expires ${new Date(invite.expiresAt).toLocaleString()}`
+    : 'never expires';
+  return `${uses} · ${expiry}`;
+};
+
+const RoomInviteForm: React.FC<{ roomId: string }> = ({ roomId }) => {
+  const [expiresInHours, setExpiresInHours] = useState(EXPIRY_OPTIONS[2].value);
+  const [maxUses, setMaxUses] = useState(MAX_USE_OPTIONS[0].value);
+  const open = useAppSelector(
+    (state) => state.modal.open && state.modal.modalType === 'roomInvite'
+  );
+
+  const { data: invites = [] } = useGetRoomInvitesQuery(roomId, { skip: !open });
+  const [createRoomInvite, { isLoading }] = useCreateRoomInviteMutation();
+  const [revokeRoomInvite] = useRevokeRoomInviteMutation();
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const invite = await createRoomInvite({
+      roomId,
+      expiresInHours: expiresInHours || undefined,
+      maxUses: maxUses || undefined,
+    }).unwrap();
+    navigator.clipboard?.writeText(inviteUrl(invite.code));
+  };
+
+  const handleCopy = (code: string) => {
+    navigator.clipboard?.writeText(inviteUrl(code));
+  };
+
+  const handleRevoke = (inviteId: string) => {
+    revokeRoomInvite({ roomId, inviteId });
+  };
+
+  return (
+    <Modal modalType="roomInvite">
+      <Box sx={styles.formContainer}>
+        <Typography variant="h5" component="h1" color="textPrimary" sx={styles.title}>
+          Invite people
+        </Typography>
+        <Typography variant="body1" sx={styles.description}>
+          Anyone with the link can join this room. New links are copied to your clipboard.
+        </Typography>
+
+        <Box component="form" onSubmit={handleSubmit}>
+          <Box sx={styles.optionsRow}>
+            <InputField
+              select
+              fullWidth
+              size="small"
+              label="Expire after"
+              value={expiresInHours}
+              onChange={(e) => setExpiresInHours(Number(e.target.value))}
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </InputField>
+            <InputField
+              select
+              fullWidth
+              size="small"
+              label="Max uses"
+              value={maxUses}
+              onChange={(e) => setMaxUses(Number(e.target.value))}
+            >
+              {MAX_USE_OPTIONS.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </InputField>
+          </Box>
+
+          <Box sx={styles.buttonContainer}>
+            <AppButton
+              variant="contained"
+              type="submit"
+              disabled={isLoading}
+              sx={styles.createButton}
+            >
+              Generate Link
+            </AppButton>
+          </Box>
+        </Box>
+
+        {invites.length > 0 && (
+          <>
+            <Typography variant="subtitle2" sx={styles.sectionTitle}>
+              ACTIVE LINKS
+            </Typography>
+            <List disablePadding>
+              {invites.map((invite) => (
+                <ListItem
+                  key={invite.id}
+                  sx={styles.inviteItem}
+                  secondaryAction={
+                    <>
+                      <Tooltip title="Copy link">
+                        <IconButton
+                          size="small"
+                          onClick={() => handleCopy(invite.code)}
+                          sx={styles.actionButton}
+                        >
+                          <ContentCopy fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Revoke">
+                        <IconButton
+                          size="small"
+                          onClick={() => handleRevoke(invite.id)}
+                          sx={styles.actionButton}
+                        >
+                          <DeleteOutline fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  }
+                >
+                  <ListItemText
+                    primary={
+                      <Typography sx={styles.inviteLink}>{inviteUrl(invite.code)}</Typography>
+                    }
+                    secondary={
+                      <Typography sx={styles.inviteMeta}>{describeInvite(invite)}</Typography>
+                    }
+                    disableTypography
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+      </Box>
+    </Modal>
+  );
+};
+
+export default RoomInviteForm;
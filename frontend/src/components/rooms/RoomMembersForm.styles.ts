@@ -0,0 +1,61 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  formContainer: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '100%',
+    minWidth: '400px',
+    maxWidth: '500px',
+  },
+  title: {
+    fontSize: '1.5rem',
+    fontWeight: 'bold',
+    mb: 2,
+  },
+  description: {
+    mb: 2,
+    color: 'text.secondary',
+  },
+  error: {
+    mb: 2,
+    color: 'error.main',
+    fontSize: '0.85rem',
+  },
+  memberItem: {
+    px: 0,
+    gap: 1,
+  },
+  memberName: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+    color: 'text.primary',
+    fontWeight: 'medium',
+  },
+  memberStatus: {
+    fontSize: '0.75rem',
+    color: 'text.secondary',
+    fontWeight: 'regular',
+  },
+  memberRole: {
+    fontSize: '0.75rem',
+    color: 'text.secondary',
+    textTransform: 'capitalize',
+  },
+  roleSelect: {
+    minWidth: '130px',
+    '& .MuiSelect-select': {
+      textTransform: 'capitalize',
+    },
+  },
+  actionButton: {
+    color: 'text.secondary',
+  },
+  buttonContainer: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: 2,
+    mt: 3,
+  },
+};
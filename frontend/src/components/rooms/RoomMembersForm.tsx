@@ -0,0 +1,190 @@
+import { PersonRemoveOutlined } from '@mui/icons-material';
+import {
+  Box,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import { AppButton } from '../common/AppButton';
+import { InputField } from '../common/InputField';
+import { PresenceDot } from '../common/PresenceDot';
+
+import { styles } from './RoomMembersForm.styles';
+
+import { Modal } from '@/components/common/Modal';
+import { usePresence } from '@/hooks/usePresence';
+import { ROOM_ROLES, useRoomPermissions } from '@/hooks/useRoomPermissions';
+import {
+  useArchiveRoomMutation,
+  useGetRoomMembersQuery,
+  useRemoveRoomMemberMutation,
+  useUnarchiveRoomMutation,
+  useUpdateMemberRoleMutation,
+} from '@/services/room';
+import { closeModal } from '@/slices/modalSlice';
+import { useAppDispatch, useAppSelector } from '@/store';
+import { RoomMembership, RoomRole } from '@/types';
+
+const MemberName: React.FC<{ member: RoomMembership }> = ({ member }) => {
+  const { presence, statusText, statusEmoji } = usePresence(member.userId, member.user);
+
+  return (
+    <Typography sx={styles.memberName}>
+      <PresenceDot presence={presence} />
+      {member.user?.displayName || member.user?.username}
+      {(statusEmoji || statusText) && (
+        <Typography component="span" sx={styles.memberStatus}>
+          {[statusEmoji, statusText].filter(Boolean).join(' ')}
+        </Typography>
+      )}
+    </Typography>
+  );
+};
+
+const RoomMembersForm: React.FC<{ roomId: string }> = ({ roomId }) => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  const room = useAppSelector((state) => state.rooms.rooms[roomId]);
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
+  const open = useAppSelector(
+    (state) => state.modal.open && state.modal.modalType === 'roomMembers'
+  );
+
+  const { role, can, outranks } = useRoomPermissions(roomId);
+  const { data: members = [] } = useGetRoomMembersQuery(roomId, { skip: !open });
+  const [updateMemberRole] = useUpdateMemberRoleMutation();
+  const [removeRoomMember] = useRemoveRoomMemberMutation();
+  const [archiveRoom] = useArchiveRoomMutation();
+  const [unarchiveRoom] = useUnarchiveRoomMutation();
+
+  const isOwner = role === 'owner';
+
+  // Owners may appoint other owners, everyone else only manages roles below their own
+  const canChangeRole = (member: RoomMembership) =>
+    can('manageRoles') &&
+    member.userId !== currentUserId &&
+    member.userId !== room?.ownerId &&
+    (isOwner || outranks(member.role));
+
+  const assignableRoles = ROOM_ROLES.filter((option) => isOwner || outranks(option));
+
+  const canKick = (member: RoomMembership) =>
+    can('kickMembers') && member.userId !== currentUserId && outranks(member.role);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      const message = (err as { data?: { message?: string } })?.data?.message;
+      setError(message || fallback);
+    }
+  };
+
+  const handleRoleChange = (memberId: string, newRole: RoomRole) =>
+    run(
+      () => updateMemberRole({ roomId, memberId, role: newRole }).unwrap(),
+      'Could not change the role'
+    );
+
+  const handleKick = (memberId: string) =>
+    run(() => removeRoomMember({ roomId, memberId }).unwrap(), 'Could not remove the member');
+
+  const handleToggleArchive = () =>
+    run(
+      () => (room?.archivedAt ? unarchiveRoom(roomId) : archiveRoom(roomId)).unwrap(),
+      'Could not update the room'
+    );
+
+  const handleLeave = () =>
+    run(async () => {
+      if (!currentUserId) return;
+      await removeRoomMember({ roomId, memberId: currentUserId }).unwrap();
+      dispatch(closeModal());
+      navigate('/');
+    }, 'Could not leave the room');
+
+  return (
+    <Modal modalType="roomMembers">
+      <Box sx={styles.formContainer}>
+        <Typography variant="h5" component="h1" color="textPrimary" sx={styles.title}>
+          Members
+        </Typography>
+        <Typography variant="body1" sx={styles.description}>
+          {room?.archivedAt
+            ? 'This room is archived. Members can read its history but not post.'
+            : 'Roles decide what each member can do in this room.'}
+        </Typography>
+        {error && <Typography sx={styles.error}>{error}</Typography>}
+
+        <List disablePadding>
+          {members.map((member) => (
+            <ListItem
+              key={member.id}
+              sx={styles.memberItem}
+              secondaryAction={
+                canKick(member) && (
+                  <Tooltip title="Remove from room">
+                    <IconButton
+                      size="small"
+                      onClick={() => handleKick(member.userId)}
+                      sx={styles.actionButton}
+                    >
+                      <PersonRemoveOutlined fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )
+              }
+            >
+              <ListItemText
+                primary={<MemberName member={member} />}
+                secondary={
+                  !canChangeRole(member) && (
+                    <Typography sx={styles.memberRole}>{member.role}</Typography>
+                  )
+                }
+                disableTypography
+              />
+              {canChangeRole(member) && (
+                <InputField
+                  select
+                  size="small"
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member.userId, e.target.value as RoomRole)}
+                  sx={styles.roleSelect}
+                >
+                  {assignableRoles.map((option) => (
+                    <MenuItem key={option} value={option} sx={{ textTransform: 'capitalize' }}>
+                      {option}
+                    </MenuItem>
+                  ))}
+                </InputField>
+              )}
+            </ListItem>
+          ))}
+        </List>
+
+        <Box sx={styles.buttonContainer}>
+          {can('archiveRoom') && (
+            <AppButton variant="outlined" onClick={handleToggleArchive}>
+              {room?.archivedAt ? 'Unarchive Room' : 'Archive Room'}
+            </AppButton>
+          )}
+          <AppButton variant="contained" onClick={handleLeave}>
+            Leave Room
+          </AppButton>
+        </Box>
+      </Box>
+    </Modal>
+  );
+};
+
+export default RoomMembersForm;
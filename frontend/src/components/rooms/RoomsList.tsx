@@ -1,8 +1,10 @@
-import { AddCircleOutlined } from '@mui/icons-material';
-import { Box, Typography, List, Stack } from '@mui/material';
+import { Add, AddCircleOutlined } from '@mui/icons-material';
+import { Box, Typography, List, Stack, IconButton, Tooltip } from '@mui/material';
 import React, { useMemo } from 'react';
 import { useDispatch } from 'react-redux';
 
+import NewChannelForm from './NewChannelForm';
+import NewDirectMessageForm from './NewDirectMessageForm';
 import NewRoomForm from './NewRoomForm';
 import { SectionHeader, AddRoomButton } from './RoomsList.styles';
 import { RoomsListItem } from './RoomsListItem';
@@ -22,22 +24,31 @@ export const RoomsList = () => {
     dispatch(openModal());
   };
 
-  const { privateRooms, regularRooms } = useMemo(() => {
+  const handleOpenDirectMessageModal = () => {
+    dispatch(openModal('newDirectMessage'));
+  };
+
+  const { privateRooms, regularRooms, directRooms } = useMemo(() => {
     const rRooms: string[] = [];
     const pRooms: string[] = [];
+    const dRooms: string[] = [];
     allRoomIds.forEach((roomId: string) => {
-      if (rooms[roomId].isPrivate) {
+      if (rooms[roomId].isDirect) {
+        dRooms.push(roomId);
+      } else if (rooms[roomId].isPrivate) {
         pRooms.push(roomId);
       } else {
         rRooms.push(roomId);
       }
     });
-    return { privateRooms: pRooms, regularRooms: rRooms };
+    return { privateRooms: pRooms, regularRooms: rRooms, directRooms: dRooms };
   }, [allRoomIds, rooms]);
 
   return (
     <>
       <NewRoomForm />
+      <NewDirectMessageForm />
+      <NewChannelForm />
       <Box sx={{ height: '100%' }}>
         <SectionHeader>
           <Typography variant="subtitle2" fontWeight="bold" color="text.secondary">
@@ -67,6 +78,27 @@ export const RoomsList = () => {
           </>
         )}
 
+        <SectionHeader sx={{ mt: 2 }}>
+          <Typography variant="subtitle2" fontWeight="bold" color="text.secondary">
+            DIRECT MESSAGES
+          </Typography>
+          <Tooltip title="New message">
+            <IconButton
+              size="small"
+              onClick={handleOpenDirectMessageModal}
+              sx={{ color: 'text.secondary' }}
+            >
+              <Add fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </SectionHeader>
+
+        <List disablePadding>
+          {directRooms.map((roomId) => (
+            <RoomsListItem key={roomId} roomId={roomId} />
+          ))}
+        </List>
+
         <AddRoomButton onClick={() => handleOpenModal()}>
           <Stack direction="row" spacing={1} alignItems="center">
             <AddCircleOutlined sx={{ color: 'text.secondary' }} />
@@ -1,4 +1,4 @@
-import { ListItemButton } from '@mui/material';
+import { ListItemButton, SxProps, Theme } from '@mui/material';
 import { styled } from '@mui/material/styles';
 
 export const StyledListItemButton = styled(ListItemButton)(({ theme }) => ({
@@ -12,3 +12,27 @@ export const StyledListItemButton = styled(ListItemButton)(({ theme }) => ({
     },
   },
 }));
+
+const badge: SxProps<Theme> = {
+  ml: 'auto',
+  minWidth: 20,
+  px: 0.75,
+  borderRadius: 10,
+  fontSize: '0.7rem',
+  fontWeight: 'bold',
+  lineHeight: '18px',
+  textAlign: 'center',
+};
+
+export const styles: Record<string, SxProps<Theme>> = {
+  unreadBadge: {
+    ...badge,
+    backgroundColor: 'action.selected',
+    color: 'text.primary',
+  },
+  mentionBadge: {
+    ...badge,
+    backgroundColor: 'error.main',
+    color: 'error.contrastText',
+  },
+};
@@ -1,10 +1,23 @@
-import { Tag, Close, LockOutlined } from '@mui/icons-material';
-import { ListItem, ListItemText, IconButton, Typography } from '@mui/material';
-import React from 'react';
-import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import {
+  Tag,
+  Close,
+  LockOutlined,
+  PersonOutline,
+  PeopleOutline,
+  ExpandMore,
+  ChevronRight,
+} from '@mui/icons-material';
+import { Box, Collapse, ListItem, ListItemText, IconButton, Typography } from '@mui/material';
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 
-import { StyledListItemButton } from './RoomsListItem.styles';
+import { PresenceDot } from '../common/PresenceDot';
 
+import { ChannelsList } from './ChannelsList';
+import { StyledListItemButton, styles } from './RoomsListItem.styles';
+
+import { usePresence } from '@/hooks/usePresence';
+import { useRoomPermissions } from '@/hooks/useRoomPermissions';
 import { useDeleteRoomMutation } from '@/services/room';
 import { setCurrentRoom } from '@/slices/roomSlice';
 import { useAppDispatch, useAppSelector } from '@/store';
@@ -16,6 +29,27 @@ export const RoomsListItem = ({ roomId }: { roomId: string }) => {
   const navigate = useNavigate();
 
   const [deleteRoom] = useDeleteRoomMutation();
+  const { can } = useRoomPermissions(roomId);
+
+  // One-to-one conversations show whether the other person is around
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
+  const partner =
+    room.isDirect && room.participants?.length === 2
+      ? room.participants.find((participant) => participant.id !== currentUserId)
+      : undefined;
+  const { presence } = usePresence(partner?.id, partner);
+
+  const isSelected = id === roomId;
+  const unreadCount = room.unreadCount || 0;
+  const mentionCount = room.mentionCount || 0;
+  const [expanded, setExpanded] = useState(isSelected);
+
+  // Opening a room reveals its channels
+  useEffect(() => {
+    if (isSelected) {
+      setExpanded(true);
+    }
+  }, [isSelected]);
 
   const onNavigate = () => {
     dispatch(setCurrentRoom(roomId));
@@ -27,49 +61,103 @@ export const RoomsListItem = ({ roomId }: { roomId: string }) => {
     deleteRoom(roomId);
   };
 
-  const isSelected = id === roomId;
+  const onToggleChannels = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setExpanded(!expanded);
+  };
+
+  const roomIcon = () => {
+    if (partner) {
+      return <PresenceDot presence={presence} sx={{ mx: '0.25em' }} />;
+    }
+    if (room.isDirect) {
+      return (room.participants?.length || 0) > 2 ? (
+        <PeopleOutline fontSize="inherit" />
+      ) : (
+        <PersonOutline fontSize="inherit" />
+      );
+    }
+    return room.isPrivate ? <LockOutlined fontSize="inherit" /> : <Tag fontSize="inherit" />;
+  };
 
   return (
-    <ListItem
-      disablePadding
-      disableGutters
-      secondaryAction={
-        <IconButton
-          size="small"
-          onClick={onDeleteRoom}
-          sx={{ opacity: 0.6, '&:hover': { opacity: 1 }, color: 'text.primary' }}
-        >
-          <Close fontSize="small" />
-        </IconButton>
-      }
-      sx={{
-        '& .MuiListItemSecondaryAction-root': {
-          visibility: 'hidden',
-          right: 10,
-        },
-        '&:hover .MuiListItemSecondaryAction-root': {
-          visibility: 'visible',
-        },
-      }}
-    >
-      <StyledListItemButton selected={isSelected} onClick={onNavigate}>
-        <ListItemText
-          primary={
-            <Typography
-              variant="body2"
-              sx={{
-                display: 'flex',
-                alignItems: 'center',
-                gap: 0.5,
-                fontWeight: isSelected ? 'medium' : 'regular',
-              }}
+    <>
+      <ListItem
+        disablePadding
+        disableGutters
+        secondaryAction={
+          !room.isDirect &&
+          can('deleteRoom') && (
+            <IconButton
+              size="small"
+              onClick={onDeleteRoom}
+              sx={{ opacity: 0.6, '&:hover': { opacity: 1 }, color: 'text.primary' }}
             >
-              {room.title}
-            </Typography>
-          }
-          disableTypography
-        />
-      </StyledListItemButton>
-    </ListItem>
+              <Close fontSize="small" />
+            </IconButton>
+          )
+        }
+        sx={{
+          '& .MuiListItemSecondaryAction-root': {
+            visibility: 'hidden',
+            right: 10,
+          },
+          '&:hover .MuiListItemSecondaryAction-root': {
+            visibility: 'visible',
+          },
+        }}
+      >
+        <StyledListItemButton selected={isSelected} onClick={onNavigate}>
+          <ListItemText
+            primary={
+              <Typography
+                variant="body2"
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 0.5,
+                  fontWeight:
+                    isSelected || unreadCount > 0 || mentionCount > 0 ? 'bold' : 'regular',
+                }}
+              >
+                {!room.isDirect && (
+                  <IconButton
+                    size="small"
+                    aria-label={expanded ? 'Hide channels' : 'Show channels'}
+                    onClick={onToggleChannels}
+                    sx={{ p: 0, color: 'inherit' }}
+                  >
+                    {expanded ? (
+                      <ExpandMore fontSize="inherit" />
+                    ) : (
+                      <ChevronRight fontSize="inherit" />
+                    )}
+                  </IconButton>
+                )}
+                {roomIcon()}
+                {room.title}
+                {(unreadCount > 0 || mentionCount > 0) && (
+                  <Box
+                    component="span"
+                    aria-label={
+                      mentionCount > 0 ? `${mentionCount} mentions` : `${unreadCount} unread`
+                    }
+                    sx={mentionCount > 0 ? styles.mentionBadge : styles.unreadBadge}
+                  >
+                    {mentionCount > 0 ? `@${mentionCount}` : unreadCount}
+                  </Box>
+                )}
+              </Typography>
+            }
+            disableTypography
+          />
+        </StyledListItemButton>
+      </ListItem>
+      {!room.isDirect && (
+        <Collapse in={expanded} unmountOnExit>
+          <ChannelsList roomId={roomId} />
+        </Collapse>
+      )}
+    </>
   );
 };
@@ -0,0 +1,84 @@
+import { Alert, Avatar, Box, Stack, Typography } from '@mui/material';
+import { FetchBaseQueryError } from '@reduxjs/toolkit/query';
+import React, { useRef } from 'react';
+
+import { AppButton } from '../common/AppButton';
+
+import { styles } from './SettingsPage.styles';
+
+import { avatarUrl, useRemoveAvatarMutation, useUploadAvatarMutation } from '@/services/user';
+import { useAppSelector } from '@/store';
+
+const errorMessage = (error: unknown) => {
+  const message = ((error as FetchBaseQueryError)?.data as { message?: string | string[] })
+    ?.message;
+  return message ? ([] as string[]).concat(message).join(', ') : null;
+};
+
+const AvatarSettings: React.FC = () => {
+  const user = useAppSelector((state) => state.auth.user);
+  const [uploadAvatar, { error: uploadError, isLoading: isUploading }] = useUploadAvatarMutation();
+  const [removeAvatar, { error: removeError, isLoading: isRemoving }] = useRemoveAvatarMutation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const error = errorMessage(uploadError || removeError);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      uploadAvatar(file);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <>
+      <Box sx={styles.sectionHeader}>
+        <Typography variant="h6" component="h2" sx={styles.sectionTitle}>
+          Avatar
+        </Typography>
+      </Box>
+      <Typography variant="body2" sx={styles.description}>
+        Images are cropped to a square. Without one, a pattern generated from your account is shown.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={styles.alert}>
+          {error}
+        </Alert>
+      )}
+
+      <Stack direction="row" spacing={2} alignItems="center">
+        <Avatar src={avatarUrl(user, 128)} alt={user.username} sx={styles.avatarPreview} />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/png,image/jpeg,image/gif,image/webp"
+          hidden
+          onChange={handleFileChange}
+        />
+        <AppButton
+          size="small"
+          variant="contained"
+          disabled={isUploading || isRemoving}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {isUploading ? 'Uploading…' : 'Upload image'}
+        </AppButton>
+        {user.avatar && (
+          <AppButton
+            size="small"
+            disabled={isUploading || isRemoving}
+            onClick={() => removeAvatar()}
+          >
+            Remove
+          </AppButton>
+        )}
+      </Stack>
+    </>
+  );
+};
+
+export default AvatarSettings;
@@ -0,0 +1,173 @@
+import { ContentCopy } from '@mui/icons-material';
+import { Alert, Box, Chip, IconButton, Stack, Tooltip, Typography } from '@mui/material';
+import { FetchBaseQueryError } from '@reduxjs/toolkit/query';
+import React, { useState } from 'react';
+
+import { AppButton } from '../common/AppButton';
+import { InputField } from '../common/InputField';
+
+import { styles } from './SettingsPage.styles';
+
+import {
+  useDisableMfaMutation,
+  useGetMfaStatusQuery,
+  useRegenerateRecoveryCodesMutation,
+  useSetupMfaMutation,
+  useVerifyMfaMutation,
+} from '@/services/auth';
+
+const errorMessage = (error: unknown) => {
+  const message = ((error as FetchBaseQueryError)?.data as { message?: string | string[] })
+    ?.message;
+  return message ? ([] as string[]).concat(message).join(', ') : null;
+};
+
+const MfaSettings: React.FC = () => {
+  const { data: status } = useGetMfaStatusQuery();
+  const [setupMfa, { data: setup, error: setupError, isLoading: isSettingUp, reset: resetSetup }] =
+    useSetupMfaMutation();
+  const [verifyMfa, { error: verifyError, isLoading: isVerifying }] = useVerifyMfaMutation();
+  const [regenerateRecoveryCodes, { error: regenerateError, isLoading: isRegenerating }] =
+    useRegenerateRecoveryCodesMutation();
+  const [disableMfa, { error: disableError, isLoading: isDisabling }] = useDisableMfaMutation();
+
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  // Shown once right after they are generated; the server only keeps hashes
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const error = errorMessage(setupError || verifyError || regenerateError || disableError);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await verifyMfa({ token: code.trim() }).unwrap();
+    setCode('');
+    resetSetup();
+    setRecoveryCodes(result.recoveryCodes ?? null);
+  };
+
+  const handleRegenerate = async () => {
+    const result = await regenerateRecoveryCodes({ password }).unwrap();
+    setPassword('');
+    setRecoveryCodes(result.recoveryCodes);
+  };
+
+  const handleDisable = async () => {
+    await disableMfa({ password }).unwrap();
+    setPassword('');
+    setRecoveryCodes(null);
+  };
+
+  if (!status) return null;
+
+  return (
+    <>
+      <Box sx={styles.sectionHeader}>
+        <Typography variant="h6" component="h2" sx={styles.sectionTitle}>
+          Two-factor authentication
+        </Typography>
+        <Chip
+          label={status.enabled ? 'On' : 'Off'}
+          size="small"
+          color={status.enabled ? 'success' : 'default'}
+        />
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={styles.alert}>
+          {error}
+        </Alert>
+      )}
+
+      {recoveryCodes && (
+        <Alert
+          severity="warning"
+          sx={styles.alert}
+          action={
+            <Tooltip title="Copy">
+              <IconButton
+                size="small"
+                color="inherit"
+                onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+              >
+                <ContentCopy fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          }
+        >
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+          authenticator, and they won&apos;t be shown again.
+          <Box component="ul" sx={styles.recoveryCodes}>
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </Box>
+        </Alert>
+      )}
+
+      {status.enabled ? (
+        <>
+          <Typography variant="body2" sx={styles.description}>
+            You have {status.recoveryCodesRemaining} unused recovery code
+            {status.recoveryCodesRemaining === 1 ? '' : 's'} left. Confirm your password to get a
+            new set or to turn two-factor authentication off.
+          </Typography>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={styles.mfaActions}>
+            <InputField
+              label="Password"
+              type="password"
+              size="small"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <AppButton
+              variant="outlined"
+              disabled={!password || isRegenerating}
+              onClick={handleRegenerate}
+            >
+              New recovery codes
+            </AppButton>
+            <AppButton
+              variant="contained"
+              color="error"
+              disabled={!password || isDisabling}
+              onClick={handleDisable}
+            >
+              Turn off
+            </AppButton>
+          </Stack>
+        </>
+      ) : setup ? (
+        <Box component="form" onSubmit={handleVerify}>
+          <Typography variant="body2" sx={styles.description}>
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </Typography>
+          <Box component="img" src={setup.qrCodeUrl} alt="MFA QR code" sx={styles.qrCode} />
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={styles.mfaActions}>
+            <InputField
+              label="Code"
+              size="small"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+            <AppButton type="submit" variant="contained" disabled={!code.trim() || isVerifying}>
+              Turn on
+            </AppButton>
+          </Stack>
+        </Box>
+      ) : (
+        <>
+          <Typography variant="body2" sx={styles.description}>
+            Require a code from an authenticator app in addition to your password when you sign in.
+          </Typography>
+          <AppButton variant="contained" disabled={isSettingUp} onClick={() => setupMfa()}>
+            Set up
+          </AppButton>
+        </>
+      )}
+    </>
+  );
+};
+
+export default MfaSettings;
@@ -0,0 +1,91 @@
+import { SxProps, Theme } from '@mui/material';
+
+export const styles: Record<string, SxProps<Theme>> = {
+  container: {
+    maxWidth: 'md',
+    py: 4,
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+    mb: 3,
+  },
+  backButton: {
+    color: 'text.secondary',
+  },
+  title: {
+    color: 'text.primary',
+    fontWeight: 'bold',
+  },
+  paper: {
+    p: 3,
+    backgroundColor: 'background.paper',
+    borderRadius: 2,
+    '& + &': {
+      mt: 3,
+    },
+  },
+  sectionHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 2,
+    mb: 1,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    color: 'text.primary',
+  },
+  description: {
+    mb: 2,
+    color: 'text.secondary',
+  },
+  sessionItem: {
+    px: 0,
+  },
+  sessionIcon: {
+    minWidth: 40,
+    color: 'text.secondary',
+  },
+  sessionName: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+    color: 'text.primary',
+    fontWeight: 'medium',
+  },
+  currentChip: {
+    height: 20,
+    fontSize: '0.7rem',
+  },
+  sessionMeta: {
+    fontSize: '0.75rem',
+    color: 'text.secondary',
+  },
+  actionButton: {
+    color: 'text.secondary',
+  },
+  alert: {
+    mb: 2,
+  },
+  recoveryCodes: {
+    columns: 2,
+    fontFamily: 'monospace',
+    pl: 2,
+    mb: 0,
+  },
+  qrCode: {
+    display: 'block',
+    width: 180,
+    height: 180,
+    mb: 2,
+  },
+  avatarPreview: {
+    width: 64,
+    height: 64,
+  },
+  mfaActions: {
+    alignItems: { sm: 'center' },
+  },
+};
@@ -0,0 +1,159 @@
+import { ArrowBack, Computer, Logout, PhoneIphone } from '@mui/icons-material';
+import {
+  Box,
+  Chip,
+  Container,
+  IconButton,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Paper,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import { AppButton } from '../common/AppButton';
+
+import AvatarSettings from './AvatarSettings';
+import MfaSettings from './MfaSettings';
+import { styles } from './SettingsPage.styles';
+
+import {
+  useGetSessionsQuery,
+  useRevokeOtherSessionsMutation,
+  useRevokeSessionMutation,
+} from '@/services/auth';
+import { Session } from '@/types';
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+const isMobile = (userAgent: string | null) =>
+  !!userAgent && /Mobile|Android|iPhone/.test(userAgent);
+
+// A readable device name like "Firefox on Linux" from the raw user agent
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || userAgent.slice(0, 60);
+};
+
+const describeSession = (session: Session) => {
+  const lastSeen = session.current
+    ? 'Active now'
+    : `Last active ${new Date(session.lastSeenAt).toLocaleString()}`;
+  const location = session.ipAddress ? ` · ${session.ipAddress}` : '';
+  return `${lastSeen}${location} · Signed in ${new Date(session.createdAt).toLocaleDateString()}`;
+};
+
+const SettingsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { data: sessions = [] } = useGetSessionsQuery();
+  const [revokeSession] = useRevokeSessionMutation();
+  const [revokeOtherSessions, { isLoading }] = useRevokeOtherSessionsMutation();
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Container sx={styles.container}>
+      <Box sx={styles.header}>
+        <IconButton aria-label="Back" onClick={() => navigate('/rooms')} sx={styles.backButton}>
+          <ArrowBack />
+        </IconButton>
+        <Typography variant="h5" component="h1" sx={styles.title}>
+          Settings
+        </Typography>
+      </Box>
+
+      <Paper elevation={3} sx={styles.paper}>
+        <AvatarSettings />
+      </Paper>
+
+      <Paper elevation={3} sx={styles.paper}>
+        <Box sx={styles.sectionHeader}>
+          <Typography variant="h6" component="h2" sx={styles.sectionTitle}>
+            Where you&apos;re signed in
+          </Typography>
+          {hasOtherSessions && (
+            <AppButton
+              size="small"
+              variant="contained"
+              disabled={isLoading}
+              onClick={() => revokeOtherSessions()}
+            >
+              Sign out everywhere else
+            </AppButton>
+          )}
+        </Box>
+        <Typography variant="body2" sx={styles.description}>
+          Sign out of any device you don&apos;t recognize. It will need your password to get back
+          in.
+        </Typography>
+
+        <List disablePadding>
+          {sessions.map((session) => (
+            <ListItem
+              key={session.id}
+              sx={styles.sessionItem}
+              secondaryAction={
+                !session.current && (
+                  <Tooltip title="Sign out">
+                    <IconButton
+                      size="small"
+                      onClick={() => revokeSession(session.id)}
+                      sx={styles.actionButton}
+                    >
+                      <Logout fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )
+              }
+            >
+              <ListItemIcon sx={styles.sessionIcon}>
+                {isMobile(session.userAgent) ? <PhoneIphone /> : <Computer />}
+              </ListItemIcon>
+              <ListItemText
+                primary={
+                  <Typography component="span" sx={styles.sessionName}>
+                    {describeDevice(session.userAgent)}
+                    {session.current && (
+                      <Chip label="This device" size="small" sx={styles.currentChip} />
+                    )}
+                  </Typography>
+                }
+                secondary={
+                  <Typography sx={styles.sessionMeta}>{describeSession(session)}</Typography>
+                }
+                disableTypography
+              />
+            </ListItem>
+          ))}
+        </List>
+      </Paper>
+
+      <Paper elevation={3} sx={styles.paper}>
+        <MfaSettings />
+      </Paper>
+    </Container>
+  );
+};
+
+export default SettingsPage;
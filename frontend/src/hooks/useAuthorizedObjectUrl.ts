@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { useDispatch, useStore } from 'react-redux';
+
+import { fetchAuthorizedBlob } from '@/services/baseQuery';
+import { AppDispatch, RootState } from '@/store';
+
+// Object URL of a file behind auth, revoked again once it is no longer shown
+export const useAuthorizedObjectUrl = (path?: string) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const store = useStore<RootState>();
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!path) return;
+
+    let cancelled = false;
+    let objectUrl: string | undefined;
+
+    fetchAuthorizedBlob(path, dispatch, store.getState)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        // Left without a preview, the file can still be opened
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(undefined);
+    };
+  }, [path, dispatch, store]);
+
+  return url;
+};
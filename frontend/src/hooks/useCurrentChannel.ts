@@ -0,0 +1,16 @@
+import { useParams } from 'react-router-dom';
+
+import { useGetChannelsQuery } from '@/services/room';
+import { useAppSelector } from '@/store';
+
+// Resolves the channel in the URL, falling back to the room's default channel
+export const useCurrentChannel = () => {
+  const { id = '', channelId } = useParams();
+  const room = useAppSelector((state) => state.rooms.rooms[id as string]);
+
+  const { data: channels = [] } = useGetChannelsQuery(id, { skip: !room });
+
+  const channel = channels.find((c) => c.id === channelId) ?? channels.find((c) => c.isDefault);
+
+  return { room, channels, channel };
+};
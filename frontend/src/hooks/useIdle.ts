@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+
+// How long without input before the user counts as away
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+
+// True once the tab is hidden or has seen no input for a while
+export const useIdle = (timeoutMs = IDLE_TIMEOUT_MS) => {
+  const [idle, setIdle] = useState(document.hidden);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+
+    const markActive = () => {
+      setIdle(false);
+      clearTimeout(timer);
+      timer = setTimeout(() => setIdle(true), timeoutMs);
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        clearTimeout(timer);
+        setIdle(true);
+      } else {
+        markActive();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, markActive, { passive: true })
+    );
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    if (!document.hidden) markActive();
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [timeoutMs]);
+
+  return idle;
+};
@@ -0,0 +1,54 @@
+import { HERE_MENTION, ROOM_MENTION } from '@shared/markdown';
+
+import { useGetRoomMembersQuery } from '@/services/room';
+import { useSearchUsersQuery } from '@/services/user';
+import { useAppSelector } from '@/store';
+import { Room, User } from '@/types';
+
+// Only the first few matches are offered
+const MAX_SUGGESTIONS = 6;
+
+export interface MentionSuggestion {
+  name: string;
+  user?: User;
+  description: string;
+}
+
+const GROUP_MENTIONS: MentionSuggestion[] = [
+  { name: HERE_MENTION, description: 'Notify members who are online' },
+  { name: ROOM_MENTION, description: 'Notify every member of the room' },
+];
+
+// Room members matching what was typed after @, found with the user search so
+// members are not all loaded into the form. Nothing is offered for null.
+export const useMentionSuggestions = (
+  room: Room | undefined,
+  query: string | null
+): MentionSuggestion[] => {
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
+  const { data: members = [] } = useGetRoomMembersQuery(room?.id ?? '', { skip: !room });
+  const { data: searchResults = [] } = useSearchUsersQuery(query ?? '', { skip: !query });
+
+  if (!room || query === null) return [];
+
+  // The owner may not have a membership of their own
+  const memberIds = new Set([room.ownerId, ...members.map((member) => member.userId)]);
+  const candidates = query
+    ? searchResults
+    : members.flatMap((member) => (member.user ? [member.user] : []));
+
+  const users = candidates
+    .filter((user) => memberIds.has(user.id) && user.id !== currentUserId)
+    .map((user) => ({
+      name: user.username,
+      user,
+      description: user.displayName || '',
+    }));
+
+  // Direct messages have no one else to call on at once
+  const groups = room.isDirect
+    ? []
+    : GROUP_MENTIONS.filter((group) => group.name.startsWith(query.toLowerCase()));
+
+  return [...users, ...groups].slice(0, MAX_SUGGESTIONS);
+};
@@ -0,0 +1,35 @@
+import { useAppSelector } from '@/store';
+import { PresenceStatus, User, UserPresence } from '@/types';
+
+export interface PresenceView {
+  presence: PresenceStatus;
+  lastSeenAt: string | null;
+  statusText: string | null;
+  statusEmoji: string | null;
+  statusExpiresAt: string | null;
+}
+
+const isExpired = (presence: UserPresence) =>
+  !!presence.statusExpiresAt && new Date(presence.statusExpiresAt).getTime() <= Date.now();
+
+// A user's presence, falling back to what came with the user object until a live update arrives
+export const usePresence = (userId?: string, user?: User): PresenceView => {
+  const presence = useAppSelector((state) => (userId ? state.presence.users[userId] : undefined));
+
+  if (!presence) {
+    return {
+      presence: user?.presence ?? 'offline',
+      lastSeenAt: user?.lastSeenAt ?? null,
+      statusText: null,
+      statusEmoji: null,
+      statusExpiresAt: null,
+    };
+  }
+
+  // The server clears expired statuses on its next sweep, hide them until then
+  if (isExpired(presence)) {
+    return { ...presence, statusText: null, statusEmoji: null, statusExpiresAt: null };
+  }
+
+  return presence;
+};
@@ -0,0 +1,53 @@
+import { useAppSelector } from '@/store';
+import { RoomPermission, RoomRole } from '@/types';
+
+// Mirrors the backend role matrix so the UI only offers actions the server allows
+const ROLE_PERMISSIONS: Record<RoomRole, RoomPermission[]> = {
+  owner: [
+    'sendMessages',
+    'deleteAnyMessage',
+    'inviteMembers',
+    'kickMembers',
+    'renameRoom',
+    'archiveRoom',
+    'manageChannels',
+    'manageRoles',
+    'pinMessages',
+    'deleteRoom',
+  ],
+  admin: [
+    'sendMessages',
+    'deleteAnyMessage',
+    'inviteMembers',
+    'kickMembers',
+    'renameRoom',
+    'archiveRoom',
+    'manageChannels',
+    'manageRoles',
+    'pinMessages',
+  ],
+  moderator: ['sendMessages', 'deleteAnyMessage', 'inviteMembers', 'kickMembers', 'pinMessages'],
+  member: ['sendMessages'],
+  guest: [],
+};
+
+export const ROLE_RANKS: Record<RoomRole, number> = {
+  owner: 4,
+  admin: 3,
+  moderator: 2,
+  member: 1,
+  guest: 0,
+};
+
+export const ROOM_ROLES = Object.keys(ROLE_RANKS) as RoomRole[];
+
+export const useRoomPermissions = (roomId?: string) => {
+  const room = useAppSelector((state) => (roomId ? state.rooms.rooms[roomId] : undefined));
+  const role = room?.role ?? null;
+
+  const can = (permission: RoomPermission) => !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+  const outranks = (other: RoomRole) => !!role && ROLE_RANKS[role] > ROLE_RANKS[other];
+
+  return { role, can, outranks };
+};
@@ -1,27 +1,163 @@
-import { useEffect, useState, useCallback } from 'react';
-import { useSelector } from 'react-redux';
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { useDispatch, useSelector, useStore } from 'react-redux';
 import { io, Socket } from 'socket.io-client';
 
-import { RootState } from '@/store';
-import { Message } from '@/types';
+import { useIdle } from './useIdle';
+
+import { refreshSession } from '@/services/baseQuery';
+import { messageApi } from '@/services/message';
+import { roomApi } from '@/services/room';
+import { userApi } from '@/services/user';
+import { mentionReceived } from '@/slices/mentionSlice';
+import {
+  messageAcknowledged,
+  messageDelivered,
+  messageFailed,
+  messageQueued,
+  messageRetried,
+} from '@/slices/outboxSlice';
+import { presenceChanged } from '@/slices/presenceSlice';
+import { roomRead, unreadMessageReceived } from '@/slices/roomSlice';
+import { AppDispatch, RootState } from '@/store';
+import {
+  Attachment,
+  MentionEvent,
+  Message,
+  MessageChanges,
+  MessageHistoryEvent,
+  MessagePage,
+  MessagePurgedEvent,
+  ReactionEvent,
+  RoomUnreadCounts,
+  TypingEvent,
+  UnreadMessageEvent,
+  UserPresence,
+} from '@/types';
+import { applyChanges } from '@/utils/messageChanges';
+
+// Typing starts are sent at most this often, the server expires them once they stop coming
+const TYPING_THROTTLE_MS = 2 * 1000;
+
+// Sends not acknowledged by then are shown as failed, retrying them cannot create duplicates
+const SEND_TIMEOUT_MS = 10 * 1000;
 
 interface RoomSocketProps {
   roomId?: string;
+  channelId?: string;
+  // Unread counts and mentions arrive per event, so only one socket per tab should follow them
+  trackUnread?: boolean;
+  // Message to open the channel at instead of its latest messages
+  aroundMessageId?: string;
 }
 
+type MessagePageResponse = ({ success: true } & MessagePage) | { success: false; error: string };
+
+type MessageChangesResponse =
+  | ({ success: true } & MessageChanges)
+  | { success: false; error: string };
+
 interface CreateMessageDto {
   content: string;
   roomId: string;
+  channelId?: string;
+  parentMessageId?: string;
+  clientMessageId: string;
+  attachmentIds?: string[];
 }
 
-export const useRoomSocket = ({ roomId }: RoomSocketProps = {}) => {
+type SendMessageResponse = { success: true; message: Message } | { success: false; error: string };
+
+// Applies a single reaction change to a message's per-emoji summary
+const applyReaction = (message: Message, event: ReactionEvent, added: boolean): Message => {
+  const reactions = message.reactions || [];
+  const existing = reactions.find((reaction) => reaction.emoji === event.emoji);
+
+  if (added) {
+    if (existing?.userIds.includes(event.userId)) return message;
+    return {
+      ...message,
+      reactions: existing
+        ? reactions.map((reaction) =>
+            reaction === existing
+              ? {
+                  ...reaction,
+                  count: reaction.count + 1,
+                  userIds: [...reaction.userIds, event.userId],
+                }
+              : reaction
+          )
+        : [...reactions, { emoji: event.emoji, count: 1, userIds: [event.userId] }],
+    };
+  }
+
+  if (!existing?.userIds.includes(event.userId)) return message;
+  return {
+    ...message,
+    reactions: reactions
+      .map((reaction) =>
+        reaction === existing
+          ? {
+              ...reaction,
+              count: reaction.count - 1,
+              userIds: reaction.userIds.filter((id) => id !== event.userId),
+            }
+          : reaction
+      )
+      .filter((reaction) => reaction.count > 0),
+  };
+};
+
+// Adds a loaded page to the messages, replacing copies that were already there
+const mergePage = (messages: Message[], page: Message[]): Message[] => {
+  const pageIds = new Set(page.map((message) => message.id));
+  return [...messages.filter((message) => !pageIds.has(message.id)), ...page];
+};
+
+export const useRoomSocket = ({
+  roomId,
+  channelId,
+  trackUnread,
+  aroundMessageId,
+}: RoomSocketProps = {}) => {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [currentRoom, setCurrentRoom] = useState<string | undefined>(roomId);
+  const [currentChannel, setCurrentChannel] = useState<string | undefined>();
   const [messages, setMessages] = useState<Message[]>([]);
-  const [roomMembers, setRoomMembers] = useState<string[]>([]);
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
+  const [loadingPage, setLoadingPage] = useState<'older' | 'newer' | null>(null);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [newerCursor, setNewerCursor] = useState<string | null>(null);
 
   // Get authentication state from Redux
   const { token, user } = useSelector((state: RootState) => state.auth);
+  const dispatch = useDispatch<AppDispatch>();
+  const store = useStore<RootState>();
+
+  // Reconnects read the latest token, so refreshing it keeps the socket alive
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+
+  // When this client last announced typing, zero once it has stopped
+  const lastTypingAtRef = useRef(0);
+
+  // Only read when joining, later jumps go through jumpToMessage
+  const aroundMessageIdRef = useRef(aroundMessageId);
+  aroundMessageIdRef.current = aroundMessageId;
+
+  // Read by socket handlers, which outlive the render that registered them
+  const channelIdRef = useRef(channelId);
+  const newerCursorRef = useRef<string | null>(null);
+  const currentRoomRef = useRef(currentRoom);
+  currentRoomRef.current = currentRoom;
+
+  // Latest room event the messages are up to date with, null until the history arrives
+  const lastEventSeqRef = useRef<number | null>(null);
+  const isLoadingPageRef = useRef(false);
+
+  // Every socket reports idle, the server counts the user away once all of them are
+  const idle = useIdle();
+  const idleRef = useRef(idle);
+  idleRef.current = idle;
 
   useEffect(() => {
     // Don't connect if not authenticated
@@ -29,41 +165,248 @@ export const useRoomSocket = ({ roomId }: RoomSocketProps = {}) => {
 
     const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:3000';
     const newSocket = io(backendUrl, {
-      auth: {
-        token,
-      },
+      auth: (cb) => cb({ token: tokenRef.current, idle: idleRef.current }),
     });
 
     setSocket(newSocket);
 
+    // A fresh connection has not joined any channel yet
+    setCurrentChannel(undefined);
+
     // If roomId is provided initially, join the room
     if (roomId) {
       newSocket.emit('joinRoom', roomId);
       setCurrentRoom(roomId);
     }
 
+    // Our own messages coming back end their entries in the outbox
+    const markDelivered = (delivered: Message[]) => {
+      delivered.forEach((message) => {
+        if (message.clientMessageId && message.userId === user.id) {
+          dispatch(messageDelivered(message.clientMessageId));
+        }
+      });
+    };
+
+    // Rejoins after a reconnect, replaying what the channel missed in the meantime
+    const resubscribe = () => {
+      const rejoinRoomId = currentRoomRef.current;
+      const rejoinChannelId = channelIdRef.current;
+      if (!rejoinRoomId) return;
+
+      if (!rejoinChannelId) {
+        newSocket.emit('joinRoom', rejoinRoomId);
+        return;
+      }
+
+      const reloadHistory = () => {
+        newSocket.emit('joinRoom', rejoinRoomId);
+        newSocket.emit('joinChannel', { roomId: rejoinRoomId, channelId: rejoinChannelId });
+      };
+
+      const sinceSeq = lastEventSeqRef.current;
+      if (sinceSeq === null) {
+        reloadHistory();
+        return;
+      }
+
+      newSocket.emit(
+        'resubscribe',
+        { roomId: rejoinRoomId, channelId: rejoinChannelId, sinceSeq },
+        (response: MessageChangesResponse) => {
+          if (channelIdRef.current !== rejoinChannelId) return;
+
+          if (!response.success || response.reset) {
+            reloadHistory();
+            return;
+          }
+
+          lastEventSeqRef.current = response.eventSeq;
+          setMessages((prev) => applyChanges(prev, response, !newerCursorRef.current));
+          markDelivered(response.messages);
+          response.threadIds.forEach((threadId) => {
+            dispatch(messageApi.util.invalidateTags([{ type: 'Thread', id: threadId }]));
+          });
+        }
+      );
+    };
+
+    // Live events only ever move the sequence forward
+    const trackEventSeq = (eventSeq?: number) => {
+      if (eventSeq && lastEventSeqRef.current !== null && eventSeq > lastEventSeqRef.current) {
+        lastEventSeqRef.current = eventSeq;
+      }
+    };
+
+    let hasConnected = false;
+    newSocket.on('connect', () => {
+      // Messages, presence changes and unread counts were missed while disconnected
+      if (hasConnected) {
+        resubscribe();
+        dispatch(userApi.util.invalidateTags(['Presence']));
+        if (trackUnread) {
+          dispatch(roomApi.util.invalidateTags([{ type: 'Room', id: 'LIST' }]));
+        }
+      }
+      hasConnected = true;
+    });
+
     newSocket.on('connect_error', (err) => {
       throw new Error(`Connection error: ${err.message}`);
     });
 
-    newSocket.on('roomMembers', (roomMembers: string[]) => {
-      setRoomMembers(roomMembers);
+    // The server drops connections with an expired token, retry once refreshed
+    newSocket.on('disconnect', async (reason) => {
+      if (reason !== 'io server disconnect') return;
+      if (await refreshSession(dispatch, store.getState)) {
+        newSocket.connect();
+      }
     });
 
-    newSocket.on('messageHistory', (messages: Message[]) => {
-      setMessages(messages);
+    newSocket.on('presenceChanged', (presence: UserPresence) => {
+      dispatch(presenceChanged(presence));
+    });
+
+    if (trackUnread) {
+      newSocket.on('roomRead', (counts: RoomUnreadCounts) => {
+        dispatch(roomRead(counts));
+      });
+
+      newSocket.on('unreadMessage', (event: UnreadMessageEvent) => {
+        dispatch(unreadMessageReceived(event));
+      });
+
+      newSocket.on('mentioned', (event: MentionEvent) => {
+        dispatch(mentionReceived(event));
+      });
+    }
+
+    newSocket.on('messageHistory', (history: MessageHistoryEvent) => {
+      // A reply to a join that has since been replaced
+      if (history.channelId !== channelIdRef.current) return;
+
+      setMessages(history.messages);
+      markDelivered(history.messages);
+      lastEventSeqRef.current = history.eventSeq;
+      setOlderCursor(history.olderCursor);
+      setNewerCursor(history.newerCursor);
+      newerCursorRef.current = history.newerCursor;
+      setIsHistoryLoaded(true);
     });
 
     newSocket.on('newMessage', (message: Message) => {
-      setMessages((prev) => [...prev, message]);
+      trackEventSeq(message.eventSeq);
+      markDelivered([message]);
+
+      // Away from the latest messages new ones are picked up by loadNewer instead
+      if (newerCursorRef.current) return;
+      setMessages((prev) =>
+        prev.some((msg) => msg.id === message.id) ? prev : [...prev, message]
+      );
     });
 
-    newSocket.on('messageUpdated', (message: Message) => {
-      setMessages((prev) => prev.map((msg) => (msg.id === message.id ? message : msg)));
+    newSocket.on('threadReply', (reply: Message) => {
+      const parentMessageId = reply.parentMessageId as string;
+      trackEventSeq(reply.eventSeq);
+      markDelivered([reply]);
+
+      // Bump the summary on the parent message in the main channel
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === parentMessageId
+            ? { ...msg, replyCount: (msg.replyCount || 0) + 1, lastReplyAt: reply.createdAt }
+            : msg
+        )
+      );
+
+      // Append to the cached thread if it has been loaded
+      dispatch(
+        messageApi.util.updateQueryData('getReplies', parentMessageId, (draft) => {
+          if (!draft.some((msg) => msg.id === reply.id)) {
+            draft.push(reply);
+          }
+        })
+      );
     });
 
-    newSocket.on('messageDeleted', (messageId: string) => {
-      setMessages((prev) => prev.filter((msg) => msg.id !== messageId));
+    // Deletions and restores replace the message in place like edits
+    const handleMessageChanged = (message: Message) => {
+      trackEventSeq(message.eventSeq);
+
+      if (message.parentMessageId) {
+        dispatch(
+          messageApi.util.updateQueryData('getReplies', message.parentMessageId, (draft) =>
+            draft.map((msg) =>
+              msg.id === message.id
+                ? { ...message, reactions: message.reactions ?? msg.reactions }
+                : msg
+            )
+          )
+        );
+        return;
+      }
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === message.id
+            ? {
+                ...message,
+                replyCount: msg.replyCount,
+                lastReplyAt: msg.lastReplyAt,
+                // Edits come without reactions, tombstones with none left
+                reactions: message.reactions ?? msg.reactions,
+              }
+            : msg
+        )
+      );
+    };
+
+    newSocket.on('messageUpdated', handleMessageChanged);
+
+    newSocket.on('messageDeleted', handleMessageChanged);
+
+    newSocket.on('messageRestored', handleMessageChanged);
+
+    const handlePinChanged = (message: Message) => {
+      handleMessageChanged(message);
+      dispatch(roomApi.util.invalidateTags([{ type: 'Pin', id: message.roomId }]));
+    };
+
+    newSocket.on('messagePinned', handlePinChanged);
+
+    newSocket.on('messageUnpinned', handlePinChanged);
+
+    const handleReaction = (event: ReactionEvent, added: boolean) => {
+      if (event.parentMessageId) {
+        dispatch(
+          messageApi.util.updateQueryData('getReplies', event.parentMessageId, (draft) =>
+            draft.map((msg) =>
+              msg.id === event.messageId ? applyReaction(msg, event, added) : msg
+            )
+          )
+        );
+        return;
+      }
+      setMessages((prev) =>
+        prev.map((msg) => (msg.id === event.messageId ? applyReaction(msg, event, added) : msg))
+      );
+    };
+
+    newSocket.on('reactionAdded', (event: ReactionEvent) => handleReaction(event, true));
+
+    newSocket.on('reactionRemoved', (event: ReactionEvent) => handleReaction(event, false));
+
+    newSocket.on('messagePurged', (event: MessagePurgedEvent) => {
+      trackEventSeq(event.eventSeq);
+
+      if (event.parentMessageId) {
+        dispatch(
+          messageApi.util.updateQueryData('getReplies', event.parentMessageId, (draft) =>
+            draft.filter((msg) => msg.id !== event.id)
+          )
+        );
+        return;
+      }
+      setMessages((prev) => prev.filter((msg) => msg.id !== event.id));
     });
 
     return () => {
@@ -73,7 +416,11 @@ export const useRoomSocket = ({ roomId }: RoomSocketProps = {}) => {
       }
       newSocket.disconnect();
     };
-  }, [token, user]);
+  }, [!!token, user?.id]);
+
+  useEffect(() => {
+    socket?.emit('setIdle', idle);
+  }, [socket, idle]);
 
   useEffect(() => {
     if (!socket || !user) return;
@@ -94,6 +441,40 @@ export const useRoomSocket = ({ roomId }: RoomSocketProps = {}) => {
     }
   }, [socket, roomId, currentRoom, user]);
 
+  useEffect(() => {
+    if (!socket || !user) return;
+
+    // Message history and broadcasts are scoped to the channel being viewed
+    if (channelId !== currentChannel) {
+      if (currentChannel) {
+        socket.emit('leaveChannel', currentChannel);
+      }
+
+      channelIdRef.current = channelId;
+      lastEventSeqRef.current = null;
+      setMessages([]);
+      setIsHistoryLoaded(false);
+      setOlderCursor(null);
+      setNewerCursor(null);
+      newerCursorRef.current = null;
+      isLoadingPageRef.current = false;
+      setLoadingPage(null);
+
+      if (roomId && channelId) {
+        const payload = { roomId, channelId, aroundMessageId: aroundMessageIdRef.current };
+
+        // A message that can no longer be found still opens the channel
+        socket.emit('joinChannel', payload, (response: { success: boolean }) => {
+          if (!response.success && payload.aroundMessageId) {
+            socket.emit('joinChannel', { roomId, channelId });
+          }
+        });
+      }
+
+      setCurrentChannel(channelId);
+    }
+  }, [socket, roomId, channelId, currentChannel, user]);
+
   const joinRoom = useCallback(
     (newRoomId: string) => {
       if (socket && user && newRoomId !== currentRoom) {
@@ -114,18 +495,159 @@ export const useRoomSocket = ({ roomId }: RoomSocketProps = {}) => {
     }
   }, [socket, currentRoom]);
 
+  const emitMessage = useCallback(
+    (messageData: CreateMessageDto) => {
+      const { clientMessageId } = messageData;
+      if (!socket) {
+        dispatch(messageFailed({ clientMessageId, error: 'Not connected' }));
+        return;
+      }
+
+      socket
+        .timeout(SEND_TIMEOUT_MS)
+        .emit('sendMessage', messageData, (err: Error | null, response: SendMessageResponse) => {
+          if (err) {
+            dispatch(messageFailed({ clientMessageId, error: 'Not delivered' }));
+          } else if (!response.success) {
+            dispatch(messageFailed({ clientMessageId, error: response.error }));
+          } else {
+            dispatch(messageAcknowledged(response.message));
+          }
+        });
+
+      // The server ends the typing indicator when the message arrives
+      lastTypingAtRef.current = 0;
+    },
+    [socket, dispatch]
+  );
+
+  // Shown right away from the outbox, until the server broadcasts it back
   const sendMessage = useCallback(
-    (content: string) => {
-      if (socket && currentRoom && content.trim()) {
-        const messageData: CreateMessageDto = {
+    (content: string, parentMessageId?: string, attachments: Attachment[] = []) => {
+      if (!user || !currentRoom || (!content.trim() && attachments.length === 0)) return;
+
+      const clientMessageId = crypto.randomUUID();
+      const now = new Date().toISOString();
+      dispatch(
+        messageQueued({
+          id: clientMessageId,
+          clientMessageId,
           content,
           roomId: currentRoom,
-        };
+          channelId,
+          parentMessageId,
+          userId: user.id,
+          user,
+          attachments,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
 
-        socket.emit('sendMessage', messageData);
-      }
+      emitMessage({
+        content,
+        roomId: currentRoom,
+        channelId,
+        parentMessageId,
+        clientMessageId,
+        attachmentIds: attachments.map((attachment) => attachment.id),
+      });
+    },
+    [user, currentRoom, channelId, dispatch, emitMessage]
+  );
+
+  const retryMessage = useCallback(
+    (clientMessageId: string) => {
+      const message = store
+        .getState()
+        .outbox.messages.find((msg) => msg.clientMessageId === clientMessageId);
+      if (!message) return;
+
+      dispatch(messageRetried(clientMessageId));
+      emitMessage({
+        content: message.content,
+        roomId: message.roomId,
+        channelId: message.channelId ?? undefined,
+        parentMessageId: message.parentMessageId ?? undefined,
+        clientMessageId,
+        attachmentIds: message.attachments?.map((attachment) => attachment.id),
+      });
+    },
+    [store, dispatch, emitMessage]
+  );
+
+  const loadPage = useCallback(
+    (direction: 'older' | 'newer') => {
+      const cursor = direction === 'older' ? olderCursor : newerCursor;
+      if (!socket || !currentRoom || !channelId || !cursor || isLoadingPageRef.current) return;
+
+      isLoadingPageRef.current = true;
+      setLoadingPage(direction);
+
+      const event = direction === 'older' ? 'loadOlder' : 'loadNewer';
+      socket.emit(
+        event,
+        { roomId: currentRoom, channelId, cursor },
+        (response: MessagePageResponse) => {
+          isLoadingPageRef.current = false;
+          setLoadingPage(null);
+
+          if (!response.success || channelIdRef.current !== channelId) return;
+
+          setMessages((prev) => mergePage(prev, response.messages));
+          if (direction === 'older') {
+            setOlderCursor(response.olderCursor);
+          } else {
+            setNewerCursor(response.newerCursor);
+            newerCursorRef.current = response.newerCursor;
+          }
+        }
+      );
+    },
+    [socket, currentRoom, channelId, olderCursor, newerCursor]
+  );
+
+  const loadOlder = useCallback(() => loadPage('older'), [loadPage]);
+
+  const loadNewer = useCallback(() => loadPage('newer'), [loadPage]);
+
+  // Replaces the loaded messages with the page around a message, or the latest page
+  const jumpToMessage = useCallback(
+    (messageId?: string) => {
+      if (!socket || !currentRoom || !channelId) return;
+      socket.emit('joinChannel', { roomId: currentRoom, channelId, aroundMessageId: messageId });
+    },
+    [socket, currentRoom, channelId]
+  );
+
+  const markRead = useCallback(
+    (readRoomId: string, messageId?: string) => {
+      socket?.emit('markRead', { roomId: readRoomId, messageId });
+    },
+    [socket]
+  );
+
+  const startTyping = useCallback(
+    (parentMessageId?: string) => {
+      if (!socket || !currentRoom || !channelId) return;
+
+      const now = Date.now();
+      if (now - lastTypingAtRef.current < TYPING_THROTTLE_MS) return;
+      lastTypingAtRef.current = now;
+
+      socket.emit('typingStart', { roomId: currentRoom, channelId, parentMessageId });
+    },
+    [socket, currentRoom, channelId]
+  );
+
+  const stopTyping = useCallback(
+    (parentMessageId?: string) => {
+      if (!socket || !currentRoom || !channelId || !lastTypingAtRef.current) return;
+      lastTypingAtRef.current = 0;
+
+      socket.emit('typingStop', { roomId: currentRoom, channelId, parentMessageId });
     },
-    [socket, currentRoom]
+    [socket, currentRoom, channelId]
   );
 
   const listenForEvent = useCallback(
@@ -149,16 +671,16 @@ export const useRoomSocket = ({ roomId }: RoomSocketProps = {}) => {
     [listenForEvent]
   );
 
-  const onUserJoined = useCallback(
-    (callback: (data: { userId: string; roomId: string }) => void) => {
-      return listenForEvent('userJoined', callback);
+  const onThreadReply = useCallback(
+    (callback: (reply: Message) => void) => {
+      return listenForEvent<Message>('threadReply', callback);
     },
     [listenForEvent]
   );
 
-  const onUserLeft = useCallback(
-    (callback: (data: { userId: string; roomId: string }) => void) => {
-      return listenForEvent('userLeft', callback);
+  const onUserTyping = useCallback(
+    (callback: (event: TypingEvent) => void) => {
+      return listenForEvent<TypingEvent>('userTyping', callback);
     },
     [listenForEvent]
   );
@@ -166,15 +688,26 @@ export const useRoomSocket = ({ roomId }: RoomSocketProps = {}) => {
   return {
     socket,
     currentRoom,
+    currentChannel,
     joinRoom,
     leaveRoom,
     sendMessage,
+    retryMessage,
+    markRead,
+    startTyping,
+    stopTyping,
     messages,
-    roomMembers,
+    isHistoryLoaded,
+    loadingPage,
+    hasOlder: !!olderCursor,
+    hasNewer: !!newerCursor,
+    loadOlder,
+    loadNewer,
+    jumpToMessage,
     listenForEvent,
     onNewMessage,
-    onUserJoined,
-    onUserLeft,
+    onThreadReply,
+    onUserTyping,
     isConnected: !!socket,
     isAuthenticated: !!token && !!user,
   };
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+
+import { TypingEvent } from '@/types';
+
+// Drop someone whose stop never arrived, a little after the server would have expired them
+const TYPING_EXPIRY_MS = 8 * 1000;
+
+type OnUserTyping = (callback: (event: TypingEvent) => void) => () => void;
+
+// IDs of the other users typing in a channel, or in a thread when parentMessageId is given
+export const useTypingUsers = (
+  onUserTyping: OnUserTyping,
+  channelId?: string,
+  parentMessageId?: string
+) => {
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setTypingUserIds([]);
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const remove = (userId: string) => {
+      clearTimeout(timers.get(userId));
+      timers.delete(userId);
+      setTypingUserIds((prev) => prev.filter((id) => id !== userId));
+    };
+
+    const unsubscribe = onUserTyping((event) => {
+      if (event.channelId !== channelId) return;
+      if ((event.parentMessageId ?? undefined) !== parentMessageId) return;
+
+      if (!event.typing) {
+        remove(event.userId);
+        return;
+      }
+
+      clearTimeout(timers.get(event.userId));
+      timers.set(
+        event.userId,
+        setTimeout(() => remove(event.userId), TYPING_EXPIRY_MS)
+      );
+      setTypingUserIds((prev) => (prev.includes(event.userId) ? prev : [...prev, event.userId]));
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => clearTimeout(timer));
+    };
+  }, [onUserTyping, channelId, parentMessageId]);
+
+  return typingUserIds;
+};
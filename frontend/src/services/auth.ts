@@ -1,23 +1,23 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import { createApi } from '@reduxjs/toolkit/query/react';
 
-import { LoginResponse, LoginRequest, RegisterResponse, RegisterRequest } from '../types';
+import {
+  LoginResponse,
+  LoginRequest,
+  MfaChallengeResponse,
+  MfaStatus,
+  RegisterResponse,
+  RegisterRequest,
+  Session,
+} from '../types';
+
+import { baseQueryWithReauth } from './baseQuery';
 
 export const authApi = createApi({
   reducerPath: 'authApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL || 'http://localhost:3000',
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    prepareHeaders: (headers, { getState }: { getState: () => any }) => {
-      // Get the token from auth state
-      const token = getState().auth.token;
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery: baseQueryWithReauth,
+  tagTypes: ['Session', 'Mfa'],
   endpoints: (builder) => ({
-    login: builder.mutation<LoginResponse, LoginRequest>({
+    login: builder.mutation<LoginResponse | MfaChallengeResponse, LoginRequest>({
       query: (credentials) => ({
         url: '/auth/login',
         method: 'POST',
@@ -31,18 +31,95 @@ export const authApi = createApi({
         body: credentials,
       }),
     }),
+    // Revokes the refresh token server-side, the caller clears local state
+    logout: builder.mutation<void, { refreshToken: string }>({
+      query: (data) => ({
+        url: '/auth/logout',
+        method: 'POST',
+        body: data,
+      }),
+    }),
+    getSessions: builder.query<Session[], void>({
+      query: () => '/auth/sessions',
+      providesTags: ['Session'],
+    }),
+    revokeSession: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/auth/sessions/${id}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Session'],
+    }),
+    // Signs out every device except the current one
+    revokeOtherSessions: builder.mutation<void, void>({
+      query: () => ({
+        url: '/auth/sessions',
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Session'],
+    }),
+    getMfaStatus: builder.query<MfaStatus, void>({
+      query: () => '/auth/mfa',
+      providesTags: ['Mfa'],
+    }),
     setupMfa: builder.mutation<{ qrCodeUrl: string }, void>({
       query: () => ({
         url: '/auth/mfa/setup',
         method: 'POST',
       }),
     }),
-    verifyMfa: builder.mutation<{ success: boolean }, { token: string }>({
+    // Recovery codes are only returned once, when MFA is switched on
+    verifyMfa: builder.mutation<{ success: boolean; recoveryCodes?: string[] }, { token: string }>({
       query: (data) => ({
         url: '/auth/mfa/verify',
         method: 'POST',
         body: data,
       }),
+      invalidatesTags: ['Mfa'],
+    }),
+    regenerateRecoveryCodes: builder.mutation<{ recoveryCodes: string[] }, { password: string }>({
+      query: (data) => ({
+        url: '/auth/mfa/recovery-codes',
+        method: 'POST',
+        body: data,
+      }),
+      invalidatesTags: ['Mfa'],
+    }),
+    disableMfa: builder.mutation<void, { password: string }>({
+      query: (data) => ({
+        url: '/auth/mfa/disable',
+        method: 'POST',
+        body: data,
+      }),
+      invalidatesTags: ['Mfa'],
+    }),
+    verifyEmail: builder.mutation<{ emailVerified: boolean }, { token: string }>({
+      query: (data) => ({
+        url: '/auth/email/verify',
+        method: 'POST',
+        body: data,
+      }),
+    }),
+    resendEmailVerification: builder.mutation<void, void>({
+      query: () => ({
+        url: '/auth/email/resend',
+        method: 'POST',
+      }),
+    }),
+    // Always succeeds so the response does not reveal which emails have accounts
+    forgotPassword: builder.mutation<void, { email: string }>({
+      query: (data) => ({
+        url: '/auth/password/forgot',
+        method: 'POST',
+        body: data,
+      }),
+    }),
+    resetPassword: builder.mutation<void, { token: string; newPassword: string }>({
+      query: (data) => ({
+        url: '/auth/password/reset',
+        method: 'POST',
+        body: data,
+      }),
     }),
     verifyMfaLogin: builder.mutation<LoginResponse, { tempToken: string; token: string }>({
       query: (data) => ({
@@ -55,4 +132,21 @@ export const authApi = createApi({
 });
 
 // Export hooks for usage in components
-export const { useLoginMutation, useRegisterMutation } = authApi;
+export const {
+  useLoginMutation,
+  useRegisterMutation,
+  useLogoutMutation,
+  useGetSessionsQuery,
+  useRevokeSessionMutation,
+  useRevokeOtherSessionsMutation,
+  useGetMfaStatusQuery,
+  useSetupMfaMutation,
+  useVerifyMfaMutation,
+  useRegenerateRecoveryCodesMutation,
+  useDisableMfaMutation,
+  useVerifyMfaLoginMutation,
+  useVerifyEmailMutation,
+  useResendEmailVerificationMutation,
+  useForgotPasswordMutation,
+  useResetPasswordMutation,
+} = authApi;
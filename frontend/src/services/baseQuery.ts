@@ -0,0 +1,121 @@
+import { Dispatch } from '@reduxjs/toolkit';
+import {
+  BaseQueryFn,
+  FetchArgs,
+  fetchBaseQuery,
+  FetchBaseQueryError,
+} from '@reduxjs/toolkit/query/react';
+
+import { logout, tokensRefreshed } from '../slices/authActions';
+
+export const baseUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:3000';
+
+// The part of the state read here, the store itself cannot be imported as it
+// imports the API services
+type GetState = () => { auth: { token: string | null; refreshToken: string | null } };
+
+const rawBaseQuery = fetchBaseQuery({
+  baseUrl,
+  prepareHeaders: (headers, { getState }) => {
+    // Get the token from auth state
+    const token = (getState as GetState)().auth.token;
+    if (token) {
+      headers.set('authorization', `Bearer ${token}`);
+    }
+    return headers;
+  },
+});
+
+// Refresh tokens rotate on every use, so concurrent callers share one request.
+// Sending the same token twice would look like reuse and end the session.
+let pendingRefresh: Promise<boolean> | null = null;
+
+// Tabs share their tokens through localStorage. The lock keeps two tabs from
+// sending the same refresh token when their access tokens expire together
+const withRefreshLock = (callback: () => Promise<boolean>): Promise<boolean> =>
+  navigator.locks ? navigator.locks.request('auth-refresh', callback) : callback();
+
+// Swaps the refresh token for new tokens, logging out when the server rejects it
+export const refreshSession = (dispatch: Dispatch, getState: GetState): Promise<boolean> => {
+  if (!pendingRefresh) {
+    pendingRefresh = withRefreshLock(async () => {
+      // Another tab may have rotated the tokens since this one last read them
+      const refreshToken = localStorage.getItem('refreshToken');
+      const token = localStorage.getItem('token');
+      if (!refreshToken) {
+        dispatch(logout());
+        return false;
+      }
+
+      if (token && refreshToken !== getState().auth.refreshToken) {
+        dispatch(tokensRefreshed({ token, refreshToken }));
+        return true;
+      }
+
+      try {
+        const response = await fetch(`${baseUrl}/auth/refresh`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken }),
+        });
+
+        if (!response.ok) {
+          dispatch(logout());
+          return false;
+        }
+
+        dispatch(tokensRefreshed(await response.json()));
+        return true;
+      } catch {
+        // Network failure, keep the session and let the next request retry
+        return false;
+      }
+    }).finally(() => {
+      pendingRefresh = null;
+    });
+  }
+
+  return pendingRefresh;
+};
+
+// Attachments are served behind auth, so they are fetched here and shown from
+// object URLs instead of being linked to directly
+export const fetchAuthorizedBlob = async (
+  path: string,
+  dispatch: Dispatch,
+  getState: GetState
+): Promise<Blob> => {
+  const request = () =>
+    fetch(`${baseUrl}${path}`, {
+      headers: { authorization: `Bearer ${getState().auth.token}` },
+    });
+
+  let response = await request();
+  if (response.status === 401 && (await refreshSession(dispatch, getState))) {
+    response = await request();
+  }
+
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+
+  return response.blob();
+};
+
+// Retries a request once with fresh tokens when the access token has expired
+export const baseQueryWithReauth: BaseQueryFn<
+  string | FetchArgs,
+  unknown,
+  FetchBaseQueryError
+> = async (args, api, extraOptions) => {
+  let result = await rawBaseQuery(args, api, extraOptions);
+
+  if (result.error?.status === 401 && (api.getState as GetState)().auth.token) {
+    const refreshed = await refreshSession(api.dispatch, api.getState as GetState);
+    if (refreshed) {
+      result = await rawBaseQuery(args, api, extraOptions);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,89 @@
+import { createApi } from '@reduxjs/toolkit/query/react';
+
+import { Attachment, Message, MessageSearchParams, MessageVersion } from '../types';
+
+import { baseQueryWithReauth } from './baseQuery';
+
+export const messageApi = createApi({
+  reducerPath: 'messageApi',
+  baseQuery: baseQueryWithReauth,
+  tagTypes: ['Thread'],
+  endpoints: (builder) => ({
+    // Get all replies in a thread, oldest first
+    getReplies: builder.query<Message[], string>({
+      query: (parentMessageId) => `/messages/${parentMessageId}/replies`,
+      providesTags: (result, error, parentMessageId) => [{ type: 'Thread', id: parentMessageId }],
+    }),
+
+    // Every version of an edited message, oldest first
+    getMessageHistory: builder.query<MessageVersion[], string>({
+      query: (messageId) => `/messages/${messageId}/history`,
+    }),
+
+    // Results include the room so they can be shown outside of it
+    searchMessages: builder.query<Message[], MessageSearchParams>({
+      query: (params) => ({
+        url: '/messages/search',
+        params,
+      }),
+    }),
+
+    // Uploaded files are linked to a message when it is sent with their IDs
+    uploadAttachment: builder.mutation<Attachment, { roomId: string; file: File }>({
+      query: ({ roomId, file }) => {
+        const body = new FormData();
+        body.append('file', file);
+        return {
+          url: '/attachments',
+          method: 'POST',
+          params: { roomId },
+          body,
+        };
+      },
+    }),
+
+    // Moderators can bring back a deleted message, or remove it and its thread for good.
+    // Everyone viewing the channel, this client included, is told over the socket
+    restoreMessage: builder.mutation<Message, string>({
+      query: (messageId) => ({
+        url: `/messages/${messageId}/restore`,
+        method: 'POST',
+      }),
+    }),
+
+    purgeMessage: builder.mutation<void, string>({
+      query: (messageId) => ({
+        url: `/messages/${messageId}/purge`,
+        method: 'DELETE',
+      }),
+    }),
+
+    // Reaction changes reach every client, including the sender, over the socket
+    addReaction: builder.mutation<Message, { messageId: string; emoji: string }>({
+      query: ({ messageId, emoji }) => ({
+        url: `/messages/${messageId}/reactions`,
+        method: 'POST',
+        body: { emoji },
+      }),
+    }),
+
+    removeReaction: builder.mutation<Message, { messageId: string; emoji: string }>({
+      query: ({ messageId, emoji }) => ({
+        url: `/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`,
+        method: 'DELETE',
+      }),
+    }),
+  }),
+});
+
+// Export hooks for usage in components
+export const {
+  useGetRepliesQuery,
+  useGetMessageHistoryQuery,
+  useSearchMessagesQuery,
+  useUploadAttachmentMutation,
+  useRestoreMessageMutation,
+  usePurgeMessageMutation,
+  useAddReactionMutation,
+  useRemoveReactionMutation,
+} = messageApi;
@@ -1,22 +1,21 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import { createApi } from '@reduxjs/toolkit/query/react';
 
-import { Room } from '../types';
+import {
+  Channel,
+  Message,
+  Room,
+  RoomInvite,
+  RoomMembership,
+  RoomRole,
+  RoomUnreadCounts,
+} from '../types';
+
+import { baseQueryWithReauth } from './baseQuery';
 
 export const roomApi = createApi({
   reducerPath: 'roomApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL || 'http://localhost:3000',
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    prepareHeaders: (headers, { getState }: { getState: () => any }) => {
-      // Get the token from auth state
-      const token = getState().auth.token;
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
-  tagTypes: ['Room', 'RoomMembership'],
+  baseQuery: baseQueryWithReauth,
+  tagTypes: ['Room', 'RoomMembership', 'RoomInvite', 'Channel', 'Pin'],
   endpoints: (builder) => ({
     createRoom: builder.mutation<Room, { title: string; isPrivate: boolean }>({
       query: (createRoomDto) => ({
@@ -27,6 +26,16 @@ export const roomApi = createApi({
       invalidatesTags: ['Room'],
     }),
 
+    // Returns the existing conversation if one already has exactly these users
+    openDirectMessage: builder.mutation<Room, { userIds: string[] }>({
+      query: (openDirectMessageDto) => ({
+        url: '/rooms/direct',
+        method: 'POST',
+        body: openDirectMessageDto,
+      }),
+      invalidatesTags: [{ type: 'Room', id: 'LIST' }],
+    }),
+
     getRooms: builder.query<Room[], void>({
       query: () => '/rooms',
       providesTags: (result) =>
@@ -82,16 +91,169 @@ export const roomApi = createApi({
         'RoomMembership',
       ],
     }),
+
+    getRoomMembers: builder.query<RoomMembership[], string>({
+      query: (roomId) => `/room-memberships/rooms/${roomId}/members`,
+      providesTags: (result, error, roomId) => [{ type: 'RoomMembership', id: roomId }],
+    }),
+
+    updateMemberRole: builder.mutation<
+      RoomMembership,
+      { roomId: string; memberId: string; role: RoomRole }
+    >({
+      query: ({ roomId, memberId, role }) => ({
+        url: `/rooms/${roomId}/members/${memberId}/role`,
+        method: 'PATCH',
+        body: { role },
+      }),
+      invalidatesTags: (result, error, { roomId }) => [{ type: 'RoomMembership', id: roomId }],
+    }),
+
+    archiveRoom: builder.mutation<Room, string>({
+      query: (id) => ({
+        url: `/rooms/${id}/archive`,
+        method: 'POST',
+      }),
+      invalidatesTags: (result, error, id) => [{ type: 'Room', id }],
+    }),
+
+    unarchiveRoom: builder.mutation<Room, string>({
+      query: (id) => ({
+        url: `/rooms/${id}/unarchive`,
+        method: 'POST',
+      }),
+      invalidatesTags: (result, error, id) => [{ type: 'Room', id }],
+    }),
+
+    markRoomRead: builder.mutation<RoomUnreadCounts, { roomId: string; messageId?: string }>({
+      query: ({ roomId, messageId }) => ({
+        url: `/rooms/${roomId}/read`,
+        method: 'POST',
+        body: { messageId },
+      }),
+    }),
+
+    getRoomInvites: builder.query<RoomInvite[], string>({
+      query: (roomId) => `/rooms/${roomId}/invites`,
+      providesTags: (result, error, roomId) => [{ type: 'RoomInvite', id: roomId }],
+    }),
+
+    createRoomInvite: builder.mutation<
+      RoomInvite,
+      { roomId: string; expiresInHours?: number; maxUses?: number }
+    >({
+      query: ({ roomId, ...createRoomInviteDto }) => ({
+        url: `/rooms/${roomId}/invites`,
+        method: 'POST',
+        body: createRoomInviteDto,
+      }),
+      invalidatesTags: (result, error, { roomId }) => [{ type: 'RoomInvite', id: roomId }],
+    }),
+
+    revokeRoomInvite: builder.mutation<void, { roomId: string; inviteId: string }>({
+      query: ({ roomId, inviteId }) => ({
+        url: `/rooms/${roomId}/invites/${inviteId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (result, error, { roomId }) => [{ type: 'RoomInvite', id: roomId }],
+    }),
+
+    // Public preview of the room behind an invite code
+    getInvite: builder.query<RoomInvite, string>({
+      query: (code) => `/invites/${code}`,
+    }),
+
+    acceptInvite: builder.mutation<Room, string>({
+      query: (code) => ({
+        url: `/invites/${code}/accept`,
+        method: 'POST',
+      }),
+      invalidatesTags: [{ type: 'Room', id: 'LIST' }],
+    }),
+
+    getChannels: builder.query<Channel[], string>({
+      query: (roomId) => `/rooms/${roomId}/channels`,
+      providesTags: (result, error, roomId) => [{ type: 'Channel', id: roomId }],
+    }),
+
+    createChannel: builder.mutation<Channel, { roomId: string; name: string; isPrivate: boolean }>({
+      query: ({ roomId, ...createChannelDto }) => ({
+        url: `/rooms/${roomId}/channels`,
+        method: 'POST',
+        body: createChannelDto,
+      }),
+      invalidatesTags: (result, error, { roomId }) => [{ type: 'Channel', id: roomId }],
+    }),
+
+    updateChannel: builder.mutation<
+      Channel,
+      { id: string; roomId: string; updateData: Partial<Channel> }
+    >({
+      query: ({ id, updateData }) => ({
+        url: `/channels/${id}`,
+        method: 'PATCH',
+        body: updateData,
+      }),
+      invalidatesTags: (result, error, { roomId }) => [{ type: 'Channel', id: roomId }],
+    }),
+
+    deleteChannel: builder.mutation<void, { id: string; roomId: string }>({
+      query: ({ id }) => ({
+        url: `/channels/${id}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (result, error, { roomId }) => [{ type: 'Channel', id: roomId }],
+    }),
+
+    // Newest pin first, only from channels the user can see
+    getPins: builder.query<Message[], string>({
+      query: (roomId) => `/rooms/${roomId}/pins`,
+      providesTags: (result, error, roomId) => [{ type: 'Pin', id: roomId }],
+    }),
+
+    pinMessage: builder.mutation<Message, { roomId: string; messageId: string }>({
+      query: ({ roomId, messageId }) => ({
+        url: `/rooms/${roomId}/pins/${messageId}`,
+        method: 'PUT',
+      }),
+      invalidatesTags: (result, error, { roomId }) => [{ type: 'Pin', id: roomId }],
+    }),
+
+    unpinMessage: builder.mutation<Message, { roomId: string; messageId: string }>({
+      query: ({ roomId, messageId }) => ({
+        url: `/rooms/${roomId}/pins/${messageId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (result, error, { roomId }) => [{ type: 'Pin', id: roomId }],
+    }),
   }),
 });
 
 // Export hooks for usage in components
 export const {
   useCreateRoomMutation,
+  useOpenDirectMessageMutation,
   useGetRoomsQuery,
   useGetRoomQuery,
   useUpdateRoomMutation,
   useDeleteRoomMutation,
   useAddRoomMemberMutation,
   useRemoveRoomMemberMutation,
+  useGetRoomMembersQuery,
+  useUpdateMemberRoleMutation,
+  useArchiveRoomMutation,
+  useUnarchiveRoomMutation,
+  useMarkRoomReadMutation,
+  useGetRoomInvitesQuery,
+  useCreateRoomInviteMutation,
+  useRevokeRoomInviteMutation,
+  useGetInviteQuery,
+  useAcceptInviteMutation,
+  useGetChannelsQuery,
+  useCreateChannelMutation,
+  useUpdateChannelMutation,
+  useDeleteChannelMutation,
+  useGetPinsQuery,
+  usePinMessageMutation,
+  useUnpinMessageMutation,
 } = roomApi;
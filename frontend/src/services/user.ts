@@ -1,6 +1,12 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import { createApi } from '@reduxjs/toolkit/query/react';
 
-import { User } from '../types';
+import { SetStatusRequest, User, UserPresence } from '../types';
+
+import { baseQueryWithReauth, baseUrl } from './baseQuery';
+
+// Avatars are public, versioned URLs are cached by the browser until the next upload
+export const avatarUrl = (user: Pick<User, 'id' | 'avatar'>, size = 64) =>
+  `${baseUrl}/users/${user.id}/avatar?size=${size}${user.avatar ? `&v=${user.avatar}` : ''}`;
 
 interface CreateUserDto {
   username: string;
@@ -22,19 +28,8 @@ interface ChangePasswordDto {
 // Create the API with RTK Query
 export const userApi = createApi({
   reducerPath: 'userApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL || 'http://localhost:3000',
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    prepareHeaders: (headers, { getState }: { getState: () => any }) => {
-      // Get the token from auth state
-      const token = getState().auth.token;
-      if (token) {
-        headers.set('authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
-  tagTypes: ['User'],
+  baseQuery: baseQueryWithReauth,
+  tagTypes: ['User', 'Presence'],
   endpoints: (builder) => ({
     // Get a user by ID (already existed)
     getUser: builder.query<User, string>({
@@ -104,19 +99,55 @@ export const userApi = createApi({
       invalidatesTags: ['User'],
     }),
 
-    // Update a user's online status
-    updateOnlineStatus: builder.mutation<User, { id: string; isOnline: boolean }>({
-      query: ({ id, isOnline }) => ({
-        url: `/users/${id}/online-status`,
-        method: 'PATCH',
-        body: { isOnline },
+    // Cropped and resized by the server, replaces the current avatar
+    uploadAvatar: builder.mutation<User, File>({
+      query: (file) => {
+        const body = new FormData();
+        body.append('file', file);
+        return {
+          url: '/users/me/avatar',
+          method: 'PUT',
+          body,
+        };
+      },
+      invalidatesTags: (result) => (result ? [{ type: 'User', id: result.id }] : []),
+    }),
+
+    // Goes back to the generated identicon
+    removeAvatar: builder.mutation<User, void>({
+      query: () => ({
+        url: '/users/me/avatar',
+        method: 'DELETE',
       }),
       invalidatesTags: (result) => (result ? [{ type: 'User', id: result.id }] : []),
     }),
 
+    // Get the presence of the current user and everyone sharing a room with them
+    getPresence: builder.query<UserPresence[], void>({
+      query: () => '/presence',
+      providesTags: ['Presence'],
+    }),
+
+    // Set the current user's custom status
+    setStatus: builder.mutation<UserPresence, SetStatusRequest>({
+      query: (body) => ({
+        url: '/presence/status',
+        method: 'PUT',
+        body,
+      }),
+    }),
+
+    // Clear the current user's custom status
+    clearStatus: builder.mutation<UserPresence, void>({
+      query: () => ({
+        url: '/presence/status',
+        method: 'DELETE',
+      }),
+    }),
+
     // Search for users
     searchUsers: builder.query<User[], string>({
-      query: (query) => `/users/search?query=${encodeURIComponent(query)}`,
+      query: (query) => `/users?search=${encodeURIComponent(query)}`,
       providesTags: [{ type: 'User', id: 'SEARCH' }],
     }),
 
@@ -145,7 +176,11 @@ export const {
   useUpdateUserMutation,
   useChangePasswordMutation,
   useDeleteUserMutation,
-  useUpdateOnlineStatusMutation,
+  useUploadAvatarMutation,
+  useRemoveAvatarMutation,
+  useGetPresenceQuery,
+  useSetStatusMutation,
+  useClearStatusMutation,
   useSearchUsersQuery,
   useLazySearchUsersQuery,
   useGetUsersByRoomIdQuery,
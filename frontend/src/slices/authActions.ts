@@ -0,0 +1,9 @@
+import { createAction } from '@reduxjs/toolkit';
+
+import { AuthTokens } from '../types';
+
+// Kept out of authSlice so the base query can dispatch them without importing
+// the API services that authSlice listens to, which would be a cycle
+export const logout = createAction('auth/logout');
+
+export const tokensRefreshed = createAction<AuthTokens>('auth/tokensRefreshed');
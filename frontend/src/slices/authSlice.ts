@@ -1,49 +1,92 @@
-import { createSlice } from '@reduxjs/toolkit';
+import { createSlice, isAnyOf } from '@reduxjs/toolkit';
 
 import { authApi } from '../services/auth';
+import { userApi } from '../services/user';
 import { User } from '../types';
 
+import { logout, tokensRefreshed } from './authActions';
+
 interface AuthState {
   user: User | null;
   token: string | null;
+  // Long-lived token used to get a new access token once it expires
+  refreshToken: string | null;
   isAuthenticated: boolean;
 }
 
 const initialState: AuthState = {
   user: localStorage.getItem('user') ? JSON.parse(localStorage.getItem('user')!) : null,
   token: localStorage.getItem('token') || null,
+  refreshToken: localStorage.getItem('refreshToken') || null,
   isAuthenticated: localStorage.getItem('token') ? true : false,
 };
 
 const authSlice = createSlice({
   name: 'auth',
   initialState,
-  reducers: {
-    logout: (state) => {
+  reducers: {},
+  extraReducers: (builder) => {
+    builder.addCase(logout, (state) => {
       state.user = null;
       state.token = null;
+      state.refreshToken = null;
       state.isAuthenticated = false;
       localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
       localStorage.removeItem('user');
-    },
-  },
-  extraReducers: (builder) => {
-    builder.addMatcher(authApi.endpoints.login.matchFulfilled, (state, { payload }) => {
-      state.token = payload.token;
-      state.user = payload.user;
-      state.isAuthenticated = true;
-      localStorage.setItem('token', payload.token);
-      localStorage.setItem('user', JSON.stringify(payload.user));
     });
+    builder.addCase(tokensRefreshed, (state, action) => {
+      state.token = action.payload.token;
+      state.refreshToken = action.payload.refreshToken;
+      localStorage.setItem('token', action.payload.token);
+      localStorage.setItem('refreshToken', action.payload.refreshToken);
+    });
+    builder.addMatcher(
+      isAnyOf(
+        authApi.endpoints.login.matchFulfilled,
+        authApi.endpoints.verifyMfaLogin.matchFulfilled
+      ),
+      (state, { payload }) => {
+        // MFA accounts get a challenge first, tokens arrive with verifyMfaLogin
+        if ('requiresMfa' in payload) return;
+        state.token = payload.token;
+        state.refreshToken = payload.refreshToken;
+        state.user = payload.user;
+        state.isAuthenticated = true;
+        localStorage.setItem('token', payload.token);
+        localStorage.setItem('refreshToken', payload.refreshToken);
+        localStorage.setItem('user', JSON.stringify(payload.user));
+      }
+    );
     builder.addMatcher(authApi.endpoints.register.matchFulfilled, (state, { payload }) => {
       state.user = payload.user;
       state.token = payload.token;
+      state.refreshToken = payload.refreshToken;
       state.isAuthenticated = true;
       localStorage.setItem('token', payload.token);
+      localStorage.setItem('refreshToken', payload.refreshToken);
       localStorage.setItem('user', JSON.stringify(payload.user));
     });
+    builder.addMatcher(
+      isAnyOf(
+        userApi.endpoints.uploadAvatar.matchFulfilled,
+        userApi.endpoints.removeAvatar.matchFulfilled
+      ),
+      (state, { payload }) => {
+        if (state.user) {
+          state.user.avatar = payload.avatar;
+          localStorage.setItem('user', JSON.stringify(state.user));
+        }
+      }
+    );
+    builder.addMatcher(authApi.endpoints.verifyEmail.matchFulfilled, (state) => {
+      if (state.user) {
+        state.user.emailVerified = true;
+        localStorage.setItem('user', JSON.stringify(state.user));
+      }
+    });
   },
 });
 
-export const { logout } = authSlice.actions;
+export { logout, tokensRefreshed };
 export default authSlice.reducer;
@@ -0,0 +1,34 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+import { MentionEvent } from '../types';
+
+import { logout } from './authSlice';
+
+interface MentionState {
+  // The mention to tell the user about, replaced by the next one
+  latest: MentionEvent | null;
+}
+
+const initialState: MentionState = {
+  latest: null,
+};
+
+const mentionSlice = createSlice({
+  name: 'mention',
+  initialState,
+  reducers: {
+    mentionReceived: (state, action: PayloadAction<MentionEvent>) => {
+      state.latest = action.payload;
+    },
+    mentionDismissed: (state) => {
+      state.latest = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(logout, () => initialState);
+  },
+});
+
+export const { mentionReceived, mentionDismissed } = mentionSlice.actions;
+
+export default mentionSlice.reducer;
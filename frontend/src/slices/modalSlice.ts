@@ -1,18 +1,41 @@
-import { createSlice } from '@reduxjs/toolkit';
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 
-const initialState = {
+export type ModalType =
+  | 'newRoom'
+  | 'newDirectMessage'
+  | 'roomInvite'
+  | 'newChannel'
+  | 'roomMembers'
+  | 'setStatus';
+
+interface ModalState {
+  open: boolean;
+  modalType: ModalType | null;
+  // Room the modal acts on, for modals opened from a specific room
+  roomId: string | null;
+}
+
+const initialState: ModalState = {
   open: false,
+  modalType: null,
+  roomId: null,
 };
 
 const modalSlice = createSlice({
   name: 'modal',
   initialState,
   reducers: {
-    openModal: () => {
-      return { open: true };
+    openModal: (
+      _state,
+      action: PayloadAction<ModalType | { modalType: ModalType; roomId: string } | undefined>
+    ) => {
+      if (typeof action.payload === 'object') {
+        return { open: true, ...action.payload };
+      }
+      return { open: true, modalType: action.payload ?? 'newRoom', roomId: null };
     },
     closeModal: () => {
-      return { open: false };
+      return { open: false, modalType: null, roomId: null };
     },
   },
 });
@@ -0,0 +1,70 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+import { Message } from '../types';
+
+import { logout } from './authSlice';
+
+interface OutboxState {
+  // Messages sent from this tab that have not come back over the socket yet,
+  // saved ones are kept until then so they do not flicker out of the list
+  messages: Message[];
+}
+
+const initialState: OutboxState = {
+  messages: [],
+};
+
+const outboxSlice = createSlice({
+  name: 'outbox',
+  initialState,
+  reducers: {
+    messageQueued: (state, action: PayloadAction<Message>) => {
+      state.messages.push({ ...action.payload, sendStatus: 'sending' });
+    },
+    messageRetried: (state, action: PayloadAction<string>) => {
+      const message = state.messages.find((msg) => msg.clientMessageId === action.payload);
+      if (message) {
+        message.sendStatus = 'sending';
+        delete message.sendError;
+      }
+    },
+    messageFailed: (state, action: PayloadAction<{ clientMessageId: string; error: string }>) => {
+      const message = state.messages.find(
+        (msg) => msg.clientMessageId === action.payload.clientMessageId
+      );
+      if (message) {
+        message.sendStatus = 'failed';
+        message.sendError = action.payload.error;
+      }
+    },
+    // The server saved it, the broadcast copy replaces it once it arrives
+    messageAcknowledged: (state, action: PayloadAction<Message>) => {
+      const index = state.messages.findIndex(
+        (msg) => msg.clientMessageId === action.payload.clientMessageId
+      );
+      if (index !== -1) {
+        state.messages[index] = action.payload;
+      }
+    },
+    messageDelivered: (state, action: PayloadAction<string>) => {
+      state.messages = state.messages.filter((msg) => msg.clientMessageId !== action.payload);
+    },
+    messageDiscarded: (state, action: PayloadAction<string>) => {
+      state.messages = state.messages.filter((msg) => msg.clientMessageId !== action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(logout, () => initialState);
+  },
+});
+
+export const {
+  messageQueued,
+  messageRetried,
+  messageFailed,
+  messageAcknowledged,
+  messageDelivered,
+  messageDiscarded,
+} = outboxSlice.actions;
+
+export default outboxSlice.reducer;
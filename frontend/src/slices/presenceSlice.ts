@@ -0,0 +1,48 @@
+import { createSlice, isAnyOf, PayloadAction } from '@reduxjs/toolkit';
+
+import { UserPresence } from '../types';
+
+import { logout } from './authSlice';
+
+import { userApi } from '@/services/user';
+
+interface PresenceState {
+  // Latest known presence by user ID, kept current by socket updates
+  users: Record<string, UserPresence>;
+}
+
+const initialState: PresenceState = {
+  users: {},
+};
+
+const presenceSlice = createSlice({
+  name: 'presence',
+  initialState,
+  reducers: {
+    presenceChanged: (state, action: PayloadAction<UserPresence>) => {
+      state.users[action.payload.userId] = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(logout, () => initialState)
+      .addMatcher(userApi.endpoints.getPresence.matchFulfilled, (state, action) => {
+        action.payload.forEach((presence) => {
+          state.users[presence.userId] = presence;
+        });
+      })
+      .addMatcher(
+        isAnyOf(
+          userApi.endpoints.setStatus.matchFulfilled,
+          userApi.endpoints.clearStatus.matchFulfilled
+        ),
+        (state, action) => {
+          state.users[action.payload.userId] = action.payload;
+        }
+      );
+  },
+});
+
+export const { presenceChanged } = presenceSlice.actions;
+
+export default presenceSlice.reducer;
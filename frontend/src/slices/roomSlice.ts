@@ -1,6 +1,6 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, isAnyOf, PayloadAction } from '@reduxjs/toolkit';
 
-import { Room } from '../types';
+import { Room, RoomUnreadCounts, UnreadMessageEvent } from '../types';
 
 import { roomApi } from '@/services/room';
 
@@ -22,6 +22,15 @@ const initialState: RoomState = {
   error: null,
 };
 
+const applyUnreadCounts = (state: RoomState, counts: RoomUnreadCounts) => {
+  const room = state.rooms[counts.roomId];
+  if (room) {
+    room.lastReadAt = counts.lastReadAt;
+    room.unreadCount = counts.unreadCount;
+    room.mentionCount = counts.mentionCount;
+  }
+};
+
 const roomSlice = createSlice({
   name: 'rooms',
   initialState,
@@ -60,6 +69,21 @@ const roomSlice = createSlice({
         state.rooms[room.id] = room;
       }
     },
+    roomRead: (state, action: PayloadAction<RoomUnreadCounts>) => {
+      applyUnreadCounts(state, action.payload);
+    },
+    unreadMessageReceived: (state, action: PayloadAction<UnreadMessageEvent>) => {
+      const room = state.rooms[action.payload.roomId];
+      if (room) {
+        // Thread replies count towards mentions but not unread messages
+        if (!action.payload.parentMessageId) {
+          room.unreadCount = (room.unreadCount || 0) + 1;
+        }
+        if (action.payload.mentioned) {
+          room.mentionCount = (room.mentionCount || 0) + 1;
+        }
+      }
+    },
     removeRoom: (state, action: PayloadAction<string>) => {
       const roomId = action.payload;
       delete state.rooms[roomId];
@@ -105,13 +129,37 @@ const roomSlice = createSlice({
       state.error = error.message || 'Failed to fetch rooms';
     });
 
-    // When a new room is created
-    builder.addMatcher(roomApi.endpoints.createRoom.matchFulfilled, (state, { payload }) => {
-      state.rooms[payload.id] = payload;
-      if (!state.allRoomIds.includes(payload.id)) {
-        state.allRoomIds.push(payload.id);
+    // When a new room is created, a direct message is opened or an invite is accepted
+    builder.addMatcher(
+      isAnyOf(
+        roomApi.endpoints.createRoom.matchFulfilled,
+        roomApi.endpoints.openDirectMessage.matchFulfilled,
+        roomApi.endpoints.acceptInvite.matchFulfilled
+      ),
+      (state, { payload }) => {
+        state.rooms[payload.id] = payload;
+        if (!state.allRoomIds.includes(payload.id)) {
+          state.allRoomIds.push(payload.id);
+        }
       }
+    );
+
+    builder.addMatcher(roomApi.endpoints.markRoomRead.matchFulfilled, (state, { payload }) => {
+      applyUnreadCounts(state, payload);
     });
+
+    // Archiving only changes the timestamp, the viewer's role stays as it was
+    builder.addMatcher(
+      isAnyOf(
+        roomApi.endpoints.archiveRoom.matchFulfilled,
+        roomApi.endpoints.unarchiveRoom.matchFulfilled
+      ),
+      (state, { payload }) => {
+        if (state.rooms[payload.id]) {
+          state.rooms[payload.id].archivedAt = payload.archivedAt;
+        }
+      }
+    );
   },
 });
 
@@ -128,7 +176,15 @@ export const selectCurrentRoom = (state: { rooms: RoomState }) =>
 export const selectJoinedRooms = (state: { rooms: RoomState }) =>
   state.rooms.joinedRooms.map((id) => state.rooms.rooms[id]).filter(Boolean);
 
-export const { setCurrentRoom, joinRoom, leaveRoom, addRoom, updateRoom, removeRoom } =
-  roomSlice.actions;
+export const {
+  setCurrentRoom,
+  joinRoom,
+  leaveRoom,
+  addRoom,
+  updateRoom,
+  roomRead,
+  unreadMessageReceived,
+  removeRoom,
+} = roomSlice.actions;
 
 export default roomSlice.reducer;
@@ -0,0 +1,26 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+interface SearchState {
+  query: string | null;
+}
+
+const initialState: SearchState = {
+  query: null,
+};
+
+const searchSlice = createSlice({
+  name: 'search',
+  initialState,
+  reducers: {
+    openSearch: (state, action: PayloadAction<string>) => {
+      state.query = action.payload;
+    },
+    closeSearch: (state) => {
+      state.query = null;
+    },
+  },
+});
+
+export const { openSearch, closeSearch } = searchSlice.actions;
+
+export default searchSlice.reducer;
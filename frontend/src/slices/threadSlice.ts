@@ -0,0 +1,26 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+interface ThreadState {
+  openThreadId: string | null;
+}
+
+const initialState: ThreadState = {
+  openThreadId: null,
+};
+
+const threadSlice = createSlice({
+  name: 'thread',
+  initialState,
+  reducers: {
+    openThread: (state, action: PayloadAction<string>) => {
+      state.openThreadId = action.payload;
+    },
+    closeThread: (state) => {
+      state.openThreadId = null;
+    },
+  },
+});
+
+export const { openThread, closeThread } = threadSlice.actions;
+
+export default threadSlice.reducer;
@@ -3,10 +3,17 @@ import { setupListeners } from '@reduxjs/toolkit/query';
 import { TypedUseSelectorHook, useDispatch, useSelector } from 'react-redux';
 
 import { authApi } from '../services/auth';
+import { logout, tokensRefreshed } from '../slices/authActions';
 import authReducer from '../slices/authSlice';
+import mentionReducer from '../slices/mentionSlice';
 import modalReducer from '../slices/modalSlice';
+import outboxReducer from '../slices/outboxSlice';
+import presenceReducer from '../slices/presenceSlice';
 import roomReducer from '../slices/roomSlice';
+import searchReducer from '../slices/searchSlice';
+import threadReducer from '../slices/threadSlice';
 
+import { messageApi } from '@/services/message';
 import { roomApi } from '@/services/room';
 import { userApi } from '@/services/user';
 
@@ -15,17 +22,41 @@ export const store = configureStore({
     auth: authReducer,
     rooms: roomReducer,
     modal: modalReducer,
+    thread: threadReducer,
+    search: searchReducer,
+    presence: presenceReducer,
+    outbox: outboxReducer,
+    mention: mentionReducer,
     [userApi.reducerPath]: userApi.reducer,
     [roomApi.reducerPath]: roomApi.reducer,
     [authApi.reducerPath]: authApi.reducer,
+    [messageApi.reducerPath]: messageApi.reducer,
   },
   middleware: (getDefaultMiddleware) =>
-    getDefaultMiddleware().concat(authApi.middleware, userApi.middleware, roomApi.middleware),
+    getDefaultMiddleware().concat(
+      authApi.middleware,
+      userApi.middleware,
+      roomApi.middleware,
+      messageApi.middleware
+    ),
 });
 
 // Enable refetchOnFocus and refetchOnReconnect
 setupListeners(store.dispatch);
 
+// Follows refreshes and logouts made in other tabs, which would otherwise
+// leave this tab with a refresh token the server has already rotated
+window.addEventListener('storage', (event) => {
+  if (event.key !== 'refreshToken' || !store.getState().auth.refreshToken) return;
+
+  const token = localStorage.getItem('token');
+  if (event.newValue && token) {
+    store.dispatch(tokensRefreshed({ token, refreshToken: event.newValue }));
+  } else if (!event.newValue) {
+    store.dispatch(logout());
+  }
+});
+
 // TypeScript types for useDispatch and useSelector
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
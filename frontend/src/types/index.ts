@@ -4,11 +4,47 @@ export interface User {
   email?: string;
   createdAt: string;
   updatedAt: string;
-  avatar?: string;
+  // Version of the uploaded avatar, null while the generated identicon is used
+  avatar?: string | null;
   isOnline?: boolean;
-  displayname?: string;
+  presence?: PresenceStatus;
+  lastSeenAt?: string | null;
+  displayName?: string;
+  emailVerified?: boolean;
 }
 
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface UserPresence {
+  userId: string;
+  presence: PresenceStatus;
+  lastSeenAt: string | null;
+  statusText: string | null;
+  statusEmoji: string | null;
+  statusExpiresAt: string | null;
+}
+
+export interface SetStatusRequest {
+  text?: string;
+  emoji?: string;
+  // Omit to keep the status until it is cleared
+  expiresAt?: string;
+}
+
+export type RoomRole = 'owner' | 'admin' | 'moderator' | 'member' | 'guest';
+
+export type RoomPermission =
+  | 'sendMessages'
+  | 'deleteAnyMessage'
+  | 'inviteMembers'
+  | 'kickMembers'
+  | 'renameRoom'
+  | 'archiveRoom'
+  | 'manageChannels'
+  | 'manageRoles'
+  | 'pinMessages'
+  | 'deleteRoom';
+
 export interface Room {
   id: string;
   title: string;
@@ -16,23 +52,196 @@ export interface Room {
   updatedAt: string;
   ownerId: string;
   isPrivate: boolean;
+  isDirect?: boolean;
+  participants?: User[];
+  memberCount?: number;
+  archivedAt?: string | null;
+  // Current user's role, null when they cannot see the room
+  role?: RoomRole | null;
+  lastReadAt?: string | null;
+  unreadCount?: number;
+  mentionCount?: number;
+}
+
+export interface RoomUnreadCounts {
+  roomId: string;
+  lastReadAt: string | null;
+  unreadCount: number;
+  mentionCount: number;
+}
+
+// Sent to each user who should count a new message as unread
+export interface UnreadMessageEvent {
+  roomId: string;
+  channelId: string;
+  messageId: string;
+  // Thread replies are only sent to the users they mention
+  parentMessageId: string | null;
+  mentioned: boolean;
+  // Start of the message without markdown
+  preview: string;
+}
+
+// Sent to each user a new or edited message mentions, thread replies included
+export interface MentionEvent {
+  roomId: string;
+  channelId: string;
+  messageId: string;
+  parentMessageId: string | null;
+  authorId: string;
+  authorUsername: string | null;
+  // Start of the message without markdown
+  preview: string;
+}
+
+export interface RoomInvite {
+  id: string;
+  code: string;
+  roomId: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+  useCount: number;
+  revokedAt: string | null;
+  room?: Room;
+  createdAt: string;
+}
+
+export interface Channel {
+  id: string;
+  roomId: string;
+  name: string;
+  isPrivate: boolean;
+  isDefault: boolean;
+  position: number;
+  createdAt: string;
+}
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+export interface ReactionEvent {
+  messageId: string;
+  parentMessageId: string | null;
+  roomId: string;
+  channelId: string;
+  userId: string;
+  emoji: string;
+}
+
+export interface TypingEvent {
+  userId: string;
+  roomId: string;
+  channelId: string;
+  parentMessageId: string | null;
+  typing: boolean;
+}
+
+export interface Attachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  // Only known for images
+  width: number | null;
+  height: number | null;
+  hasThumbnail: boolean;
 }
 
 export interface Message {
   id: string;
   content: string;
   roomId: string;
+  channelId?: string | null;
   parentMessageId?: string | null;
   userId: string;
   user?: User;
+  replyCount?: number;
+  lastReplyAt?: string | null;
+  reactions?: ReactionSummary[];
+  attachments?: Attachment[];
+  // Users mentioned by name or through @here and @room, set by the server
+  mentionedUserIds?: string[];
+  mentionsHere?: boolean;
+  mentionsRoom?: boolean;
+  room?: Room;
+  // Sequence number of the room event that produced this version, set on live events
+  eventSeq?: number;
+  clientMessageId?: string | null;
+  // Only on messages this client is still sending, see outboxSlice
+  sendStatus?: 'sending' | 'failed';
+  sendError?: string;
+  // Set once the author has edited the content
+  editedAt?: string | null;
+  // Deleted messages are tombstones without content until restored or purged
+  deletedAt?: string | null;
+  deletedById?: string | null;
+  // Set while the message is pinned to its room
+  pinnedAt?: string | null;
+  pinnedById?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Sent when a deleted message is removed for good
+export interface MessagePurgedEvent {
+  id: string;
+  roomId: string;
+  channelId: string;
+  parentMessageId: string | null;
+  eventSeq: number;
+}
+
+// One version of an edited message, the current one last
+export interface MessageVersion {
+  content: string;
+  createdAt: string;
+  current: boolean;
+}
+
+// Cursors are opaque, null once the start or the end of the channel is loaded
+export interface MessagePage {
+  messages: Message[];
+  olderCursor: string | null;
+  newerCursor: string | null;
+  eventSeq: number;
+}
+
+export interface MessageHistoryEvent extends MessagePage {
+  roomId: string;
+  channelId: string;
+}
+
+// What changed in a channel while the socket was disconnected
+export interface MessageChanges {
+  eventSeq: number;
+  // The gap was too large to replay, the history has to be reloaded
+  reset: boolean;
+  messages: Message[];
+  deletedIds: string[];
+  threadIds: string[];
+}
+
+export interface MessageSearchParams {
+  q: string;
+  roomId?: string;
+  authorId?: string;
+  from?: string;
+  to?: string;
+  hasThread?: boolean;
+  mentionsMe?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
 export interface RoomMembership {
   id: string;
   roomId: string;
   userId: string;
+  role: RoomRole;
+  user?: User;
   createdAt: string;
   updatedAt: string;
 }
@@ -44,9 +253,21 @@ export interface LoginRequest {
 
 export interface LoginResponse {
   token: string;
+  refreshToken: string;
   user: User;
 }
 
+// Returned by login instead of tokens when the account has MFA enabled
+export interface MfaChallengeResponse {
+  requiresMfa: true;
+  tempToken: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
 export interface RegisterRequest {
   username: string;
   email: string;
@@ -55,10 +276,28 @@ export interface RegisterRequest {
 
 export interface RegisterResponse {
   token: string;
+  refreshToken: string;
   user: User;
 }
 
+export interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
 export interface MessageRequest {
   content: string;
   roomId: string;
+  channelId?: string;
+  parentMessageId?: string;
+  attachmentIds?: string[];
 }
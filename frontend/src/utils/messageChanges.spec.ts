@@ -0,0 +1,51 @@
+import { applyChanges } from './messageChanges';
+
+import { Message, MessageChanges } from '@/types';
+
+const message = (id: string, createdAt: string, content = id): Message => ({
+  id,
+  content,
+  roomId: 'room',
+  channelId: 'channel',
+  userId: 'user',
+  createdAt,
+  updatedAt: createdAt,
+});
+
+const changes = (messages: Message[], deletedIds: string[] = []): MessageChanges => ({
+  eventSeq: 2,
+  reset: false,
+  messages,
+  deletedIds,
+  threadIds: [],
+});
+
+describe('applyChanges', () => {
+  it('adds every missed message when nothing was loaded', () => {
+    const missed = [message('a', '2024-05-21T12:00:00Z'), message('b', '2024-05-21T12:01:00Z')];
+
+    expect(applyChanges([], changes(missed), true)).toEqual(missed);
+  });
+
+  it('replaces changed messages and drops purged ones', () => {
+    const loaded = [message('a', '2024-05-21T12:00:00Z'), message('b', '2024-05-21T12:01:00Z')];
+    const edited = message('a', '2024-05-21T12:00:00Z', 'edited');
+
+    expect(applyChanges(loaded, changes([edited], ['b']), true)).toEqual([edited]);
+  });
+
+  it('leaves out unknown messages older than everything loaded', () => {
+    const loaded = [message('b', '2024-05-21T12:01:00Z')];
+    const older = message('a', '2024-05-21T12:00:00Z');
+    const newer = message('c', '2024-05-21T12:02:00Z');
+
+    expect(applyChanges(loaded, changes([older, newer]), true)).toEqual([...loaded, newer]);
+  });
+
+  it('only updates loaded messages when the latest are not loaded', () => {
+    const loaded = [message('a', '2024-05-21T12:00:00Z')];
+    const newer = message('b', '2024-05-21T12:01:00Z');
+
+    expect(applyChanges(loaded, changes([newer]), false)).toEqual(loaded);
+  });
+});
@@ -0,0 +1,27 @@
+import { Message, MessageChanges } from '@/types';
+
+// Applies changes missed while disconnected. Unknown messages are only added when the
+// latest messages are loaded, and not if they are older than everything loaded
+export const applyChanges = (
+  messages: Message[],
+  changes: MessageChanges,
+  includeNew: boolean
+): Message[] => {
+  const deletedIds = new Set(changes.deletedIds);
+  const changed = new Map(changes.messages.map((message) => [message.id, message]));
+  const kept = messages
+    .filter((message) => !deletedIds.has(message.id))
+    .map((message) => changed.get(message.id) ?? message);
+
+  if (!includeNew) return kept;
+
+  const knownIds = new Set(messages.map((message) => message.id));
+  // With nothing loaded there is no oldest message, every change is new
+  const oldestAt = messages.length
+    ? Math.min(...messages.map((message) => Date.parse(message.createdAt)))
+    : -Infinity;
+  const added = changes.messages.filter(
+    (message) => !knownIds.has(message.id) && Date.parse(message.createdAt) >= oldestAt
+  );
+  return [...kept, ...added];
+};
@@ -19,6 +19,8 @@ module.exports = {
     extensions: ['.js', '.jsx', '.ts', '.tsx'],
     alias: {
       '@': path.resolve(__dirname, 'src'),
+      // Code used by both ends, such as the message markdown parser
+      '@shared': path.resolve(__dirname, '../backend/src/shared'),
     },
     fallback: {
       path: false,